@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clusterPassages, parseClusteringOptions } from '@/lib/clustering';
+import { createEmbeddingService, embeddingErrorResponse, getClientCredentials, parseEmbeddingOptions } from '@/lib/embedding-route';
+
+// Legacy route for backward compatibility - no authentication required
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { query, passages, provider = 'google', clustering = {} } = body;
+
+    console.log('🔧 Legacy clustering route called');
+    console.log('🔧 Provider:', provider);
+    console.log('📄 Passages count:', passages?.length || 0);
+
+    if (!query || !passages || !Array.isArray(passages)) {
+      return NextResponse.json(
+        { error: 'Query and passages array are required' },
+        { status: 400 }
+      );
+    }
+
+    const embeddingOptions = parseEmbeddingOptions(body, 'Clustering');
+    if (embeddingOptions instanceof NextResponse) {
+      return embeddingOptions;
+    }
+
+    const options = typeof clustering === 'object' && clustering !== null ? parseClusteringOptions(clustering) : null;
+    if (!options) {
+      return NextResponse.json(
+        { error: 'Invalid clustering options' },
+        { status: 400 }
+      );
+    }
+
+    // Repeats of a similarity run are served from the embedding cache
+    const service = createEmbeddingService(embeddingOptions, getClientCredentials(embeddingOptions, body));
+    const { queryEmbedding, passageEmbeddings } = await service.embedQueryAndPassages(query, passages);
+
+    const result = clusterPassages(queryEmbedding, passageEmbeddings, passages, options);
+    console.log(`🧩 ${result.k} clusters, ${result.duplicates.length} near-duplicate groups`);
+
+    return NextResponse.json({
+      query,
+      ...result,
+      options,
+      totalPassages: passages.length,
+      usedRealAPI: service.wasRealAPIUsed(),
+      provider: service.getProvider(),
+      model: service.getModel(),
+      retries: service.getRetryCount(),
+      usage: { tokens: service.getTotalTokensUsed() }
+    });
+  } catch (error) {
+    console.error('❌ Error clustering passages:', error);
+    return embeddingErrorResponse(error, 'Failed to cluster passages');
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { clusterPassages, parseClusteringOptions } from '@/lib/clustering'
+import {
+  createEmbeddingService,
+  embeddingErrorResponse,
+  parseEmbeddingOptions,
+} from '@/lib/embedding-route'
+import { authorizeRequest, getUserCredentials, recordUsage } from '@/lib/user-request'
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate user and apply the rate limit
+    const auth = await authorizeRequest()
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+    const { user } = auth
+
+    // 2. Parse request
+    const body = await request.json()
+    const { query, passages, provider = 'google', clustering = {} } = body
+
+    console.log('🔧 Secure clustering route called')
+    console.log('👤 User:', user.email)
+    console.log('🔧 Provider:', provider)
+    console.log('📄 Passages count:', passages?.length || 0)
+
+    if (!query || !passages || !Array.isArray(passages)) {
+      return NextResponse.json(
+        { error: 'Query and passages array are required' },
+        { status: 400 }
+      )
+    }
+
+    const embeddingOptions = parseEmbeddingOptions(body, 'Clustering')
+    if (embeddingOptions instanceof NextResponse) {
+      return embeddingOptions
+    }
+
+    const options = typeof clustering === 'object' && clustering !== null ? parseClusteringOptions(clustering) : null
+    if (!options) {
+      return NextResponse.json(
+        { error: 'Invalid clustering options' },
+        { status: 400 }
+      )
+    }
+
+    // 3. Get the user's API keys from secure storage
+    const credentials = await getUserCredentials(user.email, embeddingOptions)
+    if (credentials instanceof NextResponse) {
+      return credentials
+    }
+
+    // 4. Embed query and passages; repeats of a similarity run are served from the cache
+    const service = createEmbeddingService(embeddingOptions, credentials[0])
+    const { queryEmbedding, passageEmbeddings } = await service.embedQueryAndPassages(query, passages)
+
+    // 5. Cluster
+    const result = clusterPassages(queryEmbedding, passageEmbeddings, passages, options)
+    console.log(`🧩 ${result.k} clusters, ${result.duplicates.length} near-duplicate groups`)
+
+    // 6. Track usage
+    const cost = await recordUsage(user.id, [service])
+
+    return NextResponse.json({
+      query,
+      ...result,
+      options,
+      totalPassages: passages.length,
+      usedRealAPI: service.wasRealAPIUsed(),
+      provider: service.getProvider(),
+      model: service.getModel(),
+      retries: service.getRetryCount(),
+      usage: {
+        tokens: service.getTotalTokensUsed(),
+        estimatedCost: cost,
+        remaining: auth.remaining
+      }
+    }, { headers: auth.headers })
+  } catch (error) {
+    console.error('❌ Error clustering passages:', error)
+    return embeddingErrorResponse(error, 'Failed to cluster passages')
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findMostSimilar } from '@/lib/embeddings';
+import { isSimilarityMetric } from '@/lib/vector-math';
+import { DEFAULT_OVERLAP_K, compareModelRankings, parseComparedModels } from '@/lib/model-comparison';
+import { createEmbeddingService, embeddingErrorResponse, getClientCredentials, parseEmbeddingOptions } from '@/lib/embedding-route';
+
+// Legacy route for backward compatibility - no authentication required.
+// apiKeys maps provider ids to keys; models without a key use the server key, if any.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      query,
+      passages,
+      models: requestedModels,
+      apiKeys = {},
+      metric = 'cosine',
+      k = DEFAULT_OVERLAP_K,
+      fallbackApiKey
+    } = body;
+
+    console.log('🔧 Legacy model comparison route called');
+    console.log('📄 Passages count:', passages?.length || 0);
+
+    if (!query || !passages || !Array.isArray(passages)) {
+      return NextResponse.json(
+        { error: 'Query and passages array are required' },
+        { status: 400 }
+      );
+    }
+
+    const models = parseComparedModels(requestedModels);
+    if (!models) {
+      return NextResponse.json(
+        { error: 'models must list 2 to 4 distinct embedding models as { provider, model }' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof apiKeys !== 'object' || apiKeys === null) {
+      return NextResponse.json(
+        { error: 'apiKeys must map provider ids to API keys' },
+        { status: 400 }
+      );
+    }
+
+    // The compared models share the task type, seed and fallback; each keeps its native output size
+    const options = parseEmbeddingOptions({ ...body, ...models[0], dimensions: undefined });
+    if (options instanceof NextResponse) {
+      return options;
+    }
+
+    if (!isSimilarityMetric(metric)) {
+      return NextResponse.json(
+        { error: `Unsupported metric: ${metric}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(k) || k < 1) {
+      return NextResponse.json(
+        { error: 'k must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    // Each model ranks every passage; the models run in parallel
+    const services = models.map(model =>
+      createEmbeddingService(options, getClientCredentials(options, { apiKey: apiKeys[model.provider], fallbackApiKey }), model)
+    );
+    const rankings = await Promise.all(services.map(async (service) => {
+      const { queryEmbedding, passageEmbeddings } = await service.embedQueryAndPassages(query, passages);
+      return {
+        provider: service.getProvider(),
+        model: service.getModel(),
+        usedRealAPI: service.wasRealAPIUsed(),
+        retries: service.getRetryCount(),
+        results: findMostSimilar(queryEmbedding, passageEmbeddings, passages, passages.length, undefined, metric)
+      };
+    }));
+
+    const result = compareModelRankings(rankings, k);
+    console.log(`⚖️ Compared ${models.length} models over ${passages.length} passages`);
+
+    return NextResponse.json({
+      query,
+      ...result,
+      metric,
+      totalPassages: passages.length,
+      usage: { tokens: services.reduce((total, service) => total + service.getTotalTokensUsed(), 0) }
+    });
+  } catch (error) {
+    console.error('❌ Error comparing models:', error);
+    return embeddingErrorResponse(error, 'Failed to compare models');
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findMostSimilar } from '@/lib/embeddings'
+import { isSimilarityMetric } from '@/lib/vector-math'
+import { DEFAULT_OVERLAP_K, compareModelRankings, parseComparedModels } from '@/lib/model-comparison'
+import {
+  createEmbeddingService,
+  embeddingErrorResponse,
+  parseEmbeddingOptions,
+} from '@/lib/embedding-route'
+import { authorizeRequest, getUserCredentials, recordUsage } from '@/lib/user-request'
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate user and apply the rate limit
+    const auth = await authorizeRequest()
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+    const { user } = auth
+
+    // 2. Parse request
+    const body = await request.json()
+    const { 
+      query, 
+      passages, 
+      models: requestedModels,
+      metric = 'cosine',
+      k = DEFAULT_OVERLAP_K
+    } = body
+
+    console.log('🔧 Secure model comparison route called')
+    console.log('👤 User:', user.email)
+    console.log('📄 Passages count:', passages?.length || 0)
+
+    if (!query || !passages || !Array.isArray(passages)) {
+      return NextResponse.json(
+        { error: 'Query and passages array are required' },
+        { status: 400 }
+      )
+    }
+
+    const models = parseComparedModels(requestedModels)
+    if (!models) {
+      return NextResponse.json(
+        { error: 'models must list 2 to 4 distinct embedding models as { provider, model }' },
+        { status: 400 }
+      )
+    }
+
+    // The compared models share the task type, seed and fallback; each keeps its native output size
+    const options = parseEmbeddingOptions({ ...body, ...models[0], dimensions: undefined })
+    if (options instanceof NextResponse) {
+      return options
+    }
+
+    if (!isSimilarityMetric(metric)) {
+      return NextResponse.json(
+        { error: `Unsupported metric: ${metric}` },
+        { status: 400 }
+      )
+    }
+
+    if (!Number.isInteger(k) || k < 1) {
+      return NextResponse.json(
+        { error: 'k must be a positive integer' },
+        { status: 400 }
+      )
+    }
+
+    // 3. Get the user's API key for every compared provider
+    const credentials = await getUserCredentials(user.email, options, models.map(({ provider }) => provider))
+    if (credentials instanceof NextResponse) {
+      return credentials
+    }
+
+    // 4. Rank every passage under each model, in parallel
+    const services = models.map((model, index) => createEmbeddingService(options, credentials[index], model))
+
+    // Every model runs to completion, so the ones already billed are recorded even if another fails
+    const outcomes = await Promise.allSettled(services.map(async (service) => {
+      const { queryEmbedding, passageEmbeddings } = await service.embedQueryAndPassages(query, passages)
+      return {
+        provider: service.getProvider(),
+        model: service.getModel(),
+        usedRealAPI: service.wasRealAPIUsed(),
+        retries: service.getRetryCount(),
+        results: findMostSimilar(queryEmbedding, passageEmbeddings, passages, passages.length, undefined, metric)
+      }
+    }))
+
+    // 5. Track usage: only tokens that reached a provider, not cache hits or mock vectors
+    const cost = await recordUsage(user.id, services)
+
+    const failure = outcomes.find((outcome): outcome is PromiseRejectedResult => outcome.status === 'rejected')
+    if (failure) {
+      throw failure.reason
+    }
+    const rankings = outcomes.flatMap(outcome => (outcome.status === 'fulfilled' ? [outcome.value] : []))
+
+    const result = compareModelRankings(rankings, k)
+    console.log(`⚖️ Compared ${models.length} models over ${passages.length} passages`)
+
+    return NextResponse.json({
+      query,
+      ...result,
+      metric,
+      totalPassages: passages.length,
+      usage: {
+        tokens: services.reduce((total, service) => total + service.getTotalTokensUsed(), 0),
+        estimatedCost: cost,
+        remaining: auth.remaining
+      }
+    }, { headers: auth.headers })
+  } catch (error) {
+    console.error('❌ Error comparing models:', error)
+    return embeddingErrorResponse(error, 'Failed to compare models')
+  }
+}
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { EmbeddingService } from '@/lib/embeddings';
-
-const embeddingService = new EmbeddingService();
+import { EmbeddingProviderError } from '@/lib/embedding-providers';
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,11 +13,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // One service per request so the retry count only covers this call
+    const embeddingService = new EmbeddingService();
     const embeddings = await embeddingService.generateEmbeddings(texts);
     
-    return NextResponse.json({ embeddings });
+    return NextResponse.json({ embeddings, retries: embeddingService.getRetryCount() });
   } catch (error) {
     console.error('Error generating embeddings:', error);
+    if (error instanceof EmbeddingProviderError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, retries: error.retries },
+        { status: error.httpStatus }
+      );
+    }
     return NextResponse.json(
       { error: 'Failed to generate embeddings' },
       { status: 500 }
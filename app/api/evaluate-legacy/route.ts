@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findHybrid, findMostSimilar } from '@/lib/embeddings';
+import { RerankingService, RerankModel, RerankProvider } from '@/lib/reranking';
+import { parseHybridOptions } from '@/lib/fusion';
+import { cosineSimilarity, isSimilarityMetric } from '@/lib/vector-math';
+import {
+  EvaluatedRanking,
+  QueryEvaluation,
+  evaluateQuery,
+  parseEvaluationOptions,
+  parseEvaluationQueries,
+  rerankedOrder,
+  summarizeEvaluation,
+} from '@/lib/evaluation';
+import { createEmbeddingService, embeddingErrorResponse, getClientCredentials, parseEmbeddingOptions } from '@/lib/embedding-route';
+
+const RERANK_PROVIDERS = ['openai', 'google-vertex', 'mock'];
+
+// Legacy route for backward compatibility - no authentication required.
+// Evaluation sets are saved only for signed-in users, so this route takes labelled queries inline.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const {
+      queries: requestedQueries,
+      apiKey,
+      provider = 'google',
+      metric = 'cosine',
+      hybrid,
+      rerankProvider = 'mock',
+      rerankModel = 'cross-encoder-ms-marco-MiniLM-L-6-v2',
+      rerankApiKey
+    } = body;
+
+    console.log('🔧 Legacy evaluation route called');
+    console.log('🔧 Provider:', provider);
+
+    const queries = parseEvaluationQueries(requestedQueries);
+    if (!queries) {
+      return NextResponse.json(
+        { error: 'queries must list { query, passages, relevance } with grades from 0 to 3 and at least one relevant passage' },
+        { status: 400 }
+      );
+    }
+
+    const options = parseEvaluationOptions(body);
+    if (!options) {
+      return NextResponse.json(
+        { error: 'Invalid evaluation options' },
+        { status: 400 }
+      );
+    }
+
+    const embeddingOptions = parseEmbeddingOptions(body, 'Evaluation');
+    if (embeddingOptions instanceof NextResponse) {
+      return embeddingOptions;
+    }
+
+    if (!isSimilarityMetric(metric)) {
+      return NextResponse.json(
+        { error: `Unsupported metric: ${metric}` },
+        { status: 400 }
+      );
+    }
+
+    // The hybrid ranking uses the default fusion unless the request picks one
+    const hybridOptions = parseHybridOptions(hybrid ?? true);
+    if (!hybridOptions) {
+      return NextResponse.json(
+        { error: 'Invalid hybrid options' },
+        { status: 400 }
+      );
+    }
+
+    if (!RERANK_PROVIDERS.includes(rerankProvider)) {
+      return NextResponse.json(
+        { error: `Unsupported rerank provider: ${rerankProvider}` },
+        { status: 400 }
+      );
+    }
+
+    const service = createEmbeddingService(embeddingOptions, getClientCredentials(embeddingOptions, body));
+    const rerankingService = new RerankingService(
+      rerankProvider as RerankProvider,
+      rerankModel as RerankModel,
+      rerankApiKey || apiKey || undefined,
+      { seed: embeddingOptions.seed, fallback: embeddingOptions.fallback }
+    );
+
+    // Rank each query's passages every requested way and score the rankings against the labels
+    const evaluations: QueryEvaluation[] = [];
+    for (const item of queries) {
+      const { queryEmbedding, passageEmbeddings } = await service.embedQueryAndPassages(item.query, item.passages);
+      const dense = findMostSimilar(queryEmbedding, passageEmbeddings, item.passages, item.passages.length, undefined, metric);
+      const rankings: Partial<Record<EvaluatedRanking, number[]>> = { embedding: dense.map(result => result.index) };
+
+      if (options.rankings.includes('hybrid')) {
+        rankings.hybrid = findHybrid(item.query, queryEmbedding, passageEmbeddings, item.passages, hybridOptions, item.passages.length)
+          .map(result => result.index);
+      }
+      if (options.rankings.includes('rerank')) {
+        const shortlist = dense.slice(0, options.rerankCandidates);
+        const reranked = await rerankingService.rerankPassages(
+          item.query,
+          shortlist.map(result => result.text),
+          // The reranker blends cosine scores, whatever metric picked the shortlist
+          shortlist.map(result => cosineSimilarity(queryEmbedding, passageEmbeddings[result.index]))
+        );
+        rankings.rerank = rerankedOrder(rankings.embedding!, reranked);
+      }
+      if (!options.rankings.includes('embedding')) {
+        delete rankings.embedding;
+      }
+
+      evaluations.push(evaluateQuery(item, rankings, options.k));
+    }
+
+    const report = summarizeEvaluation(evaluations, options.k);
+    console.log(`📏 Evaluated ${queries.length} queries at k=${options.k}`);
+
+    return NextResponse.json({
+      ...report,
+      rankings: options.rankings,
+      usedRealAPI: service.wasRealAPIUsed() || rerankingService.wasRealAPIUsed(),
+      provider: service.getProvider(),
+      model: service.getModel(),
+      metric,
+      // Hybrid rankings fuse cosine similarity with the lexical scores, whatever the metric
+      hybridMetric: options.rankings.includes('hybrid') ? 'cosine' : undefined,
+      rerankProvider: rerankingService.getProvider(),
+      retries: service.getRetryCount() + rerankingService.getRetryCount(),
+      usage: { tokens: service.getTotalTokensUsed() }
+    });
+  } catch (error) {
+    console.error('❌ Error evaluating rankings:', error);
+    return embeddingErrorResponse(error, 'Failed to evaluate rankings');
+  }
+}
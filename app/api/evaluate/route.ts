@@ -0,0 +1,209 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findHybrid, findMostSimilar } from '@/lib/embeddings'
+import { RerankingService, RerankModel, RerankProvider } from '@/lib/reranking'
+import { parseHybridOptions } from '@/lib/fusion'
+import { cosineSimilarity, isSimilarityMetric } from '@/lib/vector-math'
+import {
+  EvaluatedRanking,
+  EvaluationQuery,
+  QueryEvaluation,
+  evaluateQuery,
+  parseEvaluationOptions,
+  parseEvaluationQueries,
+  rerankedOrder,
+  summarizeEvaluation,
+} from '@/lib/evaluation'
+import { findOwnedEvaluationSet } from '@/lib/evaluation-sets'
+import { withoutSecrets } from '@/lib/projects'
+import { prisma, toJsonInput } from '@/lib/prisma'
+import {
+  createEmbeddingService,
+  embeddingErrorResponse,
+  parseEmbeddingOptions,
+} from '@/lib/embedding-route'
+import { authorizeRequest, getUserCredentials, recordUsage } from '@/lib/user-request'
+
+const RERANK_PROVIDERS = ['openai', 'google-vertex', 'mock']
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate user and apply the rate limit
+    const auth = await authorizeRequest()
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+    const { user } = auth
+
+    // 2. Parse request: labelled queries inline, or a saved evaluation set to re-run
+    const body = await request.json()
+    const { 
+      queries: requestedQueries,
+      evaluationSetId,
+      provider = 'google', 
+      model = 'gemini-embedding-001',
+      metric = 'cosine',
+      hybrid,
+      rerankProvider = 'mock',
+      rerankModel = 'cross-encoder-ms-marco-MiniLM-L-6-v2',
+      rerankApiKey
+    } = body
+
+    console.log('🔧 Secure evaluation route called')
+    console.log('👤 User:', user.email)
+    console.log('🔧 Provider:', provider)
+
+    let queries: EvaluationQuery[] | null
+    let savedSetId: string | null = null
+    if (evaluationSetId !== undefined) {
+      const evaluationSet = typeof evaluationSetId === 'string' ? await findOwnedEvaluationSet(user.email, evaluationSetId) : null
+      if (!evaluationSet) {
+        return NextResponse.json({ error: 'Evaluation set not found' }, { status: 404 })
+      }
+      savedSetId = evaluationSet.id
+      // Stored as JSON, so checked again: the labels may predate the current limits
+      queries = parseEvaluationQueries(evaluationSet.queries)
+    } else {
+      queries = parseEvaluationQueries(requestedQueries)
+    }
+
+    if (!queries) {
+      return NextResponse.json(
+        { error: 'queries must list { query, passages, relevance } with grades from 0 to 3 and at least one relevant passage' },
+        { status: 400 }
+      )
+    }
+
+    const options = parseEvaluationOptions(body)
+    if (!options) {
+      return NextResponse.json(
+        { error: 'Invalid evaluation options' },
+        { status: 400 }
+      )
+    }
+
+    const embeddingOptions = parseEmbeddingOptions(body, 'Evaluation')
+    if (embeddingOptions instanceof NextResponse) {
+      return embeddingOptions
+    }
+
+    if (!isSimilarityMetric(metric)) {
+      return NextResponse.json(
+        { error: `Unsupported metric: ${metric}` },
+        { status: 400 }
+      )
+    }
+
+    // The hybrid ranking uses the default fusion unless the request picks one
+    const hybridOptions = parseHybridOptions(hybrid ?? true)
+    if (!hybridOptions) {
+      return NextResponse.json(
+        { error: 'Invalid hybrid options' },
+        { status: 400 }
+      )
+    }
+
+    if (!RERANK_PROVIDERS.includes(rerankProvider)) {
+      return NextResponse.json(
+        { error: `Unsupported rerank provider: ${rerankProvider}` },
+        { status: 400 }
+      )
+    }
+
+    // 3. Get the user's API keys from secure storage
+    const credentials = await getUserCredentials(user.email, embeddingOptions)
+    if (credentials instanceof NextResponse) {
+      return credentials
+    }
+
+    // 4. Rank each query's passages every requested way and score the rankings against the labels
+    const service = createEmbeddingService(embeddingOptions, credentials[0])
+    const rerankingService = new RerankingService(
+      rerankProvider as RerankProvider,
+      rerankModel as RerankModel,
+      rerankApiKey || credentials[0].apiKey || undefined,
+      { seed: embeddingOptions.seed, fallback: embeddingOptions.fallback }
+    )
+
+    const evaluations: QueryEvaluation[] = []
+    try {
+      for (const item of queries) {
+        const { queryEmbedding, passageEmbeddings } = await service.embedQueryAndPassages(item.query, item.passages)
+        const dense = findMostSimilar(queryEmbedding, passageEmbeddings, item.passages, item.passages.length, undefined, metric)
+        const rankings: Partial<Record<EvaluatedRanking, number[]>> = { embedding: dense.map(result => result.index) }
+
+        if (options.rankings.includes('hybrid')) {
+          rankings.hybrid = findHybrid(item.query, queryEmbedding, passageEmbeddings, item.passages, hybridOptions, item.passages.length)
+            .map(result => result.index)
+        }
+        if (options.rankings.includes('rerank')) {
+          const shortlist = dense.slice(0, options.rerankCandidates)
+          const reranked = await rerankingService.rerankPassages(
+            item.query,
+            shortlist.map(result => result.text),
+            // The reranker blends cosine scores, whatever metric picked the shortlist
+            shortlist.map(result => cosineSimilarity(queryEmbedding, passageEmbeddings[result.index]))
+          )
+          rankings.rerank = rerankedOrder(rankings.embedding!, reranked)
+        }
+        if (!options.rankings.includes('embedding')) {
+          delete rankings.embedding
+        }
+
+        evaluations.push(evaluateQuery(item, rankings, options.k))
+      }
+    } catch (error) {
+      // Queries embedded before the failure reached the provider, so their usage is still recorded
+      await recordUsage(user.id, [service])
+        .catch(usageError => console.error('❌ Error recording evaluation usage:', usageError))
+      throw error
+    }
+
+    const report = summarizeEvaluation(evaluations, options.k)
+    const usedRealAPI = service.wasRealAPIUsed() || rerankingService.wasRealAPIUsed()
+    console.log(`📏 Evaluated ${queries.length} queries at k=${options.k}`)
+
+    // 5. Track usage: only tokens that reached a provider, not cache hits or mock vectors
+    const { taskType, dimensions, seed, fallback } = embeddingOptions
+    const [cost, run] = await Promise.all([
+      recordUsage(user.id, [service]),
+      // Re-runs of a saved set are kept as its benchmark history
+      savedSetId
+        ? prisma.evaluationRun.create({
+            data: {
+              evaluationSetId: savedSetId,
+              provider,
+              model,
+              k: options.k,
+              parameters: toJsonInput(withoutSecrets({ taskType, metric, dimensions, seed, hybrid: hybridOptions, rankings: options.rankings, rerankProvider, rerankModel, rerankCandidates: options.rerankCandidates, fallback: fallback.mode })),
+              mean: toJsonInput(report.mean),
+              report: toJsonInput(report.queries),
+              usedRealAPI
+            },
+            select: { id: true }
+          })
+        : null
+    ])
+
+    return NextResponse.json({
+      ...report,
+      rankings: options.rankings,
+      evaluationRunId: run?.id,
+      usedRealAPI,
+      provider: service.getProvider(),
+      model: service.getModel(),
+      metric,
+      // Hybrid rankings fuse cosine similarity with the lexical scores, whatever the metric
+      hybridMetric: options.rankings.includes('hybrid') ? 'cosine' : undefined,
+      rerankProvider: rerankingService.getProvider(),
+      retries: service.getRetryCount() + rerankingService.getRetryCount(),
+      usage: {
+        tokens: service.getTotalTokensUsed(),
+        estimatedCost: cost,
+        remaining: auth.remaining
+      }
+    }, { headers: auth.headers })
+  } catch (error) {
+    console.error('❌ Error evaluating rankings:', error)
+    return embeddingErrorResponse(error, 'Failed to evaluate rankings')
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma, toJsonInput } from '@/lib/prisma'
+import {
+  EVALUATION_HISTORY_LIMIT,
+  EVALUATION_RUN_SUMMARY_SELECT,
+  findOwnedEvaluationSet,
+  parseEvaluationSetInput,
+} from '@/lib/evaluation-sets'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// The set with its labelled queries and its most recent runs, newest first
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const evaluationSet = await prisma.evaluationSet.findFirst({
+      where: { id, user: { email: session.user.email } },
+      include: {
+        runs: { orderBy: { createdAt: 'desc' }, take: EVALUATION_HISTORY_LIMIT, select: EVALUATION_RUN_SUMMARY_SELECT }
+      }
+    })
+
+    if (!evaluationSet) {
+      return NextResponse.json({ error: 'Evaluation set not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ evaluationSet })
+  } catch (error) {
+    console.error('Error fetching evaluation set:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Renames the set or replaces its labels; earlier runs keep the metrics they were scored with
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const input = parseEvaluationSetInput(await request.json(), true)
+    if (!input) {
+      return NextResponse.json({ error: 'Invalid evaluation set fields' }, { status: 400 })
+    }
+
+    const { id } = await params
+    if (!(await findOwnedEvaluationSet(session.user.email, id))) {
+      return NextResponse.json({ error: 'Evaluation set not found' }, { status: 404 })
+    }
+
+    const evaluationSet = await prisma.evaluationSet.update({
+      where: { id },
+      data: { name: input.name, queries: input.queries && toJsonInput(input.queries) },
+      select: { id: true, name: true, createdAt: true, updatedAt: true }
+    })
+    return NextResponse.json({ evaluationSet })
+  } catch (error) {
+    console.error('Error updating evaluation set:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Deletes the set and its run history
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!(await findOwnedEvaluationSet(session.user.email, id))) {
+      return NextResponse.json({ error: 'Evaluation set not found' }, { status: 404 })
+    }
+
+    await prisma.evaluationSet.delete({ where: { id } })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting evaluation set:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
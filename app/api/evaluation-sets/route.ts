@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma, toJsonInput } from '@/lib/prisma'
+import { parseEvaluationSetInput } from '@/lib/evaluation-sets'
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const evaluationSets = await prisma.evaluationSet.findMany({
+      where: { user: { email: session.user.email } },
+      orderBy: { updatedAt: 'desc' },
+      select: {
+        id: true,
+        name: true,
+        createdAt: true,
+        updatedAt: true,
+        _count: { select: { runs: true } }
+      }
+    })
+
+    return NextResponse.json({ evaluationSets })
+  } catch (error) {
+    console.error('Error listing evaluation sets:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const input = parseEvaluationSetInput(await request.json())
+    if (!input) {
+      return NextResponse.json(
+        { error: 'A name and labelled queries, with at least one relevant passage, are required' },
+        { status: 400 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({ where: { email: session.user.email } })
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const evaluationSet = await prisma.evaluationSet.create({
+      data: { userId: user.id, name: input.name, queries: toJsonInput(input.queries) },
+      select: { id: true, name: true, createdAt: true, updatedAt: true }
+    })
+
+    return NextResponse.json({ evaluationSet }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating evaluation set:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { MAX_PROJECT_NAME_LENGTH } from '@/lib/projects'
+
+interface RouteContext {
+  params: Promise<{ id: string; setId: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, setId } = await params
+    const passageSet = await prisma.passageSet.findFirst({
+      where: { id: setId, projectId: id, project: { user: { email: session.user.email } } }
+    })
+
+    if (!passageSet) {
+      return NextResponse.json({ error: 'Passage set not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ passageSet })
+  } catch (error) {
+    console.error('Error fetching passage set:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Only the name can change; different passages are a different set
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { name } = await request.json()
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_PROJECT_NAME_LENGTH) {
+      return NextResponse.json({ error: 'A name of up to 100 characters is required' }, { status: 400 })
+    }
+
+    const { id, setId } = await params
+    const { count } = await prisma.passageSet.updateMany({
+      where: { id: setId, projectId: id, project: { user: { email: session.user.email } } },
+      data: { name: name.trim() }
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Passage set not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error updating passage set:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Also deletes the runs made against this set
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, setId } = await params
+    const { count } = await prisma.passageSet.deleteMany({
+      where: { id: setId, projectId: id, project: { user: { email: session.user.email } } }
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Passage set not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting passage set:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { findOwnedProject, parsePassageSetInput, savePassageSet } from '@/lib/projects'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!(await findOwnedProject(session.user.email, id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const passageSets = await prisma.passageSet.findMany({
+      where: { projectId: id },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return NextResponse.json({ passageSets })
+  } catch (error) {
+    console.error('Error listing passage sets:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Saving passages the project already has returns the existing set, renamed if a name is given
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const input = parsePassageSetInput(await request.json())
+    if (!input) {
+      return NextResponse.json({ error: 'passages must be a non-empty array of up to 500 strings' }, { status: 400 })
+    }
+
+    const { id } = await params
+    if (!(await findOwnedProject(session.user.email, id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const passageSet = await savePassageSet(id, input.passages, input.name)
+    return NextResponse.json({ passageSet }, { status: 201 })
+  } catch (error) {
+    console.error('Error saving passage set:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+interface RouteContext {
+  params: Promise<{ id: string; queryId: string }>
+}
+
+// Also deletes the runs made with this query
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, queryId } = await params
+    const { count } = await prisma.query.deleteMany({
+      where: { id: queryId, projectId: id, project: { user: { email: session.user.email } } }
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Query not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting query:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
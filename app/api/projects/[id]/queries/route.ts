@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { findOwnedProject, saveQuery } from '@/lib/projects'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!(await findOwnedProject(session.user.email, id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const queries = await prisma.query.findMany({
+      where: { projectId: id },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, text: true, createdAt: true }
+    })
+
+    return NextResponse.json({ queries })
+  } catch (error) {
+    console.error('Error listing queries:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Saving a query the project already has returns the existing one
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { text } = await request.json()
+    if (typeof text !== 'string' || !text.trim()) {
+      return NextResponse.json({ error: 'text is required' }, { status: 400 })
+    }
+
+    const { id } = await params
+    if (!(await findOwnedProject(session.user.email, id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const query = await saveQuery(id, text)
+    return NextResponse.json({ query }, { status: 201 })
+  } catch (error) {
+    console.error('Error saving query:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
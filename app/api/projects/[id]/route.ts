@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { RECENT_RUNS_LIMIT, RUN_SUMMARY_SELECT, findOwnedProject, parseProjectInput } from '@/lib/projects'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    const project = await prisma.project.findFirst({
+      where: { id, user: { email: session.user.email } },
+      include: {
+        passageSets: { orderBy: { createdAt: 'desc' }, select: { id: true, name: true, createdAt: true } },
+        queries: { orderBy: { createdAt: 'desc' }, select: { id: true, text: true, createdAt: true } },
+        runs: { orderBy: { createdAt: 'desc' }, take: RECENT_RUNS_LIMIT, select: RUN_SUMMARY_SELECT }
+      }
+    })
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ project })
+  } catch (error) {
+    console.error('Error fetching project:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const input = parseProjectInput(await request.json(), true)
+    if (!input) {
+      return NextResponse.json({ error: 'Invalid project fields' }, { status: 400 })
+    }
+
+    const { id } = await params
+    if (!(await findOwnedProject(session.user.email, id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const project = await prisma.project.update({ where: { id }, data: input })
+    return NextResponse.json({ project })
+  } catch (error) {
+    console.error('Error updating project:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Deletes the project with its passage sets, queries and runs
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!(await findOwnedProject(session.user.email, id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    await prisma.project.delete({ where: { id } })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting project:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+
+interface RouteContext {
+  params: Promise<{ id: string; runId: string }>
+}
+
+// The full run: parameters, results, query text and passages, enough to reopen or re-execute it
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, runId } = await params
+    const run = await prisma.run.findFirst({
+      where: { id: runId, projectId: id, project: { user: { email: session.user.email } } },
+      include: {
+        query: { select: { id: true, text: true } },
+        passageSet: { select: { id: true, name: true, passages: true } }
+      }
+    })
+
+    if (!run) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ run })
+  } catch (error) {
+    console.error('Error fetching run:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, runId } = await params
+    const { count } = await prisma.run.deleteMany({
+      where: { id: runId, projectId: id, project: { user: { email: session.user.email } } }
+    })
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting run:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { DEFAULT_DIFF_TOP_K, diffRuns, toDiffableRun } from '@/lib/run-diff'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// ?base=&compare= are run ids in this project; ?k= sets the top-K that entered and left are measured against
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const baseId = searchParams.get('base')
+    const compareId = searchParams.get('compare')
+    const topK = Number(searchParams.get('k') ?? DEFAULT_DIFF_TOP_K)
+
+    if (!baseId || !compareId) {
+      return NextResponse.json({ error: 'base and compare run ids are required' }, { status: 400 })
+    }
+    if (!Number.isInteger(topK) || topK < 1 || topK > 100) {
+      return NextResponse.json({ error: 'k must be an integer from 1 to 100' }, { status: 400 })
+    }
+
+    const { id } = await params
+    const runs = await prisma.run.findMany({
+      where: { id: { in: [baseId, compareId] }, projectId: id, project: { user: { email: session.user.email } } },
+      include: {
+        query: { select: { text: true } },
+        passageSet: { select: { passages: true } }
+      }
+    })
+
+    const base = runs.find((run: { id: string }) => run.id === baseId)
+    const compare = runs.find((run: { id: string }) => run.id === compareId)
+    if (!base || !compare) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 })
+    }
+
+    const baseRun = toDiffableRun(base)
+    const compareRun = toDiffableRun(compare)
+    if (!baseRun || !compareRun) {
+      return NextResponse.json({ error: 'A saved run has results that do not match its passages' }, { status: 422 })
+    }
+
+    return NextResponse.json({ diff: diffRuns(baseRun, compareRun, topK) })
+  } catch (error) {
+    console.error('Error diffing runs:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
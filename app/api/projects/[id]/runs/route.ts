@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma, toJsonInput } from '@/lib/prisma'
+import {
+  RECENT_RUNS_LIMIT,
+  RUN_SUMMARY_SELECT,
+  findOwnedProject,
+  parseRunInput,
+  savePassageSet,
+  saveQuery,
+} from '@/lib/projects'
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Most recent runs first; ?limit= caps the list at up to 100
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await params
+    if (!(await findOwnedProject(session.user.email, id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const limit = Number(request.nextUrl.searchParams.get('limit') ?? RECENT_RUNS_LIMIT)
+    const runs = await prisma.run.findMany({
+      where: { projectId: id },
+      orderBy: { createdAt: 'desc' },
+      take: Number.isInteger(limit) && limit > 0 ? Math.min(limit, 100) : RECENT_RUNS_LIMIT,
+      select: RUN_SUMMARY_SELECT
+    })
+
+    return NextResponse.json({ runs })
+  } catch (error) {
+    console.error('Error listing runs:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// Saves a finished similarity run, reusing the project's matching query and passage set
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const input = parseRunInput(await request.json())
+    if (!input) {
+      return NextResponse.json(
+        { error: 'query, passages, provider, model, results and usedRealAPI are required; each result needs a passage index, that passage\'s text and a finite similarity' },
+        { status: 400 }
+      )
+    }
+
+    const { id } = await params
+    if (!(await findOwnedProject(session.user.email, id))) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const [query, passageSet] = await Promise.all([
+      saveQuery(id, input.query),
+      savePassageSet(id, input.passages)
+    ])
+
+    const [run] = await Promise.all([
+      prisma.run.create({
+        data: {
+          projectId: id,
+          queryId: query.id,
+          passageSetId: passageSet.id,
+          provider: input.provider,
+          model: input.model,
+          parameters: toJsonInput(input.parameters),
+          results: toJsonInput(input.results),
+          usedRealAPI: input.usedRealAPI
+        },
+        select: RUN_SUMMARY_SELECT
+      }),
+      // Keeps the project at the top of the recent list
+      prisma.project.update({ where: { id }, data: { updatedAt: new Date() } })
+    ])
+
+    return NextResponse.json({ run }, { status: 201 })
+  } catch (error) {
+    console.error('Error saving run:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from '@/lib/auth'
+import { prisma } from '@/lib/prisma'
+import { parseProjectInput } from '@/lib/projects'
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const projects = await prisma.project.findMany({
+      where: { user: { email: session.user.email } },
+      orderBy: { updatedAt: 'desc' },
+      select: {
+        id: true,
+        name: true,
+        description: true,
+        createdAt: true,
+        updatedAt: true,
+        _count: { select: { runs: true, passageSets: true, queries: true } }
+      }
+    })
+
+    return NextResponse.json({ projects })
+  } catch (error) {
+    console.error('Error listing projects:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const input = parseProjectInput(await request.json())
+    if (!input) {
+      return NextResponse.json({ error: 'A project name of up to 100 characters is required' }, { status: 400 })
+    }
+
+    const user = await prisma.user.findUnique({ where: { email: session.user.email } })
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const project = await prisma.project.create({
+      data: { userId: user.id, name: input.name, description: input.description }
+    })
+
+    return NextResponse.json({ project }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating project:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,11 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { EmbeddingService, EmbeddingProvider, EmbeddingModel } from '@/lib/embeddings';
 import { RerankingService, RerankProvider, RerankModel } from '@/lib/reranking';
+import { cosineSimilarity } from '@/lib/vector-math';
+import { createEmbeddingService, embeddingErrorResponse, getClientCredentials, parseEmbeddingOptions } from '@/lib/embedding-route';
 
 // Legacy route for backward compatibility - no authentication required
 // This allows the app to work without requiring users to sign in
 export async function POST(request: NextRequest) {
   try {
+    const body = await request.json();
     const { 
       query, 
       passages, 
@@ -15,7 +17,7 @@ export async function POST(request: NextRequest) {
       rerankProvider = 'mock',
       rerankModel = 'cross-encoder-ms-marco-MiniLM-L-6-v2',
       rerankApiKey
-    } = await request.json();
+    } = body;
 
     console.log('🔧 Legacy Rerank API Route called');
     console.log('🔧 Provider:', provider);
@@ -31,31 +33,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const options = parseEmbeddingOptions(body);
+    if (options instanceof NextResponse) {
+      return options;
+    }
+
     // Create embedding service with client-provided API key if available
-    const service = apiKey ? 
-      new EmbeddingService(provider as EmbeddingProvider, model as EmbeddingModel, apiKey) : 
-      new EmbeddingService(provider as EmbeddingProvider, model as EmbeddingModel);
+    const service = createEmbeddingService(options, getClientCredentials(options, body));
     
     console.log('🔧 Using service:', apiKey ? `Client-provided ${provider.toUpperCase()} API key` : 'Default service');
 
     // Generate embeddings for query and passages to get embedding scores
     console.log('🔄 Starting reranking process...');
     
-    const [queryEmbedding, passageEmbeddings] = await Promise.all([
-      service.generateEmbedding(query),
-      service.generateEmbeddings(passages)
-    ]);
+    const { queryEmbedding, passageEmbeddings } = await service.embedQueryAndPassages(query, passages);
 
     // Calculate embedding similarities
     const embeddingScores = passageEmbeddings.map(passageEmbedding => 
-      calculateCosineSimilarity(queryEmbedding, passageEmbedding)
+      cosineSimilarity(queryEmbedding, passageEmbedding)
     );
 
     // Create reranking service
     const rerankingService = new RerankingService(
       rerankProvider as RerankProvider,
       rerankModel as RerankModel,
-      rerankApiKey
+      rerankApiKey,
+      { seed: options.seed, fallback: options.fallback }
     );
 
     // Perform reranking
@@ -73,39 +76,14 @@ export async function POST(request: NextRequest) {
       embeddingProvider: service.getProvider(),
       rerankProvider: rerankingService.getProvider(),
       rerankModel: rerankingService.getModel(),
-      usedRealAPI: service.wasRealAPIUsed() || rerankingService.wasRealAPIUsed()
+      dimensions: service.getDimensions(),
+      seed: rerankingService.getSeed(),
+      usedRealAPI: service.wasRealAPIUsed() || rerankingService.wasRealAPIUsed(),
+      retries: service.getRetryCount() + rerankingService.getRetryCount(),
+      cache: service.getCacheStats()
     });
   } catch (error) {
     console.error('❌ Error in reranking:', error);
-    return NextResponse.json(
-      { error: 'Failed to rerank passages' },
-      { status: 500 }
-    );
-  }
-}
-
-// Helper function to calculate cosine similarity
-function calculateCosineSimilarity(vec1: number[], vec2: number[]): number {
-  if (vec1.length !== vec2.length) {
-    throw new Error('Vectors must have the same length');
+    return embeddingErrorResponse(error, 'Failed to rerank passages');
   }
-
-  let dotProduct = 0;
-  let norm1 = 0;
-  let norm2 = 0;
-
-  for (let i = 0; i < vec1.length; i++) {
-    dotProduct += vec1[i] * vec2[i];
-    norm1 += vec1[i] * vec1[i];
-    norm2 += vec2[i] * vec2[i];
-  }
-
-  norm1 = Math.sqrt(norm1);
-  norm2 = Math.sqrt(norm2);
-
-  if (norm1 === 0 || norm2 === 0) {
-    return 0;
-  }
-
-  return dotProduct / (norm1 * norm2);
 }
@@ -1,36 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
-import { EmbeddingService, EmbeddingProvider, EmbeddingModel } from '@/lib/embeddings';
-import { RerankingService, RerankProvider, RerankModel } from '@/lib/reranking';
-import { getUserApiKey } from '@/lib/api-keys';
-import { rateLimit } from '@/lib/rate-limit';
-import { prisma } from '@/lib/prisma';
+import { RerankingService, RerankProvider, RerankModel, RerankResult } from '@/lib/reranking';
+import { cosineSimilarity } from '@/lib/vector-math';
+import {
+  createEmbeddingService,
+  embeddingErrorResponse,
+  parseEmbeddingOptions,
+} from '@/lib/embedding-route';
+import { authorizeRequest, getUserCredentials, recordUsage } from '@/lib/user-request';
 
 export async function POST(request: NextRequest) {
   try {
-    // 1. Authenticate user
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.email) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // 1. Authenticate user and apply the rate limit
+    const auth = await authorizeRequest();
+    if (auth instanceof NextResponse) {
+      return auth;
     }
+    const { user } = auth;
 
-    // 2. Apply rate limiting
-    const { success, remaining, resetTime } = await rateLimit(
-      `rerank_${session.user.email}`
-    );
-
-    if (!success) {
-      return new NextResponse('Too Many Requests', {
-        status: 429,
-        headers: {
-          'X-RateLimit-Remaining': remaining.toString(),
-          'X-RateLimit-Reset': resetTime.toString(),
-        },
-      });
-    }
-
-    // 3. Parse request body
+    // 2. Parse request body
+    const body = await request.json();
     const { 
       query, 
       passages, 
@@ -39,7 +27,7 @@ export async function POST(request: NextRequest) {
       rerankProvider = 'mock',
       rerankModel = 'cross-encoder-ms-marco-MiniLM-L-6-v2',
       rerankApiKey
-    } = await request.json();
+    } = body;
 
     if (!query || !passages || !Array.isArray(passages)) {
       return NextResponse.json(
@@ -48,63 +36,59 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const options = parseEmbeddingOptions(body);
+    if (options instanceof NextResponse) {
+      return options;
+    }
+
     console.log('🔧 Authenticated Rerank API Route called');
     console.log('🔧 Provider:', provider);
     console.log('🔧 Model:', model);
     console.log('📝 Query:', query.substring(0, 50) + '...');
     console.log('📄 Passages count:', passages.length);
 
-    // 4. Get user's API key
-    const userApiKey = await getUserApiKey(session.user.email, provider as EmbeddingProvider);
-    if (!userApiKey) {
-      return NextResponse.json(
-        { error: `No ${provider} API key found. Please add your API key in settings.` },
-        { status: 400 }
-      );
+    // 3. Get user's API key
+    const credentials = await getUserCredentials(user.email, options);
+    if (credentials instanceof NextResponse) {
+      return credentials;
     }
 
-    // 5. Create embedding service with user's API key
-    const service = new EmbeddingService(
-      provider as EmbeddingProvider,
-      model as EmbeddingModel,
-      userApiKey
-    );
+    // 4. Create embedding service with user's API key
+    const service = createEmbeddingService(options, credentials[0]);
 
     console.log('🔧 Using service: User-provided API key');
 
-    // 6. Generate embeddings for query and passages to get embedding scores
+    // 5. Generate embeddings for query and passages to get embedding scores
     console.log('🔄 Starting reranking process...');
     
-    const [queryEmbedding, passageEmbeddings] = await Promise.all([
-      service.generateEmbedding(query),
-      service.generateEmbeddings(passages)
-    ]);
+    const { queryEmbedding, passageEmbeddings } = await service.embedQueryAndPassages(query, passages);
 
     // Calculate embedding similarities
     const embeddingScores = passageEmbeddings.map(passageEmbedding => 
-      calculateCosineSimilarity(queryEmbedding, passageEmbedding)
+      cosineSimilarity(queryEmbedding, passageEmbedding)
     );
 
-    // 7. Create reranking service with user's rerank API key (or fallback to embedding API key)
+    // 6. Create reranking service with user's rerank API key (or fallback to embedding API key)
     const rerankingService = new RerankingService(
       rerankProvider as RerankProvider,
       rerankModel as RerankModel,
-      rerankApiKey || userApiKey
+      rerankApiKey || credentials[0].apiKey || undefined,
+      { seed: options.seed, fallback: options.fallback }
     );
 
     // Perform reranking
-    const similarities = await rerankingService.rerankPassages(query, passages, embeddingScores);
+    let similarities: RerankResult[];
+    try {
+      similarities = await rerankingService.rerankPassages(query, passages, embeddingScores);
+    } catch (error) {
+      // The passages were already embedded, so their usage is still recorded
+      await recordUsage(user.id, [service])
+        .catch(usageError => console.error('❌ Error recording rerank usage:', usageError));
+      throw error;
+    }
 
-    // 8. Track usage (for future billing/monitoring)
-    await prisma.user.update({
-      where: { email: session.user.email },
-      data: {
-        monthlyRequests: {
-          increment: 1,
-        },
-        lastRequestAt: new Date(),
-      },
-    });
+    // 7. Track usage
+    const cost = await recordUsage(user.id, [service]);
 
     console.log('✅ Reranking complete');
     console.log('📊 Results count:', similarities.length);
@@ -118,39 +102,19 @@ export async function POST(request: NextRequest) {
       embeddingProvider: service.getProvider(),
       rerankProvider: rerankingService.getProvider(),
       rerankModel: rerankingService.getModel(),
-      usedRealAPI: service.wasRealAPIUsed() || rerankingService.wasRealAPIUsed()
-    });
+      dimensions: service.getDimensions(),
+      seed: rerankingService.getSeed(),
+      usedRealAPI: service.wasRealAPIUsed() || rerankingService.wasRealAPIUsed(),
+      retries: service.getRetryCount() + rerankingService.getRetryCount(),
+      cache: service.getCacheStats(),
+      usage: {
+        tokens: service.getTotalTokensUsed(),
+        estimatedCost: cost,
+        remaining: auth.remaining
+      }
+    }, { headers: auth.headers });
   } catch (error) {
     console.error('❌ Error in reranking:', error);
-    return NextResponse.json(
-      { error: 'Failed to rerank passages' },
-      { status: 500 }
-    );
-  }
-}
-
-// Helper function to calculate cosine similarity
-function calculateCosineSimilarity(vec1: number[], vec2: number[]): number {
-  if (vec1.length !== vec2.length) {
-    throw new Error('Vectors must have the same length');
+    return embeddingErrorResponse(error, 'Failed to rerank passages');
   }
-
-  let dotProduct = 0;
-  let norm1 = 0;
-  let norm2 = 0;
-
-  for (let i = 0; i < vec1.length; i++) {
-    dotProduct += vec1[i] * vec2[i];
-    norm1 += vec1[i] * vec1[i];
-    norm2 += vec2[i] * vec2[i];
-  }
-
-  norm1 = Math.sqrt(norm1);
-  norm2 = Math.sqrt(norm2);
-
-  if (norm1 === 0 || norm2 === 0) {
-    return 0;
-  }
-
-  return dotProduct / (norm1 * norm2);
 }
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findMostSimilar } from '@/lib/embeddings';
+import { EmbeddingProviderError } from '@/lib/embedding-providers';
+import { isSimilarityMetric } from '@/lib/vector-math';
+import { BatchEvent, parseBatchQueries } from '@/lib/batch';
+import { createEmbeddingService, getClientCredentials, parseEmbeddingOptions } from '@/lib/embedding-route';
+
+// Legacy route for backward compatibility - no authentication required.
+// Streams one newline-delimited JSON event per finished query.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { queries: rawQueries, provider = 'google', metric = 'cosine' } = body;
+
+    const queries = parseBatchQueries(rawQueries);
+    if (!queries) {
+      return NextResponse.json(
+        { error: 'queries must be a non-empty array of { query, passages } within the batch limits' },
+        { status: 400 }
+      );
+    }
+
+    console.log('🔧 Legacy batch route called');
+    console.log('🔧 Provider:', provider);
+    console.log('📄 Queries:', queries.length);
+
+    const options = parseEmbeddingOptions(body);
+    if (options instanceof NextResponse) {
+      return options;
+    }
+
+    if (!isSimilarityMetric(metric)) {
+      return NextResponse.json(
+        { error: `Unsupported metric: ${metric}` },
+        { status: 400 }
+      );
+    }
+
+    const service = createEmbeddingService(options, getClientCredentials(options, body));
+    const encoder = new TextEncoder();
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: BatchEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        let queryIndex = 0;
+
+        try {
+          for (; queryIndex < queries.length; queryIndex++) {
+            const { query, passages } = queries[queryIndex];
+            const { queryEmbedding, passageEmbeddings, passageProvenance } = await service.embedQueryAndPassages(query, passages);
+            const results = findMostSimilar(queryEmbedding, passageEmbeddings, passages, passages.length, passageProvenance, metric);
+            send({ type: 'result', completed: queryIndex + 1, total: queries.length, queryIndex, query, results });
+          }
+
+          send({
+            type: 'done',
+            total: queries.length,
+            usedRealAPI: service.wasRealAPIUsed(),
+            provider: service.getProvider(),
+            model: service.getModel(),
+            metric,
+            retries: service.getRetryCount(),
+            usage: { tokens: service.getTotalTokensUsed() }
+          });
+        } catch (error) {
+          console.error('❌ Error in similarity batch:', error);
+          send(error instanceof EmbeddingProviderError
+            ? { type: 'error', error: error.message, code: error.code, provider: error.provider, retries: error.retries, queryIndex }
+            : { type: 'error', error: 'Failed to calculate similarity', queryIndex });
+        }
+        controller.close();
+      }
+    });
+
+    return new NextResponse(stream, {
+      headers: { 'Content-Type': 'application/x-ndjson' }
+    });
+  } catch (error) {
+    console.error('❌ Error starting similarity batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate similarity' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findMostSimilar } from '@/lib/embeddings'
+import { EmbeddingProviderError } from '@/lib/embedding-providers'
+import { isSimilarityMetric } from '@/lib/vector-math'
+import { BatchEvent, parseBatchQueries } from '@/lib/batch'
+import { createEmbeddingService, parseEmbeddingOptions } from '@/lib/embedding-route'
+import { authorizeRequest, getUserCredentials, recordUsage } from '@/lib/user-request'
+
+// Scores many queries, each against its own passages. Results stream back as
+// newline-delimited JSON, one event per finished query, so the page can show progress.
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate user and apply the rate limit: a batch counts as one request
+    const auth = await authorizeRequest()
+    if (auth instanceof NextResponse) {
+      return auth
+    }
+    const { user } = auth
+
+    // 2. Parse request
+    const body = await request.json()
+    const { queries: rawQueries, provider = 'google', metric = 'cosine' } = body
+
+    const queries = parseBatchQueries(rawQueries)
+    if (!queries) {
+      return NextResponse.json(
+        { error: 'queries must be a non-empty array of { query, passages } within the batch limits' },
+        { status: 400 }
+      )
+    }
+
+    console.log('🔧 Secure batch route called')
+    console.log('👤 User:', user.email)
+    console.log('🔧 Provider:', provider)
+    console.log('📄 Queries:', queries.length)
+
+    const options = parseEmbeddingOptions(body)
+    if (options instanceof NextResponse) {
+      return options
+    }
+
+    if (!isSimilarityMetric(metric)) {
+      return NextResponse.json(
+        { error: `Unsupported metric: ${metric}` },
+        { status: 400 }
+      )
+    }
+
+    // 3. Get the user's API keys from secure storage
+    const credentials = await getUserCredentials(user.email, options)
+    if (credentials instanceof NextResponse) {
+      return credentials
+    }
+
+    // 4. One service for the whole batch, so retries, cache stats and usage add up
+    const service = createEmbeddingService(options, credentials[0])
+    const encoder = new TextEncoder()
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (event: BatchEvent) => controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'))
+        let queryIndex = 0
+
+        try {
+          for (; queryIndex < queries.length; queryIndex++) {
+            const { query, passages } = queries[queryIndex]
+            const { queryEmbedding, passageEmbeddings, passageProvenance } = await service.embedQueryAndPassages(query, passages)
+            const results = findMostSimilar(queryEmbedding, passageEmbeddings, passages, passages.length, passageProvenance, metric)
+            send({ type: 'result', completed: queryIndex + 1, total: queries.length, queryIndex, query, results })
+          }
+        } catch (error) {
+          console.error('❌ Error in similarity batch:', error)
+          send(error instanceof EmbeddingProviderError
+            ? { type: 'error', error: error.message, code: error.code, provider: error.provider, retries: error.retries, queryIndex }
+            : { type: 'error', error: 'Failed to calculate similarity', queryIndex })
+        }
+
+        // 5. Track usage, including queries scored before a failure
+        let cost = 0
+        try {
+          cost = await recordUsage(user.id, [service])
+        } catch (error) {
+          console.error('❌ Error recording batch usage:', error)
+        }
+
+        if (queryIndex === queries.length) {
+          send({
+            type: 'done',
+            total: queries.length,
+            usedRealAPI: service.wasRealAPIUsed(),
+            provider: service.getProvider(),
+            model: service.getModel(),
+            metric,
+            retries: service.getRetryCount(),
+            usage: { tokens: service.getTotalTokensUsed(), estimatedCost: cost }
+          })
+        }
+        controller.close()
+      }
+    })
+
+    return new NextResponse(stream, {
+      headers: { 'Content-Type': 'application/x-ndjson', ...auth.headers }
+    })
+  } catch (error) {
+    console.error('❌ Error starting similarity batch:', error)
+    return NextResponse.json(
+      { error: 'Failed to calculate similarity' },
+      { status: 500 }
+    )
+  }
+}
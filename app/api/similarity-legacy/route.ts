@@ -1,18 +1,33 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { EmbeddingService, findMostSimilar, EmbeddingProvider, EmbeddingModel } from '@/lib/embeddings';
+import { findHybrid, findMostSimilar } from '@/lib/embeddings';
+import { LEXICAL_PROVIDER } from '@/lib/embedding-providers';
+import { LexicalSearchService, isLexicalLanguage, isLexicalModel } from '@/lib/lexical';
+import { parseHybridOptions } from '@/lib/fusion';
+import { cosineMatrix, isSimilarityMetric } from '@/lib/vector-math';
+import { findDiverse, parseMmrLambda } from '@/lib/mmr';
+import { parseProjectionOptions, projectQueryAndPassages } from '@/lib/projection';
+import { createEmbeddingService, embeddingErrorResponse, getClientCredentials, parseEmbeddingOptions } from '@/lib/embedding-route';
 
 // Legacy route for backward compatibility - no authentication required
 // This allows the app to work without requiring users to sign in
 export async function POST(request: NextRequest) {
   try {
+    const body = await request.json();
     const { 
       query, 
       passages, 
       topK = 5, 
       apiKey, 
       provider = 'google', 
-      model = 'gemini-embedding-001' 
-    } = await request.json();
+      model = 'gemini-embedding-001',
+      language = 'auto',
+      hybrid,
+      mmr,
+      metric = 'cosine',
+      matrix = false,
+      projection,
+      embeddings = false
+    } = body;
 
     console.log('🔧 Legacy API Route called');
     console.log('🔧 Provider:', provider);
@@ -28,26 +43,132 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (typeof matrix !== 'boolean' || typeof embeddings !== 'boolean') {
+      return NextResponse.json(
+        { error: 'matrix and embeddings must be booleans' },
+        { status: 400 }
+      );
+    }
+
+    // projection: true plots a 2-d PCA; an object picks the method and 2 or 3 dimensions
+    const projectionOptions = projection ? parseProjectionOptions(projection) : undefined;
+    if (projectionOptions === null) {
+      return NextResponse.json(
+        { error: 'Invalid projection options' },
+        { status: 400 }
+      );
+    }
+
+    // Lexical scoring runs locally: no key, provider call or fallback involved
+    if (provider === LEXICAL_PROVIDER) {
+      if (matrix || projectionOptions || embeddings) {
+        return NextResponse.json(
+          { error: 'The similarity matrix, projection and raw vectors need embeddings; pick an embedding provider' },
+          { status: 400 }
+        );
+      }
+
+      if (hybrid || mmr || metric !== 'cosine') {
+        return NextResponse.json(
+          { error: 'Lexical runs rank by their BM25 or TF-IDF score; hybrid, MMR and other metrics need an embedding provider' },
+          { status: 400 }
+        );
+      }
+
+      if (!isLexicalModel(model) || (language !== 'auto' && !isLexicalLanguage(language))) {
+        return NextResponse.json(
+          { error: `Unsupported lexical model or language: ${model}/${language}` },
+          { status: 400 }
+        );
+      }
+
+      const lexical = new LexicalSearchService(model, { language });
+      const results = lexical.search(query, passages, topK);
+
+      return NextResponse.json({
+        query,
+        results,
+        totalPassages: passages.length,
+        usedRealAPI: false, // no provider was called
+        provider,
+        model,
+        language: lexical.getLanguage(),
+        retries: 0,
+        usage: { tokens: 0 }
+      });
+    }
+
+    const options = parseEmbeddingOptions(body);
+    if (options instanceof NextResponse) {
+      return options;
+    }
+
+    if (!isSimilarityMetric(metric)) {
+      return NextResponse.json(
+        { error: `Unsupported metric: ${metric}` },
+        { status: 400 }
+      );
+    }
+
+    // hybrid: true uses the default fusion; an object picks the strategy and weights
+    const hybridOptions = hybrid ? parseHybridOptions(hybrid) : undefined;
+    if (hybridOptions === null) {
+      return NextResponse.json(
+        { error: 'Invalid hybrid options' },
+        { status: 400 }
+      );
+    }
+
+    if (hybridOptions && metric !== 'cosine') {
+      return NextResponse.json(
+        { error: 'Hybrid ranking fuses cosine similarity; use metric "cosine"' },
+        { status: 400 }
+      );
+    }
+
+    // mmr: true uses the default lambda; { lambda } trades relevance against redundancy
+    const mmrLambda = mmr ? parseMmrLambda(mmr) : undefined;
+    if (mmrLambda === null) {
+      return NextResponse.json(
+        { error: 'mmr.lambda must be between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    if (mmrLambda !== undefined && (hybridOptions || metric !== 'cosine')) {
+      return NextResponse.json(
+        { error: 'MMR ranking uses cosine similarity and cannot be combined with hybrid ranking' },
+        { status: 400 }
+      );
+    }
+
     // Create embedding service with client-provided API key if available
-    const service = apiKey ? 
-      new EmbeddingService(provider as EmbeddingProvider, model as EmbeddingModel, apiKey) : 
-      new EmbeddingService(provider as EmbeddingProvider, model as EmbeddingModel);
+    const service = createEmbeddingService(options, getClientCredentials(options, body));
     
     console.log('🔧 Using service:', apiKey ? `Client-provided ${provider.toUpperCase()} API key` : 'Default service');
 
     // Generate embeddings for query and passages
     console.log('🚀 Starting embedding generation...');
-    const [queryEmbedding, passageEmbeddings] = await Promise.all([
-      service.generateEmbedding(query),
-      service.generateEmbeddings(passages)
-    ]);
+    const {
+      queryEmbedding,
+      passageEmbeddings,
+      queryProvenance,
+      passageProvenance,
+      queryTokens,
+      passageTokens
+    } = await service.embedQueryAndPassages(query, passages);
 
     console.log('✅ Embeddings generated successfully');
     console.log('📊 Query embedding dimensions:', queryEmbedding.length);
     console.log('📊 Passage embeddings count:', passageEmbeddings.length);
 
-    // Find most similar passages
-    const results = findMostSimilar(queryEmbedding, passageEmbeddings, passages, topK);
+    // Find most similar passages, fused with lexical scores in hybrid mode or diversified with MMR
+    const results = (hybridOptions
+      ? findHybrid(query, queryEmbedding, passageEmbeddings, passages, hybridOptions, topK, passageProvenance)
+      : mmrLambda !== undefined
+        ? findDiverse(queryEmbedding, passageEmbeddings, passages, mmrLambda, topK, passageProvenance)
+        : findMostSimilar(queryEmbedding, passageEmbeddings, passages, topK, passageProvenance, metric))
+      .map(result => ({ ...result, ...passageTokens[result.index] }));
     
     console.log('🎯 Similarity calculation complete');
     console.log('📊 Results count:', results.length);
@@ -59,13 +180,30 @@ export async function POST(request: NextRequest) {
       totalPassages: passages.length,
       usedRealAPI: service.wasRealAPIUsed(),
       provider: service.getProvider(),
-      model: service.getModel()
+      model: service.getModel(),
+      dimensions: service.getDimensions(),
+      taskType: service.getTaskType(),
+      metric,
+      hybrid: hybridOptions,
+      mmr: mmrLambda === undefined ? undefined : { lambda: mmrLambda },
+      // Row and column 0 are the query; 4 decimals keeps large matrices small on the wire
+      matrix: matrix
+        ? cosineMatrix([queryEmbedding, ...passageEmbeddings]).map(row => row.map(value => Math.round(value * 1e4) / 1e4))
+        : undefined,
+      projection: projectionOptions ? projectQueryAndPassages(queryEmbedding, passageEmbeddings, projectionOptions) : undefined,
+      // Raw vectors for export, passages in request order
+      embeddings: embeddings ? { query: queryEmbedding, passages: passageEmbeddings } : undefined,
+      seed: options.seed,
+      queryProvenance,
+      retries: service.getRetryCount(),
+      cache: service.getCacheStats(),
+      usage: {
+        tokens: service.getTotalTokensUsed(),
+        queryTokens: queryTokens.tokens
+      }
     });
   } catch (error) {
     console.error('❌ Error calculating similarity:', error);
-    return NextResponse.json(
-      { error: 'Failed to calculate similarity' },
-      { status: 500 }
-    );
+    return embeddingErrorResponse(error, 'Failed to calculate similarity');
   }
 }
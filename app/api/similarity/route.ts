@@ -1,60 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth/next'
-import { authOptions } from '@/lib/auth'
-import { EmbeddingService, findMostSimilar, EmbeddingProvider, EmbeddingModel } from '@/lib/embeddings'
-import { rateLimit } from '@/lib/rate-limit'
-import { getUserApiKey } from '@/lib/api-keys'
-import { prisma } from '@/lib/prisma'
+import { findHybrid, findMostSimilar } from '@/lib/embeddings'
+import { LEXICAL_PROVIDER } from '@/lib/embedding-providers'
+import { LexicalSearchService, isLexicalLanguage, isLexicalModel } from '@/lib/lexical'
+import { parseHybridOptions } from '@/lib/fusion'
+import { cosineMatrix, isSimilarityMetric } from '@/lib/vector-math'
+import { findDiverse, parseMmrLambda } from '@/lib/mmr'
+import { parseProjectionOptions, projectQueryAndPassages } from '@/lib/projection'
+import {
+  createEmbeddingService,
+  embeddingErrorResponse,
+  parseEmbeddingOptions,
+} from '@/lib/embedding-route'
+import { authorizeRequest, getUserCredentials, recordUsage } from '@/lib/user-request'
 
 export async function POST(request: NextRequest) {
   try {
-    // 1. Authenticate user
-    const session = await getServerSession(authOptions)
-    
-    if (!session?.user?.email) {
-      return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
-    }
-
-    // 2. Rate limiting
-    const user = await prisma.user.findUnique({
-      where: { email: session.user.email }
-    })
-
-    if (!user) {
-      return NextResponse.json({ error: 'User not found' }, { status: 404 })
-    }
-
-    const rateLimitResult = await rateLimit(user.id, 60) // 60 requests per minute
-    
-    if (!rateLimitResult.success) {
-      return NextResponse.json(
-        { 
-          error: 'Rate limit exceeded',
-          resetTime: rateLimitResult.resetTime,
-          remaining: rateLimitResult.remaining
-        }, 
-        { 
-          status: 429,
-          headers: {
-            'X-RateLimit-Limit': '60',
-            'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-            'X-RateLimit-Reset': rateLimitResult.resetTime.toString()
-          }
-        }
-      )
+    // 1. Authenticate user and apply the rate limit
+    const auth = await authorizeRequest()
+    if (auth instanceof NextResponse) {
+      return auth
     }
+    const { user } = auth
 
-    // 3. Parse request
+    // 2. Parse request
+    const body = await request.json()
     const { 
       query, 
       passages, 
       topK = 5, 
       provider = 'google', 
-      model = 'gemini-embedding-001' 
-    } = await request.json()
+      model = 'gemini-embedding-001',
+      language = 'auto',
+      hybrid,
+      mmr,
+      metric = 'cosine',
+      matrix = false,
+      projection,
+      embeddings = false
+    } = body
 
     console.log('🔧 Secure API Route called')
-    console.log('👤 User:', session.user.email)
+    console.log('👤 User:', user.email)
     console.log('🔧 Provider:', provider)
     console.log('🔧 Model:', model)
     console.log('📝 Query:', query?.substring(0, 50) + '...')
@@ -67,67 +53,152 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // 4. Get user's API key from secure storage
-    const apiKey = await getUserApiKey(session.user.email, provider as 'google' | 'openai')
-    
-    if (!apiKey) {
+    if (typeof matrix !== 'boolean' || typeof embeddings !== 'boolean') {
+      return NextResponse.json(
+        { error: 'matrix and embeddings must be booleans' },
+        { status: 400 }
+      )
+    }
+
+    // projection: true plots a 2-d PCA; an object picks the method and 2 or 3 dimensions
+    const projectionOptions = projection ? parseProjectionOptions(projection) : undefined
+    if (projectionOptions === null) {
+      return NextResponse.json(
+        { error: 'Invalid projection options' },
+        { status: 400 }
+      )
+    }
+
+    // Lexical scoring runs locally: no key lookup, provider call or usage cost
+    if (provider === LEXICAL_PROVIDER) {
+      if (matrix || projectionOptions || embeddings) {
+        return NextResponse.json(
+          { error: 'The similarity matrix, projection and raw vectors need embeddings; pick an embedding provider' },
+          { status: 400 }
+        )
+      }
+
+      if (hybrid || mmr || metric !== 'cosine') {
+        return NextResponse.json(
+          { error: 'Lexical runs rank by their BM25 or TF-IDF score; hybrid, MMR and other metrics need an embedding provider' },
+          { status: 400 }
+        )
+      }
+
+      if (!isLexicalModel(model) || (language !== 'auto' && !isLexicalLanguage(language))) {
+        return NextResponse.json(
+          { error: `Unsupported lexical model or language: ${model}/${language}` },
+          { status: 400 }
+        )
+      }
+
+      const lexical = new LexicalSearchService(model, { language })
+      const results = lexical.search(query, passages, topK)
+
+      await recordUsage(user.id, [])
+
+      return NextResponse.json({
+        query,
+        results,
+        totalPassages: passages.length,
+        usedRealAPI: false, // no provider was called
+        provider,
+        model,
+        language: lexical.getLanguage(),
+        retries: 0,
+        usage: {
+          tokens: 0,
+          estimatedCost: 0,
+          remaining: auth.remaining
+        }
+      }, { headers: auth.headers })
+    }
+
+    const options = parseEmbeddingOptions(body)
+    if (options instanceof NextResponse) {
+      return options
+    }
+
+    if (!isSimilarityMetric(metric)) {
+      return NextResponse.json(
+        { error: `Unsupported metric: ${metric}` },
+        { status: 400 }
+      )
+    }
+
+    // hybrid: true uses the default fusion; an object picks the strategy and weights
+    const hybridOptions = hybrid ? parseHybridOptions(hybrid) : undefined
+    if (hybridOptions === null) {
       return NextResponse.json(
-        { error: `No ${provider} API key found. Please add your API key in settings.` },
+        { error: 'Invalid hybrid options' },
         { status: 400 }
       )
     }
 
-    console.log('🔑 Using user API key:', apiKey.substring(0, 10) + '...')
+    if (hybridOptions && metric !== 'cosine') {
+      return NextResponse.json(
+        { error: 'Hybrid ranking fuses cosine similarity; use metric "cosine"' },
+        { status: 400 }
+      )
+    }
 
-    // 5. Create embedding service with user's API key
-    const service = new EmbeddingService(provider as EmbeddingProvider, model as EmbeddingModel, apiKey)
+    // mmr: true uses the default lambda; { lambda } trades relevance against redundancy
+    const mmrLambda = mmr ? parseMmrLambda(mmr) : undefined
+    if (mmrLambda === null) {
+      return NextResponse.json(
+        { error: 'mmr.lambda must be between 0 and 1' },
+        { status: 400 }
+      )
+    }
 
-    // 6. Generate embeddings
+    if (mmrLambda !== undefined && (hybridOptions || metric !== 'cosine')) {
+      return NextResponse.json(
+        { error: 'MMR ranking uses cosine similarity and cannot be combined with hybrid ranking' },
+        { status: 400 }
+      )
+    }
+
+    // 3. Get the user's API keys from secure storage
+    const credentials = await getUserCredentials(user.email, options)
+    if (credentials instanceof NextResponse) {
+      return credentials
+    }
+
+    // 4. Create embedding service with the user's API key
+    const service = createEmbeddingService(options, credentials[0])
+
+    // 5. Generate embeddings
     console.log('🚀 Starting embedding generation...')
     const startTime = Date.now()
     
-    const [queryEmbedding, passageEmbeddings] = await Promise.all([
-      service.generateEmbedding(query),
-      service.generateEmbeddings(passages)
-    ])
+    const {
+      queryEmbedding,
+      passageEmbeddings,
+      queryProvenance,
+      passageProvenance,
+      queryTokens,
+      passageTokens
+    } = await service.embedQueryAndPassages(query, passages)
 
     const duration = Date.now() - startTime
     console.log(`✅ Embeddings generated in ${duration}ms`)
     console.log('📊 Query embedding dimensions:', queryEmbedding.length)
     console.log('📊 Passage embeddings count:', passageEmbeddings.length)
 
-    // 7. Calculate similarity
-    const results = findMostSimilar(queryEmbedding, passageEmbeddings, passages, topK)
+    // 6. Calculate similarity, fused with lexical scores in hybrid mode or diversified with MMR
+    const results = (hybridOptions
+      ? findHybrid(query, queryEmbedding, passageEmbeddings, passages, hybridOptions, topK, passageProvenance)
+      : mmrLambda !== undefined
+        ? findDiverse(queryEmbedding, passageEmbeddings, passages, mmrLambda, topK, passageProvenance)
+        : findMostSimilar(queryEmbedding, passageEmbeddings, passages, topK, passageProvenance, metric))
+      .map(result => ({ ...result, ...passageTokens[result.index] }))
     
     console.log('🎯 Similarity calculation complete')
     console.log('📊 Results count:', results.length)
     console.log('🔍 Real API used:', service.wasRealAPIUsed())
 
-    // 8. Track usage
-    const tokensUsed = estimateTokens(query, passages)
-    const cost = estimateCost(provider, model, tokensUsed)
-    
-    await Promise.all([
-      // Update user usage stats
-      prisma.user.update({
-        where: { id: user.id },
-        data: {
-          totalRequests: { increment: 1 },
-          monthlyRequests: { increment: 1 },
-          lastRequestAt: new Date()
-        }
-      }),
-      // Log API usage
-      prisma.apiUsage.create({
-        data: {
-          userId: user.id,
-          provider,
-          model,
-          tokens: tokensUsed,
-          cost
-        }
-      })
-    ])
+    // 7. Track usage
+    const cost = await recordUsage(user.id, [service])
     
     return NextResponse.json({ 
       query,
@@ -136,45 +207,31 @@ export async function POST(request: NextRequest) {
       usedRealAPI: service.wasRealAPIUsed(),
       provider: service.getProvider(),
       model: service.getModel(),
+      dimensions: service.getDimensions(),
+      taskType: service.getTaskType(),
+      metric,
+      hybrid: hybridOptions,
+      mmr: mmrLambda === undefined ? undefined : { lambda: mmrLambda },
+      // Row and column 0 are the query; 4 decimals keeps large matrices small on the wire
+      matrix: matrix
+        ? cosineMatrix([queryEmbedding, ...passageEmbeddings]).map(row => row.map(value => Math.round(value * 1e4) / 1e4))
+        : undefined,
+      projection: projectionOptions ? projectQueryAndPassages(queryEmbedding, passageEmbeddings, projectionOptions) : undefined,
+      // Raw vectors for export, passages in request order
+      embeddings: embeddings ? { query: queryEmbedding, passages: passageEmbeddings } : undefined,
+      seed: options.seed,
+      queryProvenance,
+      retries: service.getRetryCount(),
+      cache: service.getCacheStats(),
       usage: {
-        tokens: tokensUsed,
+        tokens: service.getTotalTokensUsed(),
+        queryTokens: queryTokens.tokens,
         estimatedCost: cost,
-        remaining: rateLimitResult.remaining
-      }
-    }, {
-      headers: {
-        'X-RateLimit-Limit': '60',
-        'X-RateLimit-Remaining': rateLimitResult.remaining.toString(),
-        'X-RateLimit-Reset': rateLimitResult.resetTime.toString()
+        remaining: auth.remaining
       }
-    })
+    }, { headers: auth.headers })
   } catch (error) {
     console.error('❌ Error calculating similarity:', error)
-    return NextResponse.json(
-      { error: 'Failed to calculate similarity' },
-      { status: 500 }
-    )
+    return embeddingErrorResponse(error, 'Failed to calculate similarity')
   }
 }
-
-function estimateTokens(query: string, passages: string[]): number {
-  // Rough estimation: 1 token ≈ 4 characters
-  const queryTokens = Math.ceil(query.length / 4)
-  const passageTokens = passages.reduce((total, passage) => total + Math.ceil(passage.length / 4), 0)
-  return queryTokens + passageTokens
-}
-
-function estimateCost(provider: string, model: string, tokens: number): number {
-  // Cost estimation in USD
-  if (provider === 'openai') {
-    if (model === 'text-embedding-3-small') {
-      return (tokens / 1000) * 0.00002 // $0.00002 per 1K tokens
-    } else if (model === 'text-embedding-3-large') {
-      return (tokens / 1000) * 0.00013 // $0.00013 per 1K tokens
-    }
-  } else if (provider === 'google') {
-    // Google AI is currently free, but we'll estimate for future pricing
-    return (tokens / 1000) * 0.0001 // Estimated $0.0001 per 1K tokens
-  }
-  return 0
-}
\ No newline at end of file
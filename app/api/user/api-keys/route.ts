@@ -3,6 +3,8 @@ import { getServerSession } from 'next-auth/next'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
 import { encrypt } from '@/lib/encryption'
+import { API_KEY_FIELDS, isAllowedBaseUrl, isStoredKeyProvider } from '@/lib/api-keys'
+import { getEmbeddingProviderInfo, OPENAI_COMPATIBLE_PROVIDER } from '@/lib/embedding-providers'
 
 export async function GET() {
   try {
@@ -17,6 +19,10 @@ export async function GET() {
       select: {
         googleApiKey: true,
         openaiApiKey: true,
+        cohereApiKey: true,
+        voyageApiKey: true,
+        customEmbeddingBaseUrl: true,
+        customEmbeddingModel: true,
       }
     })
 
@@ -28,6 +34,11 @@ export async function GET() {
     return NextResponse.json({
       hasGoogleKey: !!user.googleApiKey,
       hasOpenaiKey: !!user.openaiApiKey,
+      hasCohereKey: !!user.cohereApiKey,
+      hasVoyageKey: !!user.voyageApiKey,
+      customEndpoint: user.customEmbeddingBaseUrl
+        ? { baseUrl: user.customEmbeddingBaseUrl, model: user.customEmbeddingModel }
+        : null,
     })
   } catch (error) {
     console.error('Error fetching API keys:', error)
@@ -43,29 +54,41 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const { provider, apiKey } = await request.json()
+    const { provider, apiKey, baseUrl, model } = await request.json()
 
-    if (!provider || !apiKey) {
-      return NextResponse.json({ error: 'Provider and API key are required' }, { status: 400 })
+    if (!isStoredKeyProvider(provider)) {
+      return NextResponse.json({ error: 'Invalid provider' }, { status: 400 })
     }
 
-    if (!['google', 'openai'].includes(provider)) {
-      return NextResponse.json({ error: 'Invalid provider' }, { status: 400 })
+    const keyRequired = getEmbeddingProviderInfo(provider)?.requiresApiKey ?? true
+    if (keyRequired && !apiKey) {
+      return NextResponse.json({ error: 'Provider and API key are required' }, { status: 400 })
     }
 
     // Validate API key format
-    const isValidKey = validateApiKey(provider, apiKey)
-    if (!isValidKey) {
+    if (apiKey && !validateApiKey(provider, apiKey)) {
       return NextResponse.json({ error: 'Invalid API key format' }, { status: 400 })
     }
 
     // Encrypt the API key
-    const encryptedKey = encrypt(apiKey)
+    const encryptedKey = apiKey ? encrypt(apiKey) : null
 
     // Update user's API key
-    const updateData = provider === 'google' 
-      ? { googleApiKey: encryptedKey }
-      : { openaiApiKey: encryptedKey }
+    let updateData: Record<string, string | null> = { [API_KEY_FIELDS[provider]]: encryptedKey }
+
+    if (provider === OPENAI_COMPATIBLE_PROVIDER) {
+      if (!(await isAllowedBaseUrl(baseUrl)) || typeof model !== 'string' || !model.trim()) {
+        return NextResponse.json(
+          { error: 'A model name and an http(s) base URL on a public host are required' },
+          { status: 400 }
+        )
+      }
+      updateData = {
+        ...updateData,
+        customEmbeddingBaseUrl: baseUrl,
+        customEmbeddingModel: model.trim(),
+      }
+    }
 
     await prisma.user.upsert({
       where: { email: session.user.email },
@@ -94,14 +117,14 @@ export async function DELETE(request: NextRequest) {
 
     const { provider } = await request.json()
 
-    if (!provider || !['google', 'openai'].includes(provider)) {
+    if (!isStoredKeyProvider(provider)) {
       return NextResponse.json({ error: 'Invalid provider' }, { status: 400 })
     }
 
     // Remove the API key
-    const updateData = provider === 'google' 
-      ? { googleApiKey: null }
-      : { openaiApiKey: null }
+    const updateData = provider === OPENAI_COMPATIBLE_PROVIDER
+      ? { customEmbeddingApiKey: null, customEmbeddingBaseUrl: null, customEmbeddingModel: null }
+      : { [API_KEY_FIELDS[provider]]: null }
 
     await prisma.user.update({
       where: { email: session.user.email },
@@ -116,10 +139,6 @@ export async function DELETE(request: NextRequest) {
 }
 
 function validateApiKey(provider: string, apiKey: string): boolean {
-  if (provider === 'google') {
-    return /^AIza[0-9A-Za-z_-]{35}$/.test(apiKey)
-  } else if (provider === 'openai') {
-    return /^sk-[0-9A-Za-z_-]{20,200}$/.test(apiKey)
-  }
-  return false
+  const info = getEmbeddingProviderInfo(provider)
+  return !!info && info.apiKeyPattern.test(apiKey)
 }
@@ -5,9 +5,52 @@ import { Search, FileText, BarChart3, Loader2 } from 'lucide-react';
 import Papa from 'papaparse';
 import * as XLSX from 'xlsx';
 
-const MAX_PASSAGES = 25;
-import { SimilarityResult, RerankResult, RerankResponse } from '@/types';
+// Requests are split into provider-sized batches server-side, so this only bounds UI/request size
+const MAX_PASSAGES = 500;
+import { SimilarityResult, RerankResult, RerankResponse, SavedRun } from '@/types';
 import { useSession } from 'next-auth/react';
+import {
+  listEmbeddingProviders,
+  getEmbeddingProviderInfo,
+  getEmbeddingModelInfo,
+  OPENAI_COMPATIBLE_PROVIDER,
+  LEXICAL_PROVIDER,
+  EMBEDDING_TASK_TYPES,
+  EmbeddingTaskType,
+} from '@/lib/embedding-providers/catalog';
+import { LEXICAL_LANGUAGES, LexicalLanguage } from '@/lib/lexical/languages';
+import { FUSION_STRATEGIES, FusionStrategy } from '@/lib/fusion';
+import { SIMILARITY_METRICS, SimilarityMetric, getSimilarityMetricInfo, scoreToUnit } from '@/lib/vector-math';
+
+import { DimensionComparison, DimensionRun } from '@/components/dimension-comparison';
+import { SimilarityHeatmap } from '@/components/similarity-heatmap';
+import { PassageClusters } from '@/components/passage-clusters';
+import type { ClusteringMethod, ClusteringResult } from '@/lib/clustering';
+import { EmbeddingScatter } from '@/components/embedding-scatter';
+import { BatchResults } from '@/components/batch-results';
+import { ResultsExport } from '@/components/results-export';
+import { RunsSidebar } from '@/components/runs-sidebar';
+import { RunDiffView } from '@/components/run-diff';
+import type { RunDiff } from '@/lib/run-diff';
+import { ModelComparison } from '@/components/model-comparison';
+import { ComparedModel, MAX_COMPARED_MODELS, ModelComparisonResult } from '@/lib/model-comparison';
+import { EvaluationPanel } from '@/components/evaluation-panel';
+import { EvaluationQuery, MAX_RELEVANCE_GRADE, parseRelevanceGrade } from '@/lib/evaluation';
+import { BENCHMARK_FILE_EXTENSIONS, BenchmarkImportError, importBenchmark, isBenchmarkFileName } from '@/lib/benchmark-import';
+import { ExportSource, ExportVectors, embeddingExportRows, rerankExportRows } from '@/lib/export';
+import { BatchEvent, BatchGroup, BatchQueryResult, MAX_BATCH_QUERIES, MAX_BATCH_ROWS, groupBatchRows } from '@/lib/batch';
+import { PROJECTION_METHODS, ProjectionMethod, QueryProjection } from '@/lib/projection';
+
+const EMBEDDING_PROVIDERS = listEmbeddingProviders();
+const LEXICAL_MODELS = getEmbeddingProviderInfo(LEXICAL_PROVIDER)?.models ?? [];
+// Top embedding results sent to the reranker
+const RERANK_CANDIDATES = 3;
+// Reduced sizes offered in the side-by-side comparison, alongside full size
+const COMPARISON_DIMENSIONS = [256, 512, 768];
+// Models offered for side-by-side comparison; self-hosted endpoints need their own base URL
+const COMPARABLE_MODELS = EMBEDDING_PROVIDERS
+  .filter((option) => !option.lexical && option.id !== OPENAI_COMPATIBLE_PROVIDER)
+  .flatMap((option) => option.models.map((entry) => ({ provider: option.id, model: entry.id, label: `${option.label} · ${entry.label}` })));
 
 
 export default function Home() {
@@ -18,9 +61,21 @@ export default function Home() {
   const [manualPassages, setManualPassages] = useState('');
   const [inputMode, setInputMode] = useState<'manual' | 'file'>('manual');
   const [uploadError, setUploadError] = useState('');
-  const [uploadedFileMeta, setUploadedFileMeta] = useState<{ name: string; rowCount: number } | null>(null);
+  const [uploadedFileMeta, setUploadedFileMeta] = useState<{ name: string; rowCount: number; note?: string } | null>(null);
   const [parsedPassages, setParsedPassages] = useState<string[]>([]);
+  // Set when the upload has more than one query; the form then runs a batch instead
+  const [batchGroups, setBatchGroups] = useState<BatchGroup[] | null>(null);
+  const [batchSourceRows, setBatchSourceRows] = useState<Record<string, unknown>[]>([]);
+  const [batchResults, setBatchResults] = useState<BatchQueryResult[]>([]);
+  const [batchProgress, setBatchProgress] = useState<{ completed: number; total: number } | null>(null);
   const [results, setResults] = useState<SimilarityResult[]>([]);
+  // The request and response details behind the displayed results, for export
+  const [resultRequest, setResultRequest] = useState<{ query: string; passages: string[] } | null>(null);
+  const [resultSource, setResultSource] = useState<ExportSource | null>(null);
+  // Project that searches are saved to, when signed in
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [runsRefreshKey, setRunsRefreshKey] = useState(0);
+  const [runDiff, setRunDiff] = useState<RunDiff | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [apiKey, setApiKey] = useState('');
@@ -28,9 +83,48 @@ export default function Home() {
   const [apiKeyValid, setApiKeyValid] = useState<boolean | null>(null);
   const [showApiKeyValue, setShowApiKeyValue] = useState(false);
   const [usedRealAPI, setUsedRealAPI] = useState<boolean | null>(null);
-  const [provider, setProvider] = useState<'google' | 'openai'>('google');
-  const [model, setModel] = useState<'gemini-embedding-001' | 'text-embedding-3-small' | 'text-embedding-3-large'>('gemini-embedding-001');
+  const [retryCount, setRetryCount] = useState(0);
+  const [cacheStats, setCacheStats] = useState<{ hits: number; misses: number } | null>(null);
+  const [dimensions, setDimensions] = useState<number | null>(null);
+  const [mockSeed, setMockSeed] = useState('');
+  const [dimensionRuns, setDimensionRuns] = useState<DimensionRun[]>([]);
+  const [dimensionCompareLoading, setDimensionCompareLoading] = useState(false);
+  const [provider, setProvider] = useState<string>('google');
+  const [model, setModel] = useState<string>('gemini-embedding-001');
   const [currentProvider, setCurrentProvider] = useState<string>('');
+  const [taskType, setTaskType] = useState<EmbeddingTaskType>('retrieval');
+  const [lexicalLanguage, setLexicalLanguage] = useState<LexicalLanguage | 'auto'>('auto');
+  const [scoredLanguage, setScoredLanguage] = useState<string | null>(null);
+  const [rankingMode, setRankingMode] = useState<'dense' | 'hybrid' | 'mmr'>('dense');
+  const [mmrLambda, setMmrLambda] = useState(0.7);
+  const [fusionStrategy, setFusionStrategy] = useState<FusionStrategy>('rrf');
+  const [denseWeight, setDenseWeight] = useState(0.5);
+  const [hybridLexicalModel, setHybridLexicalModel] = useState('bm25');
+  const [metric, setMetric] = useState<SimilarityMetric>('cosine');
+  const [resultMetric, setResultMetric] = useState<SimilarityMetric>('cosine');
+  const [showMatrix, setShowMatrix] = useState(false);
+  const [similarityMatrix, setSimilarityMatrix] = useState<{ values: number[][]; texts: string[] } | null>(null);
+  const [showProjection, setShowProjection] = useState(false);
+  const [projectionMethod, setProjectionMethod] = useState<ProjectionMethod>('pca');
+  const [projectionDimensions, setProjectionDimensions] = useState<2 | 3>(2);
+  const [embeddingProjection, setEmbeddingProjection] = useState<{ value: QueryProjection; texts: string[] } | null>(null);
+  const [keepVectors, setKeepVectors] = useState(false);
+  const [exportVectors, setExportVectors] = useState<ExportVectors | null>(null);
+  const [clusteringMethod, setClusteringMethod] = useState<ClusteringMethod>('agglomerative');
+  const [clusterDistance, setClusterDistance] = useState(0.35);
+  const [duplicateThreshold, setDuplicateThreshold] = useState(0.95);
+  const [clusters, setClusters] = useState<{ result: ClusteringResult; passages: string[] } | null>(null);
+  const [clusterLoading, setClusterLoading] = useState(false);
+  const [comparedModels, setComparedModels] = useState<ComparedModel[]>([]);
+  const [modelComparison, setModelComparison] = useState<ModelComparisonResult | null>(null);
+  const [modelCompareLoading, setModelCompareLoading] = useState(false);
+  // Relevance grade by passage text, for evaluating the single-query rankings
+  const [relevanceLabels, setRelevanceLabels] = useState<Record<string, number>>({});
+  const [fallbackMode, setFallbackMode] = useState<'fail' | 'mock' | 'secondary'>('fail');
+  const [fallbackProvider, setFallbackProvider] = useState<string>('openai');
+  const [customBaseUrl, setCustomBaseUrl] = useState('');
+  const [customModel, setCustomModel] = useState('');
+  const [customEndpointStatus, setCustomEndpointStatus] = useState('');
   const [rerankProvider, setRerankProvider] = useState<'openai' | 'google-vertex' | 'mock'>('mock');
   const [rerankModel] = useState<string>('cross-encoder-ms-marco-MiniLM-L-6-v2');
   const [rerankApiKey, setRerankApiKey] = useState('');
@@ -54,6 +148,17 @@ export default function Home() {
       setApiKeyValid(true);
     }
     
+    const savedEndpoint = localStorage.getItem('custom_embedding_endpoint');
+    if (savedEndpoint) {
+      try {
+        const { baseUrl, model: savedModel } = JSON.parse(savedEndpoint);
+        setCustomBaseUrl(baseUrl || '');
+        setCustomModel(savedModel || '');
+      } catch {
+        localStorage.removeItem('custom_embedding_endpoint');
+      }
+    }
+    
     const savedRerankApiKey = localStorage.getItem('rerank_api_key');
     if (savedRerankApiKey) {
       setRerankApiKey(savedRerankApiKey);
@@ -61,17 +166,65 @@ export default function Home() {
     }
   }, []);
 
+  const providerInfo = getEmbeddingProviderInfo(provider);
+  const modelInfo = getEmbeddingModelInfo(provider, model);
+  // A size picked for another model falls back to full size
+  const outputDimensions = dimensions && modelInfo?.reducedDimensions?.includes(dimensions) ? dimensions : undefined;
+  const seed = /^-?\d+$/.test(mockSeed.trim()) ? Number(mockSeed.trim()) : undefined;
+  const providerLabel = (id: string) => getEmbeddingProviderInfo(id)?.label ?? id;
+  const isCustomProvider = provider === OPENAI_COMPATIBLE_PROVIDER;
+  // Lexical scoring has no API key, vectors or provider calls to fall back from
+  const isLexicalProvider = providerInfo?.lexical === true;
+  const lexicalResults = getEmbeddingProviderInfo(currentProvider)?.lexical === true;
+  const isHybrid = rankingMode === 'hybrid' && !isLexicalProvider;
+  const isMmr = rankingMode === 'mmr' && !isLexicalProvider;
+  // Hybrid fusion, MMR and lexical scoring have their own scales; metrics apply to plain vector ranking
+  const metricSelectable = rankingMode === 'dense' && !isLexicalProvider;
+  const resultMetricInfo = getSimilarityMetricInfo(resultMetric);
+  const resultScores = results.map((result) => result.similarity);
+  const fallbackOptions = EMBEDDING_PROVIDERS.filter((option) => option.id !== provider && !option.lexical);
+  const effectiveFallbackProvider = fallbackOptions.some((option) => option.id === fallbackProvider)
+    ? fallbackProvider
+    : fallbackOptions[0]?.id;
+  const fallbackProvenance = results.find((result) => result.provenance && result.provenance.source !== 'provider')?.provenance;
+
+  // Save the self-hosted endpoint locally, and to the account when signed in
+  const saveCustomEndpoint = async () => {
+    const endpoint = { baseUrl: customBaseUrl.trim(), model: customModel.trim() };
+    if (!endpoint.baseUrl || !endpoint.model) {
+      setCustomEndpointStatus('Base URL and model name are required.');
+      return;
+    }
+
+    localStorage.setItem('custom_embedding_endpoint', JSON.stringify(endpoint));
+    setModel(endpoint.model);
+
+    if (!session) {
+      setCustomEndpointStatus('Saved in this browser.');
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/user/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          provider: OPENAI_COMPATIBLE_PROVIDER,
+          apiKey: apiKey || undefined,
+          ...endpoint,
+        }),
+      });
+      const data = await response.json();
+      setCustomEndpointStatus(response.ok ? 'Saved to your account.' : data.error || 'Failed to save endpoint.');
+    } catch (err) {
+      console.error('❌ Frontend: Failed to save endpoint:', err);
+      setCustomEndpointStatus('Failed to save endpoint.');
+    }
+  };
+
   // Validate API key format based on provider
   const validateApiKey = (key: string): boolean => {
-    if (provider === 'google') {
-      // Google AI API keys typically start with "AIza" and are 39 characters long
-      return /^AIza[0-9A-Za-z_-]{35}$/.test(key);
-    } else if (provider === 'openai') {
-      // OpenAI API keys start with "sk-" and can contain alphanumeric chars, hyphens, and underscores
-      // Length can vary from ~48 to 164+ characters
-      return /^sk-[0-9A-Za-z_-]{20,200}$/.test(key);
-    }
-    return false;
+    return providerInfo?.apiKeyPattern.test(key) ?? false;
   };
 
   // Validate rerank API key format based on rerank provider
@@ -105,7 +258,7 @@ export default function Home() {
       localStorage.setItem('google_ai_api_key', apiKey);
       setError('');
     } else {
-      setError('Please enter a valid Google AI Studio API key');
+      setError(`Please enter a valid ${providerInfo?.label ?? provider} API key`);
     }
   };
 
@@ -172,6 +325,9 @@ export default function Home() {
   const resetFileUpload = () => {
     setParsedPassages([]);
     setUploadedFileMeta(null);
+    setBatchGroups(null);
+    setBatchSourceRows([]);
+    setBatchResults([]);
   };
 
   const handleInputModeChange = (mode: 'manual' | 'file') => {
@@ -190,14 +346,18 @@ export default function Home() {
     }
   };
 
-  const processUploadedRows = (rows: Record<string, unknown>[], fileName: string) => {
+  const processUploadedRows = (rows: Record<string, unknown>[], fileName: string, note?: string) => {
+    // An optional "relevance" column carries graded labels for evaluation
+    const hasRelevance = rows.some((row) => ['relevance', 'Relevance', 'RELEVANCE'].some((key) => key in row));
     const normalized = rows
-      .map((row) => {
+      .map((row, index) => {
         const queryValue = row.query ?? row.Query ?? row.QUERY;
         const passageValue = row.passages ?? row.Passages ?? row.PASSAGES;
         return {
           query: typeof queryValue === 'string' ? queryValue.trim() : queryValue != null ? String(queryValue).trim() : '',
           passage: typeof passageValue === 'string' ? passageValue.trim() : passageValue != null ? String(passageValue).trim() : '',
+          row: index,
+          relevance: hasRelevance ? parseRelevanceGrade(row.relevance ?? row.Relevance ?? row.RELEVANCE) : undefined,
         };
       })
       .filter((row) => row.query || row.passage);
@@ -208,8 +368,16 @@ export default function Home() {
       return;
     }
 
-    if (normalized.length > MAX_PASSAGES) {
-      setUploadError(`Please limit the file to ${MAX_PASSAGES} data rows (26 including the header).`);
+    const badGrade = normalized.find((row) => row.relevance === null);
+    if (badGrade) {
+      setUploadError(`Row ${badGrade.row + 2} has an invalid relevance grade; grades must be whole numbers 0-${MAX_RELEVANCE_GRADE}.`);
+      resetFileUpload();
+      return;
+    }
+    const labelledRows = normalized.map((row) => ({ ...row, relevance: row.relevance ?? undefined }));
+
+    if (normalized.length > MAX_BATCH_ROWS) {
+      setUploadError(`Please limit the file to ${MAX_BATCH_ROWS} data rows.`);
       resetFileUpload();
       return;
     }
@@ -221,8 +389,39 @@ export default function Home() {
       return;
     }
 
+    // Several queries: each is scored against its own rows in one batch run
     if (uniqueQueries.length > 1) {
-      setUploadError('All rows must share the same query so they can be compared together.');
+      const groups = groupBatchRows(labelledRows);
+      const oversized = groups.find((group) => group.passages.length > MAX_PASSAGES);
+      if (groups.length > MAX_BATCH_QUERIES) {
+        setUploadError(`Please limit the file to ${MAX_BATCH_QUERIES} distinct queries.`);
+        resetFileUpload();
+        return;
+      }
+      if (oversized) {
+        setUploadError(`Each query can have up to ${MAX_PASSAGES} passages; "${oversized.query}" has ${oversized.passages.length}.`);
+        resetFileUpload();
+        return;
+      }
+      if (!groups.length) {
+        setUploadError('The "passages" column must include at least one passage.');
+        resetFileUpload();
+        return;
+      }
+
+      setQuery('');
+      setPassages('');
+      setParsedPassages(groups.flatMap((group) => group.passages));
+      setBatchGroups(groups);
+      setBatchSourceRows(rows);
+      setBatchResults([]);
+      setUploadedFileMeta({ name: fileName, rowCount: normalized.length, note });
+      setUploadError('');
+      return;
+    }
+
+    if (normalized.length > MAX_PASSAGES) {
+      setUploadError(`A single-query file can have up to ${MAX_PASSAGES} data rows (${MAX_PASSAGES + 1} including the header).`);
       resetFileUpload();
       return;
     }
@@ -234,20 +433,49 @@ export default function Home() {
       return;
     }
 
+    if (hasRelevance) {
+      setRelevanceLabels(Object.fromEntries(labelledRows.filter((row) => row.passage).map((row) => [row.passage, row.relevance ?? 0])));
+    }
     setQuery(uniqueQueries[0]);
     setPassages(passageValues.join('\n'));
     setParsedPassages(passageValues);
-    setUploadedFileMeta({ name: fileName, rowCount: normalized.length });
+    setBatchGroups(null);
+    setUploadedFileMeta({ name: fileName, rowCount: normalized.length, note });
     setUploadError('');
   };
 
-  const handleFileUpload = async (file: File | null) => {
-    if (!file) return;
+  // BEIR, TREC and MS MARCO files are picked together and imported as one upload
+  const handleBenchmarkUpload = async (files: File[]) => {
+    try {
+      const imported = importBenchmark(
+        await Promise.all(files.map(async (file) => ({ name: file.name, text: await file.text() })))
+      );
+      const kinds = imported.files.map((file) => `${file.name} (${file.kind})`).join(', ');
+      const skipped = imported.skippedQueries
+        ? ` • ${imported.skippedQueries} more ${imported.skippedQueries === 1 ? 'query' : 'queries'} left out`
+        : '';
+      processUploadedRows(imported.rows, 'benchmark-import.csv', `${kinds}${skipped}`);
+      setInputMode('file');
+    } catch (err) {
+      console.error('❌ Benchmark import error:', err);
+      setUploadError(err instanceof BenchmarkImportError ? err.message : 'Unable to read the benchmark files.');
+      resetFileUpload();
+    }
+  };
+
+  const handleFileUpload = async (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (!files.length) return;
     setUploadError('');
 
+    const [file] = files;
     const extension = file.name.split('.').pop()?.toLowerCase();
-    if (!extension || (extension !== 'csv' && extension !== 'xlsx')) {
-      setUploadError('Only .csv or .xlsx files are supported.');
+    if (files.length > 1 || (extension !== 'csv' && extension !== 'xlsx')) {
+      if (files.every((item) => isBenchmarkFileName(item.name))) {
+        await handleBenchmarkUpload(files);
+        return;
+      }
+      setUploadError(`Upload one .csv or .xlsx file, or benchmark files (${BENCHMARK_FILE_EXTENSIONS.join(', ')}).`);
       resetFileUpload();
       return;
     }
@@ -290,8 +518,8 @@ export default function Home() {
     setPassages(manualPassages);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Validates the form and builds the similarity request body; problems are reported through setError
+  const buildSimilarityRequest = () => {
     const trimmedQuery = query.trim();
     const passagesArray = passages
       .split('\n')
@@ -300,75 +528,217 @@ export default function Home() {
 
     if (inputMode === 'file' && !parsedPassages.length) {
       setError('Upload a CSV or XLSX file with "query" and "passages" columns first.');
-      return;
+      return null;
     }
 
     if (!trimmedQuery) {
       setError('Please enter a query to compare against.');
-      return;
+      return null;
     }
 
     if (!passagesArray.length) {
       setError('Add at least one passage to compare.');
-      return;
+      return null;
+    }
+
+    if (isCustomProvider && (!customBaseUrl.trim() || !model)) {
+      setError('Enter the base URL and model name of your self-hosted endpoint.');
+      return null;
     }
 
     if (passagesArray.length > MAX_PASSAGES) {
       setError(`You can submit up to ${MAX_PASSAGES} passages at a time to stay within API limits.`);
+      return null;
+    }
+
+    return {
+      query: trimmedQuery,
+      passages: passagesArray,
+      topK: 5,
+      apiKey: apiKey || undefined,
+      baseUrl: isCustomProvider ? customBaseUrl.trim() : undefined,
+      provider: provider,
+      model: model,
+      taskType: providerInfo?.supportsTaskTypes ? taskType : 'retrieval',
+      language: isLexicalProvider ? lexicalLanguage : undefined,
+      hybrid: isHybrid
+        ? { strategy: fusionStrategy, denseWeight, lexicalModel: hybridLexicalModel, language: lexicalLanguage }
+        : undefined,
+      mmr: isMmr ? { lambda: mmrLambda } : undefined,
+      metric: metricSelectable ? metric : undefined,
+      matrix: showMatrix && !isLexicalProvider,
+      projection: showProjection && !isLexicalProvider
+        ? { method: projectionMethod, dimensions: projectionDimensions }
+        : undefined,
+      // Raw vectors come back with the run itself, so the JSON export needs no second request
+      embeddings: keepVectors && !isLexicalProvider,
+      dimensions: outputDimensions,
+      seed,
+      fallback: fallbackMode,
+      fallbackProvider: fallbackMode === 'secondary' ? effectiveFallbackProvider : undefined
+    };
+  };
+
+  type SimilarityRequest = NonNullable<ReturnType<typeof buildSimilarityRequest>>;
+
+  const postSimilarity = async (requestBody: object) => {
+    // Use authenticated endpoint if user is signed in, otherwise use legacy endpoint
+    const endpoint = session ? '/api/similarity' : '/api/similarity-legacy';
+    console.log('📡 Frontend: Using endpoint:', endpoint);
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    console.log('📥 Frontend: Response status:', response.status);
+
+    const data = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      const retried = data.retries ? ` (after ${data.retries} ${data.retries === 1 ? 'retry' : 'retries'})` : '';
+      throw new Error((data.error || 'Failed to calculate similarity') + retried);
+    }
+
+    return data;
+  };
+
+  // Streams one event per scored query from the batch endpoint and fills the table as they arrive
+  const handleBatchSubmit = async (groups: BatchGroup[]) => {
+    if (isLexicalProvider) {
+      setError('Batch mode scores with embeddings; pick an embedding provider.');
+      return;
+    }
+
+    if (isCustomProvider && (!customBaseUrl.trim() || !model)) {
+      setError('Enter the base URL and model name of your self-hosted endpoint.');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    setBatchResults([]);
+    setBatchProgress({ completed: 0, total: groups.length });
+
+    try {
+      const endpoint = session ? '/api/similarity-batch' : '/api/similarity-batch-legacy';
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          queries: groups.map(({ query: batchQuery, passages: batchPassages }) => ({ query: batchQuery, passages: batchPassages })),
+          apiKey: apiKey || undefined,
+          baseUrl: isCustomProvider ? customBaseUrl.trim() : undefined,
+          provider,
+          model,
+          taskType: providerInfo?.supportsTaskTypes ? taskType : 'retrieval',
+          metric: metricSelectable ? metric : undefined,
+          dimensions: outputDimensions,
+          seed,
+          fallback: fallbackMode,
+          fallbackProvider: fallbackMode === 'secondary' ? effectiveFallbackProvider : undefined
+        }),
+      });
+
+      if (!response.ok || !response.body) {
+        const failure = await response.json().catch(() => ({}));
+        throw new Error(failure.error || 'Failed to calculate similarity');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        buffered += decoder.decode(value, { stream: !done });
+        const lines = buffered.split('\n');
+        buffered = done ? '' : lines.pop() ?? '';
+        for (const line of lines.filter((item) => item.trim())) {
+          const event: BatchEvent = JSON.parse(line);
+          if (event.type === 'result') {
+            const { queryIndex, query: scoredQuery, results: ranked } = event;
+            setBatchResults((previous) => [...previous, { queryIndex, query: scoredQuery, results: ranked }]);
+            setBatchProgress({ completed: event.completed, total: event.total });
+          } else if (event.type === 'done') {
+            setUsedRealAPI(event.usedRealAPI);
+            setRetryCount(event.retries);
+            setCurrentProvider(event.provider);
+          } else {
+            const retried = event.retries ? ` (after ${event.retries} ${event.retries === 1 ? 'retry' : 'retries'})` : '';
+            const failedQuery = event.queryIndex !== undefined ? ` at query ${event.queryIndex + 1}` : '';
+            throw new Error(event.error + failedQuery + retried);
+          }
+        }
+        if (done) break;
+      }
+    } catch (err) {
+      console.error('❌ Frontend: Batch error:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setBatchProgress(null);
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (inputMode === 'file' && batchGroups) {
+      await handleBatchSubmit(batchGroups);
       return;
     }
 
+    const requestBody = buildSimilarityRequest();
+    if (!requestBody) {
+      return;
+    }
+
+    await runSimilarity(requestBody);
+  };
+
+  // Posts a similarity request, shows its results and saves the run to the selected project
+  const runSimilarity = async (requestBody: SimilarityRequest) => {
     console.log('🚀 Frontend: Starting similarity calculation');
     console.log('🔑 Frontend: API Key exists:', !!apiKey);
     console.log('🔑 Frontend: API Key length:', apiKey?.length || 0);
     console.log('🔑 Frontend: API Key preview:', apiKey ? apiKey.substring(0, 10) + '...' : 'None');
     console.log('🔑 Frontend: API Key valid:', apiKeyValid);
-    console.log('📝 Frontend: Query:', query.trim());
+    console.log('📝 Frontend: Query:', requestBody.query);
 
     setLoading(true);
     setError('');
 
     try {
-      console.log('📄 Frontend: Passages count:', passagesArray.length);
-
-      const requestBody = {
-        query: trimmedQuery,
-        passages: passagesArray,
-        topK: 5,
-        apiKey: apiKey || undefined,
-        provider: provider,
-        model: model
-      };
-
+      console.log('📄 Frontend: Passages count:', requestBody.passages.length);
       console.log('📤 Frontend: Sending request');
       console.log('📤 Frontend: API Key in request:', !!requestBody.apiKey);
 
-            // Use authenticated endpoint if user is signed in, otherwise use legacy endpoint
-            const endpoint = session ? '/api/similarity' : '/api/similarity-legacy';
-            console.log('📡 Frontend: Using endpoint:', endpoint);
-            
-            const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
-      });
-
-      console.log('📥 Frontend: Response status:', response.status);
+      const data = await postSimilarity(requestBody);
 
-      if (!response.ok) {
-        throw new Error('Failed to calculate similarity');
-      }
-
-      const data = await response.json();
       console.log('📊 Frontend: Results received:', data.results.length);
       console.log('🔍 Frontend: Real API used:', data.usedRealAPI);
       console.log('🔧 Frontend: Provider used:', data.provider);
       console.log('🔧 Frontend: Model used:', data.model);
       setResults(data.results);
       setUsedRealAPI(data.usedRealAPI);
+      setRetryCount(data.retries ?? 0);
+      setCacheStats(data.cache ?? null);
+      setScoredLanguage(data.language ?? null);
+      setResultMetric(data.metric ?? 'cosine');
+      setSimilarityMatrix(data.matrix ? { values: data.matrix, texts: [requestBody.query, ...requestBody.passages] } : null);
+      setEmbeddingProjection(data.projection ? { value: data.projection, texts: [requestBody.query, ...requestBody.passages] } : null);
+      setExportVectors(data.embeddings
+        ? {
+            dimensions: data.dimensions ?? data.embeddings.query.length,
+            query: data.embeddings.query,
+            passages: requestBody.passages.map((text, index) => ({ index, text, vector: data.embeddings.passages[index] })),
+          }
+        : null);
       setCurrentProvider(data.provider || provider);
+      setResultRequest({ query: requestBody.query, passages: requestBody.passages });
+      setResultSource({ provider: data.provider || provider, model: data.model || model, usedRealAPI: data.usedRealAPI });
       
       // Reset rerank results when new embedding results come in
       setRerankResults([]);
@@ -376,6 +746,10 @@ export default function Home() {
       setRerankProviderUsed('');
       setRerankRealAPIUsed(null);
       setActiveTab('embedding');
+
+      if (session && projectId) {
+        await saveRun(projectId, requestBody, data);
+      }
     } catch (err) {
       console.error('❌ Frontend: Error:', err);
       setError(err instanceof Error ? err.message : 'An error occurred');
@@ -384,6 +758,232 @@ export default function Home() {
     }
   };
 
+  // A failed save is logged but leaves the results on screen
+  const saveRun = async (targetProjectId: string, requestBody: SimilarityRequest, data: { results: SimilarityResult[]; provider?: string; model?: string; usedRealAPI: boolean }) => {
+    const { query: runQuery, passages: runPassages, ...settings } = requestBody;
+    try {
+      const response = await fetch(`/api/projects/${targetProjectId}/runs`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          query: runQuery,
+          passages: runPassages,
+          provider: data.provider || requestBody.provider,
+          model: data.model || requestBody.model,
+          // undefined drops the key from the JSON
+          parameters: { ...settings, apiKey: undefined },
+          results: data.results,
+          usedRealAPI: data.usedRealAPI,
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`status ${response.status}`);
+      }
+      setRunsRefreshKey((key) => key + 1);
+    } catch (err) {
+      console.error('❌ Frontend: Failed to save run:', err);
+    }
+  };
+
+  // Puts a saved run's query, passages and settings back into the form
+  const restoreRunSettings = (run: SavedRun) => {
+    const parameters = run.parameters as Partial<SimilarityRequest>;
+    const runPassages = run.passageSet.passages.join('\n');
+    setInputMode('manual');
+    setQuery(run.query.text);
+    setManualQuery(run.query.text);
+    setPassages(runPassages);
+    setManualPassages(runPassages);
+
+    setProvider(parameters.provider ?? run.provider);
+    setModel(parameters.model ?? run.model);
+    if (parameters.baseUrl) {
+      setCustomBaseUrl(parameters.baseUrl);
+      setCustomModel(parameters.model ?? run.model);
+    }
+    if (parameters.taskType) {
+      setTaskType(parameters.taskType as EmbeddingTaskType);
+    }
+    if (parameters.language) {
+      setLexicalLanguage(parameters.language);
+    }
+    setRankingMode(parameters.hybrid ? 'hybrid' : parameters.mmr ? 'mmr' : 'dense');
+    if (parameters.hybrid) {
+      setFusionStrategy(parameters.hybrid.strategy);
+      setDenseWeight(parameters.hybrid.denseWeight);
+      setHybridLexicalModel(parameters.hybrid.lexicalModel);
+      setLexicalLanguage(parameters.hybrid.language);
+    }
+    if (parameters.mmr) {
+      setMmrLambda(parameters.mmr.lambda);
+    }
+    setMetric(parameters.metric ?? 'cosine');
+    setShowMatrix(parameters.matrix ?? false);
+    setKeepVectors(parameters.embeddings ?? false);
+    setShowProjection(Boolean(parameters.projection));
+    if (parameters.projection) {
+      setProjectionMethod(parameters.projection.method);
+      setProjectionDimensions(parameters.projection.dimensions);
+    }
+    setDimensions(parameters.dimensions ?? null);
+    setMockSeed(parameters.seed !== undefined ? String(parameters.seed) : '');
+    setFallbackMode(parameters.fallback ?? 'fail');
+    if (parameters.fallbackProvider) {
+      setFallbackProvider(parameters.fallbackProvider);
+    }
+  };
+
+  // Shows a saved run's results as they were, without calling the provider
+  const handleOpenRun = (run: SavedRun) => {
+    restoreRunSettings(run);
+    setError('');
+    setResults(run.results);
+    setUsedRealAPI(run.usedRealAPI);
+    setRetryCount(0);
+    setCacheStats(null);
+    setScoredLanguage(null);
+    setResultMetric((run.parameters.metric as SimilarityMetric | undefined) ?? 'cosine');
+    // The matrix, projection and vectors are not saved; re-run the search to see them
+    setSimilarityMatrix(null);
+    setEmbeddingProjection(null);
+    setExportVectors(null);
+    setCurrentProvider(run.provider);
+    setResultRequest({ query: run.query.text, passages: run.passageSet.passages });
+    setResultSource({ provider: run.provider, model: run.model, usedRealAPI: run.usedRealAPI });
+    setRerankResults([]);
+    setRerankError('');
+    setRerankProviderUsed('');
+    setRerankRealAPIUsed(null);
+    setActiveTab('embedding');
+  };
+
+  // Repeats a saved run with its stored settings and the current API key, saving it as a new run
+  const handleRerun = async (run: SavedRun) => {
+    restoreRunSettings(run);
+    await runSimilarity({
+      ...(run.parameters as Partial<SimilarityRequest>),
+      query: run.query.text,
+      passages: run.passageSet.passages,
+      apiKey: apiKey || undefined,
+    } as SimilarityRequest);
+  };
+
+  // Ranks every passage at each reduced size and at full size, one request after another
+  const handleCompareDimensions = async () => {
+    const requestBody = buildSimilarityRequest();
+    if (!requestBody || !modelInfo?.reducedDimensions) {
+      return;
+    }
+
+    const sizes = [
+      ...COMPARISON_DIMENSIONS.filter(size => modelInfo.reducedDimensions!.includes(size)),
+      modelInfo.dimensions,
+    ];
+
+    setDimensionCompareLoading(true);
+    setError('');
+
+    try {
+      const runs: DimensionRun[] = [];
+      for (const size of sizes) {
+        const data = await postSimilarity({ ...requestBody, topK: requestBody.passages.length, dimensions: size, matrix: false, projection: undefined, embeddings: false });
+        runs.push({ dimensions: size, results: data.results, usedRealAPI: data.usedRealAPI, metric: data.metric });
+      }
+      setDimensionRuns(runs);
+    } catch (err) {
+      console.error('❌ Frontend: Dimension comparison error:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setDimensionCompareLoading(false);
+    }
+  };
+
+  // Clusters every passage; the embeddings usually come straight from the cache of the last search
+  const handleCluster = async () => {
+    const requestBody = buildSimilarityRequest();
+    if (!requestBody) {
+      return;
+    }
+
+    setClusterLoading(true);
+    setError('');
+
+    try {
+      const endpoint = session ? '/api/clusters' : '/api/clusters-legacy';
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...requestBody,
+          clustering: {
+            method: clusteringMethod,
+            distanceThreshold: clusterDistance,
+            duplicateThreshold,
+            seed: seed ?? 0,
+          },
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cluster passages');
+      }
+      setClusters({ result: data, passages: requestBody.passages });
+    } catch (err) {
+      console.error('❌ Frontend: Clustering error:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setClusterLoading(false);
+    }
+  };
+
+  const toggleComparedModel = (candidate: ComparedModel) => {
+    setComparedModels((current) =>
+      current.some((entry) => entry.provider === candidate.provider && entry.model === candidate.model)
+        ? current.filter((entry) => entry.provider !== candidate.provider || entry.model !== candidate.model)
+        : [...current, candidate].slice(-MAX_COMPARED_MODELS)
+    );
+  };
+
+  // Ranks every passage under each ticked model in one request and measures how far they agree
+  const handleCompareModels = async () => {
+    const requestBody = buildSimilarityRequest();
+    if (!requestBody) {
+      return;
+    }
+
+    setModelCompareLoading(true);
+    setError('');
+
+    try {
+      const endpoint = session ? '/api/compare-models' : '/api/compare-models-legacy';
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          query: requestBody.query,
+          passages: requestBody.passages,
+          models: comparedModels,
+          // The saved key belongs to the selected provider; other models use the server key
+          apiKeys: apiKey ? { [provider]: apiKey } : undefined,
+          taskType: requestBody.taskType,
+          metric: requestBody.metric,
+          seed,
+          fallback: fallbackMode,
+          fallbackProvider: requestBody.fallbackProvider,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to compare models');
+      }
+      setModelComparison(data);
+    } catch (err) {
+      console.error('❌ Frontend: Model comparison error:', err);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setModelCompareLoading(false);
+    }
+  };
 
   // Reranking function - sends top candidate from embedding step to rerank step
   const handleRerank = async () => {
@@ -392,13 +992,18 @@ export default function Home() {
       return;
     }
 
+    if (lexicalResults) {
+      setRerankError('Reranking blends in embedding scores; run the search with an embedding provider first');
+      return;
+    }
+
     setRerankLoading(true);
     setRerankError('');
 
     try {
       // Get the top candidate from embedding results
       const topCandidate = results[0]; // Highest similarity score
-      const topPassages = results.slice(0, 3); // Top 3 for reranking context
+      const topPassages = results.slice(0, RERANK_CANDIDATES);
       
       console.log('🔄 Frontend: Starting reranking process');
       console.log('🔄 Frontend: Top candidate:', topCandidate.text.substring(0, 50) + '...');
@@ -410,9 +1015,14 @@ export default function Home() {
         provider: provider,
         model: model,
         apiKey: apiKey || undefined,
+        baseUrl: isCustomProvider ? customBaseUrl.trim() : undefined,
         rerankProvider: rerankProvider,
         rerankModel: rerankModel,
-        rerankApiKey: rerankApiKey || undefined
+        rerankApiKey: rerankApiKey || undefined,
+        dimensions: outputDimensions,
+        seed,
+        fallback: fallbackMode,
+        fallbackProvider: fallbackMode === 'secondary' ? effectiveFallbackProvider : undefined
       };
 
       // Use authenticated endpoint if user is signed in, otherwise use legacy endpoint
@@ -430,7 +1040,8 @@ export default function Home() {
       console.log('📥 Frontend: Rerank response status:', response.status);
 
       if (!response.ok) {
-        throw new Error('Failed to rerank passages');
+        const failure = await response.json().catch(() => ({}));
+        throw new Error(failure.error || 'Failed to rerank passages');
       }
 
       const data: RerankResponse = await response.json();
@@ -451,18 +1062,66 @@ export default function Home() {
     }
   };
 
+  // Cluster colours only apply when the clusters were computed for the plotted passages
+  const projectionClusters = embeddingProjection && clusters
+    && clusters.passages.join('\n') === embeddingProjection.texts.slice(1).join('\n')
+    ? new Map(clusters.result.clusters.flatMap((cluster) => cluster.members.map((index) => [index, cluster.id] as [number, number])))
+    : null;
+
+  const showingRerank = activeTab === 'rerank' && rerankResults.length > 0;
+  const exportRows = !resultRequest || !resultSource
+    ? []
+    : showingRerank
+      ? rerankExportRows(resultRequest.query, rerankResults, results.slice(0, RERANK_CANDIDATES), {
+          provider: rerankProviderUsed || rerankProvider,
+          model: rerankModel,
+          usedRealAPI: rerankRealAPIUsed ?? false,
+        })
+      : embeddingExportRows(resultRequest.query, results, resultSource);
+
   const passageCount = passages
     .split('\n')
     .map((p) => p.trim())
     .filter((p) => p.length > 0).length;
 
-  const submitDisabled =
-    loading ||
-    !query.trim() ||
-    !passages.trim() ||
-    !passageCount ||
-    passageCount > MAX_PASSAGES ||
-    (inputMode === 'file' && !parsedPassages.length);
+  const isBatch = inputMode === 'file' && batchGroups !== null;
+
+  // Labelled queries for the evaluation panel: the upload's groups when they carry a relevance
+  // column, otherwise the single query with the grades picked in the panel
+  const labelPassages = isBatch ? [] : passages.split('\n').map((p) => p.trim()).filter((p) => p.length > 0).slice(0, MAX_PASSAGES);
+  const evaluationQueries: EvaluationQuery[] | null = isBatch
+    ? batchGroups!.every((group) => group.relevance)
+      ? batchGroups!.map((group) => ({ query: group.query, passages: group.passages, relevance: group.relevance! }))
+      : null
+    : query.trim() && labelPassages.length
+      ? [{ query: query.trim(), passages: labelPassages, relevance: labelPassages.map((passage) => relevanceLabels[passage] ?? 0) }]
+      : null;
+
+  const evaluationSettings = {
+    apiKey: apiKey || undefined,
+    baseUrl: isCustomProvider ? customBaseUrl.trim() : undefined,
+    provider,
+    model,
+    taskType: providerInfo?.supportsTaskTypes ? taskType : 'retrieval',
+    metric,
+    hybrid: { strategy: fusionStrategy, denseWeight, lexicalModel: hybridLexicalModel, language: lexicalLanguage },
+    dimensions: outputDimensions,
+    seed,
+    fallback: fallbackMode,
+    fallbackProvider: fallbackMode === 'secondary' ? effectiveFallbackProvider : undefined,
+    rerankProvider,
+    rerankModel,
+    rerankApiKey: rerankApiKey || undefined,
+  };
+
+  const submitDisabled = isBatch
+    ? loading || isLexicalProvider
+    : loading ||
+      !query.trim() ||
+      !passages.trim() ||
+      !passageCount ||
+      passageCount > MAX_PASSAGES ||
+      (inputMode === 'file' && !parsedPassages.length);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-cream-50 via-cream-100 to-cream-200 dark:from-forest-950 dark:via-forest-900 dark:to-forest-800">
@@ -478,6 +1137,18 @@ export default function Home() {
         </div>
       </header>
 
+      {session && (
+        <RunsSidebar
+          projectId={projectId}
+          onProjectChange={setProjectId}
+          refreshKey={runsRefreshKey}
+          busy={loading}
+          onOpen={handleOpenRun}
+          onRerun={handleRerun}
+          onDiff={setRunDiff}
+        />
+      )}
+
       {/* Provider Selection */}
       <section className="max-w-4xl mx-auto px-6 py-4">
         <div className="gradient-card rounded-2xl p-6 shadow-xl">
@@ -494,210 +1165,627 @@ export default function Home() {
           </h2>
           
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            {/* Google AI Option */}
-            <div 
-              className={`p-4 rounded-xl border-2 cursor-pointer transition-all ${
-                provider === 'google' 
-                  ? 'border-forest-600 bg-forest-50 dark:bg-forest-900/20' 
-                  : 'border-cream-300 dark:border-forest-700 hover:border-cream-400 dark:hover:border-forest-600'
-              }`}
-              onClick={() => {
-                setProvider('google');
-                setModel('gemini-embedding-001');
-                setApiKey('');
-                setApiKeyValid(null);
-              }}
-            >
-              <div className="flex items-center gap-3">
-                <div className="w-8 h-8 bg-gradient-to-br from-forest-600 to-forest-700 rounded-lg flex items-center justify-center">
-                  <span className="text-cream-50 font-bold text-sm">G</span>
+            {EMBEDDING_PROVIDERS.map((option) => (
+              <div 
+                key={option.id}
+                className={`p-4 rounded-xl border-2 cursor-pointer transition-all ${
+                  provider === option.id 
+                    ? 'border-forest-600 bg-forest-50 dark:bg-forest-900/20' 
+                    : 'border-cream-300 dark:border-forest-700 hover:border-cream-400 dark:hover:border-forest-600'
+                }`}
+                onClick={() => {
+                  setProvider(option.id);
+                  setModel(option.id === OPENAI_COMPATIBLE_PROVIDER ? customModel : option.defaultModel);
+                  setApiKey('');
+                  setApiKeyValid(null);
+                }}
+              >
+                <div className="flex items-center gap-3">
+                  <div className="w-8 h-8 bg-gradient-to-br from-forest-600 to-forest-700 rounded-lg flex items-center justify-center">
+                    <span className="text-cream-50 font-bold text-sm">{option.badge}</span>
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-forest-900 dark:text-cream-100">{option.label}</h3>
+                    <p className="text-sm text-forest-600 dark:text-cream-400">{option.description}</p>
+                  </div>
+                </div>
+                <p className="text-xs text-forest-500 dark:text-cream-500 mt-2">
+                  {option.note}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          {/* Self-hosted endpoint */}
+          {isCustomProvider && (
+            <div className="mt-4 space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-forest-700 dark:text-cream-300 mb-2">
+                    Base URL
+                  </label>
+                  <input
+                    type="url"
+                    value={customBaseUrl}
+                    onChange={(e) => setCustomBaseUrl(e.target.value)}
+                    placeholder="http://localhost:11434/v1"
+                    className="w-full px-3 py-2 border border-cream-300 dark:border-forest-600 rounded-lg bg-cream-50 dark:bg-forest-700 text-forest-900 dark:text-cream-100 text-sm focus:ring-2 focus:ring-forest-600 focus:border-transparent"
+                  />
                 </div>
                 <div>
-                  <h3 className="font-semibold text-forest-900 dark:text-cream-100">Google AI</h3>
-                  <p className="text-sm text-forest-600 dark:text-cream-400">Gemini Embedding</p>
+                  <label className="block text-sm font-medium text-forest-700 dark:text-cream-300 mb-2">
+                    Model Name
+                  </label>
+                  <input
+                    type="text"
+                    value={customModel}
+                    onChange={(e) => {
+                      setCustomModel(e.target.value);
+                      setModel(e.target.value.trim());
+                    }}
+                    placeholder="nomic-embed-text"
+                    className="w-full px-3 py-2 border border-cream-300 dark:border-forest-600 rounded-lg bg-cream-50 dark:bg-forest-700 text-forest-900 dark:text-cream-100 text-sm focus:ring-2 focus:ring-forest-600 focus:border-transparent"
+                  />
                 </div>
               </div>
+              <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={saveCustomEndpoint}
+                  className="px-4 py-2 bg-amber-700 text-cream-50 rounded-lg hover:bg-amber-800 transition-colors text-sm font-medium"
+                >
+                  Save Endpoint
+                </button>
+                <span className="text-xs text-forest-500 dark:text-cream-400">
+                  {customEndpointStatus || 'Dimensions are detected from the first response.'}
+                </span>
+              </div>
+            </div>
+          )}
+
+          {/* Task Type Selection */}
+          {providerInfo?.supportsTaskTypes && (
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-forest-700 dark:text-cream-300 mb-2">
+                Comparison Mode
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {EMBEDDING_TASK_TYPES.map((option) => (
+                  <button
+                    key={option.id}
+                    onClick={() => setTaskType(option.id)}
+                    title={option.description}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      taskType === option.id
+                        ? 'bg-forest-100 dark:bg-forest-800 text-forest-700 dark:text-forest-300'
+                        : 'bg-cream-200 dark:bg-forest-700 text-forest-700 dark:text-cream-300 hover:bg-cream-300 dark:hover:bg-forest-600'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
               <p className="text-xs text-forest-500 dark:text-cream-500 mt-2">
-                Free tier available, good for development
+                {taskType === 'retrieval'
+                  ? 'The query is embedded as a search query and passages as documents.'
+                  : 'Query and passages are embedded the same way for a symmetric comparison.'}
               </p>
             </div>
+          )}
 
-            {/* OpenAI Option */}
-            <div 
-              className={`p-4 rounded-xl border-2 cursor-pointer transition-all ${
-                provider === 'openai' 
-                  ? 'border-forest-700 bg-forest-100 dark:bg-forest-800/20' 
-                  : 'border-cream-300 dark:border-forest-700 hover:border-cream-400 dark:hover:border-forest-600'
-              }`}
-              onClick={() => {
-                setProvider('openai');
-                setModel('text-embedding-3-small');
-                setApiKey('');
-                setApiKeyValid(null);
-              }}
-            >
-              <div className="flex items-center gap-3">
-                <div className="w-8 h-8 bg-gradient-to-br from-forest-700 to-forest-800 rounded-lg flex items-center justify-center">
-                  <span className="text-cream-50 font-bold text-sm">O</span>
-                </div>
-                <div>
-                  <h3 className="font-semibold text-forest-900 dark:text-cream-100">OpenAI</h3>
-                  <p className="text-sm text-forest-600 dark:text-cream-400">Text Embedding 3</p>
-                </div>
-              </div>
+          {/* Lexical Language */}
+          {(isLexicalProvider || isHybrid) && (
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-forest-700 dark:text-cream-300 mb-2">
+                Language
+              </label>
+              <select
+                value={lexicalLanguage}
+                onChange={(e) => setLexicalLanguage(e.target.value as LexicalLanguage | 'auto')}
+                className="px-3 py-2 rounded-lg text-sm bg-cream-50 dark:bg-forest-700 border border-cream-300 dark:border-forest-600 text-forest-900 dark:text-cream-100"
+              >
+                <option value="auto">Detect automatically</option>
+                {LEXICAL_LANGUAGES.map((option) => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
               <p className="text-xs text-forest-500 dark:text-cream-500 mt-2">
-                High quality, pay-per-use pricing
+                Picks the stopword list and stemmer. Chinese, Japanese and Korean text is matched by character pairs in any language.
               </p>
             </div>
-          </div>
+          )}
 
-          {/* Model Selection for OpenAI */}
-          {provider === 'openai' && (
+          {/* Model Selection */}
+          {providerInfo && providerInfo.models.length > 1 && (
             <div className="mt-4">
               <label className="block text-sm font-medium text-forest-700 dark:text-cream-300 mb-2">
-                Model Size
+                {isLexicalProvider ? 'Scoring' : 'Model Size'}
               </label>
               <div className="flex gap-2">
-                <button
-                  onClick={() => setModel('text-embedding-3-small')}
-                  className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
-                    model === 'text-embedding-3-small'
-                      ? 'bg-forest-100 dark:bg-forest-800 text-forest-700 dark:text-forest-300'
-                      : 'bg-cream-200 dark:bg-forest-700 text-forest-700 dark:text-cream-300 hover:bg-cream-300 dark:hover:bg-forest-600'
-                  }`}
-                >
-                  Small (1536 dim)
-                </button>
-                <button
-                  onClick={() => setModel('text-embedding-3-large')}
-                  className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
-                    model === 'text-embedding-3-large'
-                      ? 'bg-forest-100 dark:bg-forest-800 text-forest-700 dark:text-forest-300'
-                      : 'bg-cream-200 dark:bg-forest-700 text-forest-700 dark:text-cream-300 hover:bg-cream-300 dark:hover:bg-forest-600'
-                  }`}
-                >
-                  Large (3072 dim)
-                </button>
+                {providerInfo.models.map((option) => (
+                  <button
+                    key={option.id}
+                    onClick={() => setModel(option.id)}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      model === option.id
+                        ? 'bg-forest-100 dark:bg-forest-800 text-forest-700 dark:text-forest-300'
+                        : 'bg-cream-200 dark:bg-forest-700 text-forest-700 dark:text-cream-300 hover:bg-cream-300 dark:hover:bg-forest-600'
+                    }`}
+                  >
+                    {option.label}{option.dimensions > 0 && ` (${option.dimensions} dim)`}
+                  </button>
+                ))}
               </div>
             </div>
           )}
-        </div>
-      </section>
 
-      {/* API Key Section */}
-      <section className="max-w-4xl mx-auto px-6 py-4">
-        <div className="gradient-card rounded-2xl p-6 shadow-xl">
-          <div className="flex items-center justify-between mb-4">
-            <h2 className="text-lg font-semibold text-forest-900 dark:text-cream-100 flex items-center gap-2">
-              <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-key">
-                <circle cx="7.5" cy="15.5" r="5.5"></circle>
-                <path d="m21 2-9.6 9.6"></path>
-                <path d="m15.5 7.5 3 3L22 7l-3-3"></path>
-              </svg>
-              API Configuration
-            </h2>
-            <button
-              onClick={() => setShowApiKey(!showApiKey)}
-              className="text-sm px-3 py-1 bg-forest-100 dark:bg-forest-800 text-forest-700 dark:text-forest-300 rounded-full hover:bg-forest-200 dark:hover:bg-forest-700 transition-colors"
-            >
-              {showApiKey ? 'Hide' : 'Configure'}
-            </button>
-          </div>
-          
-          {apiKeyValid === true && (
-            <div className="flex items-center gap-2 mb-4 p-3 bg-green-100 dark:bg-green-800 text-green-700 dark:text-green-300 rounded-lg">
-              <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-check-circle">
-                <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14"></path>
-                <path d="m9 11 3 3L22 4"></path>
-              </svg>
-              <span className="text-sm font-medium">API Key configured successfully</span>
-              <button
-                onClick={clearApiKey}
-                className="ml-auto text-xs px-2 py-1 bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300 rounded hover:bg-red-200 dark:hover:bg-red-800 transition-colors"
-              >
-                Clear
-              </button>
+          {/* Output Dimensions */}
+          {modelInfo?.reducedDimensions && (
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-forest-700 dark:text-cream-300 mb-2">
+                Output Dimensions
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {[...modelInfo.reducedDimensions, modelInfo.dimensions].map((size) => (
+                  <button
+                    key={size}
+                    onClick={() => setDimensions(size === modelInfo.dimensions ? null : size)}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      (outputDimensions ?? modelInfo.dimensions) === size
+                        ? 'bg-forest-100 dark:bg-forest-800 text-forest-700 dark:text-forest-300'
+                        : 'bg-cream-200 dark:bg-forest-700 text-forest-700 dark:text-cream-300 hover:bg-cream-300 dark:hover:bg-forest-600'
+                    }`}
+                  >
+                    {size === modelInfo.dimensions ? `Full (${size})` : size}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-forest-500 dark:text-cream-500 mt-2">
+                Shorter vectors are cheaper to store; {((outputDimensions ?? modelInfo.dimensions) * 4 / 1024).toFixed(1)} KB per passage as float32.
+              </p>
             </div>
           )}
 
-          {showApiKey && (
-            <form onSubmit={handleApiKeySubmit} className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-forest-700 dark:text-cream-300 mb-2">
-                  {provider === 'google' ? 'Google AI Studio API Key' : 'OpenAI API Key'}
-                </label>
-                <div className="relative">
-                  <input
-                    type={showApiKeyValue ? "text" : "password"}
-                    value={apiKey}
-                    onChange={handleApiKeyChange}
-                    placeholder={provider === 'google' ? "AIzaSy..." : "sk-..."}
-                    className={`w-full px-4 py-3 pr-12 bg-white/80 dark:bg-slate-800/80 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 backdrop-blur-sm transition-all duration-200 ${
-                      apiKeyValid === false ? 'border-red-300 dark:border-red-600' : 
-                      apiKeyValid === true ? 'border-green-300 dark:border-green-600' : 
-                      'border-white/30 dark:border-slate-600/30'
-                    }`}
-                  />
+          {/* Ranking Mode */}
+          {!isLexicalProvider && (
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-forest-700 dark:text-cream-300 mb-2">
+                Ranking
+              </label>
+              <div className="flex flex-wrap items-center gap-2">
+                {([
+                  ['dense', 'Embeddings only'],
+                  ['hybrid', 'Hybrid (embeddings + keywords)'],
+                  ['mmr', 'Diverse (MMR)'],
+                ] as const).map(([mode, label]) => (
                   <button
-                    type="button"
-                    onClick={() => setShowApiKeyValue(!showApiKeyValue)}
-                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                    key={mode}
+                    onClick={() => setRankingMode(mode)}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      rankingMode === mode
+                        ? 'bg-forest-100 dark:bg-forest-800 text-forest-700 dark:text-forest-300'
+                        : 'bg-cream-200 dark:bg-forest-700 text-forest-700 dark:text-cream-300 hover:bg-cream-300 dark:hover:bg-forest-600'
+                    }`}
                   >
-                    {showApiKeyValue ? (
-                      <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                        <path d="M9.88 9.88a3 3 0 1 0 4.24 4.24"></path>
-                        <path d="M10.73 5.08A10.43 10.43 0 0 1 12 5c7 0 10 7 10 7a13.16 13.16 0 0 1-1.67 2.68"></path>
-                        <path d="M6.61 6.61A13.526 13.526 0 0 0 2 12s3 7 10 7a9.74 9.74 0 0 0 5.39-1.61"></path>
-                        <line x1="2" x2="22" y1="2" y2="22"></line>
-                      </svg>
-                    ) : (
-                      <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
-                        <path d="M2 12s3-7 10-7 10 7 10 7-3 7-10 7-10-7-10-7Z"></path>
-                        <circle cx="12" cy="12" r="3"></circle>
-                      </svg>
-                    )}
+                    {label}
                   </button>
+                ))}
+              </div>
+              {isHybrid && (
+                <div className="mt-3 grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <select
+                    value={fusionStrategy}
+                    onChange={(e) => setFusionStrategy(e.target.value as FusionStrategy)}
+                    className="px-3 py-2 rounded-lg text-sm bg-cream-50 dark:bg-forest-700 border border-cream-300 dark:border-forest-600 text-forest-900 dark:text-cream-100"
+                  >
+                    {FUSION_STRATEGIES.map((option) => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={hybridLexicalModel}
+                    onChange={(e) => setHybridLexicalModel(e.target.value)}
+                    className="px-3 py-2 rounded-lg text-sm bg-cream-50 dark:bg-forest-700 border border-cream-300 dark:border-forest-600 text-forest-900 dark:text-cream-100"
+                  >
+                    {LEXICAL_MODELS.map((option) => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center gap-2 text-sm text-forest-700 dark:text-cream-300">
+                    <span className="whitespace-nowrap">Embedding weight</span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={denseWeight}
+                      onChange={(e) => setDenseWeight(Number(e.target.value))}
+                      className="flex-1"
+                    />
+                    <span className="w-10 text-right tabular-nums">{denseWeight.toFixed(2)}</span>
+                  </label>
                 </div>
-                {apiKeyValid === false && (
-                  <p className="text-sm text-red-600 dark:text-red-400 mt-1">
-                    Invalid API key format. {provider === 'google' 
-                      ? 'Google AI keys start with "AIza" and are 39 characters long.'
-                      : 'OpenAI keys start with "sk-" and are typically 48-164+ characters long.'
-                    }
+              )}
+              {isHybrid && (
+                <p className="text-xs text-forest-500 dark:text-cream-500 mt-2">
+                  {FUSION_STRATEGIES.find((option) => option.id === fusionStrategy)?.description}. Keywords get a weight of {(1 - denseWeight).toFixed(2)}.
+                </p>
+              )}
+              {isMmr && (
+                <>
+                  <label className="mt-3 flex items-center gap-2 text-sm text-forest-700 dark:text-cream-300">
+                    <span className="whitespace-nowrap">Diversity</span>
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={mmrLambda}
+                      onChange={(e) => setMmrLambda(Number(e.target.value))}
+                      className="flex-1"
+                    />
+                    <span className="whitespace-nowrap">Relevance</span>
+                    <span className="w-16 text-right tabular-nums">λ = {mmrLambda.toFixed(2)}</span>
+                  </label>
+                  <p className="text-xs text-forest-500 dark:text-cream-500 mt-2">
+                    Each pick scores λ × similarity to the query minus (1 − λ) × its highest similarity to a passage already ranked, so near-duplicates sink.
                   </p>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Similarity Matrix */}
+          {!isLexicalProvider && (
+            <label className="mt-4 flex items-center gap-2 text-sm font-medium text-forest-700 dark:text-cream-300">
+              <input
+                type="checkbox"
+                checked={showMatrix}
+                onChange={(e) => setShowMatrix(e.target.checked)}
+              />
+              Include the passage-to-passage similarity matrix
+            </label>
+          )}
+
+          {/* Raw vectors for the JSON export */}
+          {!isLexicalProvider && (
+            <label className="mt-4 flex items-center gap-2 text-sm font-medium text-forest-700 dark:text-cream-300">
+              <input
+                type="checkbox"
+                checked={keepVectors}
+                onChange={(e) => setKeepVectors(e.target.checked)}
+              />
+              Keep the query and passage vectors for the JSON export
+            </label>
+          )}
+
+          {/* Embedding Projection */}
+          {!isLexicalProvider && (
+            <div className="mt-4 flex flex-wrap items-center gap-4 text-sm font-medium text-forest-700 dark:text-cream-300">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={showProjection}
+                  onChange={(e) => setShowProjection(e.target.checked)}
+                />
+                Plot the embedding space
+              </label>
+              {showProjection && (
+                <>
+                  <select
+                    value={projectionMethod}
+                    onChange={(e) => setProjectionMethod(e.target.value as ProjectionMethod)}
+                    title={PROJECTION_METHODS.find((option) => option.id === projectionMethod)?.description}
+                    className="px-3 py-2 rounded-lg text-sm bg-cream-50 dark:bg-forest-700 border border-cream-300 dark:border-forest-600 text-forest-900 dark:text-cream-100"
+                  >
+                    {PROJECTION_METHODS.map((option) => (
+                      <option key={option.id} value={option.id}>{option.label}</option>
+                    ))}
+                  </select>
+                  <div className="flex gap-2">
+                    {([2, 3] as const).map((size) => (
+                      <button
+                        key={size}
+                        type="button"
+                        onClick={() => setProjectionDimensions(size)}
+                        className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                          projectionDimensions === size
+                            ? 'bg-forest-100 dark:bg-forest-800 text-forest-700 dark:text-forest-300'
+                            : 'bg-cream-200 dark:bg-forest-700 text-forest-700 dark:text-cream-300 hover:bg-cream-300 dark:hover:bg-forest-600'
+                        }`}
+                      >
+                        {size}D
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Clustering */}
+          {!isLexicalProvider && (
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-forest-700 dark:text-cream-300 mb-2">
+                Clustering
+              </label>
+              <div className="flex flex-wrap items-center gap-4 text-sm text-forest-700 dark:text-cream-300">
+                <select
+                  value={clusteringMethod}
+                  onChange={(e) => setClusteringMethod(e.target.value as ClusteringMethod)}
+                  className="px-3 py-2 rounded-lg text-sm bg-cream-50 dark:bg-forest-700 border border-cream-300 dark:border-forest-600 text-forest-900 dark:text-cream-100"
+                >
+                  <option value="agglomerative">Agglomerative (distance threshold)</option>
+                  <option value="kmeans">K-means (automatic k)</option>
+                </select>
+                {clusteringMethod === 'agglomerative' && (
+                  <label className="flex items-center gap-2">
+                    Merge below distance
+                    <input
+                      type="range"
+                      min={0.05}
+                      max={1}
+                      step={0.05}
+                      value={clusterDistance}
+                      onChange={(e) => setClusterDistance(Number(e.target.value))}
+                    />
+                    <span className="w-10 tabular-nums">{clusterDistance.toFixed(2)}</span>
+                  </label>
                 )}
-                <p className="text-xs text-forest-500 dark:text-cream-400 mt-2">
-                  Your API key is stored locally in your browser and never sent to our servers. 
-                  <a 
-                    href={provider === 'google' ? "https://aistudio.google.com/app/apikey" : "https://platform.openai.com/api-keys"} 
-                    target="_blank" 
-                    rel="noopener noreferrer" 
-                    className="text-blue-600 dark:text-blue-400 hover:underline ml-1"
+                <label className="flex items-center gap-2">
+                  Duplicates at
+                  <input
+                    type="range"
+                    min={0.8}
+                    max={1}
+                    step={0.01}
+                    value={duplicateThreshold}
+                    onChange={(e) => setDuplicateThreshold(Number(e.target.value))}
+                  />
+                  <span className="w-10 tabular-nums">{duplicateThreshold.toFixed(2)}</span>
+                </label>
+              </div>
+              <p className="text-xs text-forest-500 dark:text-cream-500 mt-2">
+                {clusteringMethod === 'agglomerative'
+                  ? 'Clusters keep merging while their average cosine distance stays under the threshold.'
+                  : 'K-means is run for each k up to 10 and the k with the best silhouette score is kept.'}
+              </p>
+            </div>
+          )}
+
+          {/* Model Comparison */}
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-forest-700 dark:text-cream-300 mb-2">
+              Compare Models
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {COMPARABLE_MODELS.map((candidate) => {
+                const checked = comparedModels.some((entry) => entry.provider === candidate.provider && entry.model === candidate.model);
+                return (
+                  <button
+                    key={`${candidate.provider}/${candidate.model}`}
+                    onClick={() => toggleComparedModel({ provider: candidate.provider, model: candidate.model })}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      checked
+                        ? 'bg-forest-100 dark:bg-forest-800 text-forest-700 dark:text-forest-300'
+                        : 'bg-cream-200 dark:bg-forest-700 text-forest-700 dark:text-cream-300 hover:bg-cream-300 dark:hover:bg-forest-600'
+                    }`}
+                  >
+                    {candidate.label}
+                  </button>
+                );
+              })}
+            </div>
+            <p className="text-xs text-forest-500 dark:text-cream-500 mt-2">
+              Pick 2 to {MAX_COMPARED_MODELS} models to rank the passages side by side, with Spearman and Kendall
+              correlation and top-5 overlap between each pair.
+            </p>
+          </div>
+
+          {/* Similarity Metric */}
+          {metricSelectable && (
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-forest-700 dark:text-cream-300 mb-2">
+                Similarity Metric
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {SIMILARITY_METRICS.map((option) => (
+                  <button
+                    key={option.id}
+                    onClick={() => setMetric(option.id)}
+                    title={option.description}
+                    className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      metric === option.id
+                        ? 'bg-forest-100 dark:bg-forest-800 text-forest-700 dark:text-forest-300'
+                        : 'bg-cream-200 dark:bg-forest-700 text-forest-700 dark:text-cream-300 hover:bg-cream-300 dark:hover:bg-forest-600'
+                    }`}
                   >
-                    Get your {provider === 'google' ? 'free' : ''} API key here
-                  </a>
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-forest-500 dark:text-cream-500 mt-2">
+                {getSimilarityMetricInfo(metric).description}.
+                {getSimilarityMetricInfo(metric).kind === 'distance' && ' Lower is closer.'}
+                {!getSimilarityMetricInfo(metric).range && ' Gauges are relative to the other results.'}
+              </p>
+            </div>
+          )}
+
+          {!isLexicalProvider && (
+            <>
+              {/* Fallback Policy */}
+              <div className="mt-4">
+                <label className="block text-sm font-medium text-forest-700 dark:text-cream-300 mb-2">
+                  If the provider fails
+                </label>
+                <div className="flex flex-wrap items-center gap-2">
+                  {([
+                    ['fail', 'Show the error'],
+                    ['mock', 'Use mock embeddings'],
+                    ['secondary', 'Use another provider'],
+                  ] as const).map(([mode, label]) => (
+                    <button
+                      key={mode}
+                      onClick={() => setFallbackMode(mode)}
+                      className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                        fallbackMode === mode
+                          ? 'bg-forest-100 dark:bg-forest-800 text-forest-700 dark:text-forest-300'
+                          : 'bg-cream-200 dark:bg-forest-700 text-forest-700 dark:text-cream-300 hover:bg-cream-300 dark:hover:bg-forest-600'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                  {fallbackMode === 'secondary' && (
+                    <select
+                      value={effectiveFallbackProvider}
+                      onChange={(e) => setFallbackProvider(e.target.value)}
+                      className="px-3 py-2 rounded-lg text-sm bg-cream-50 dark:bg-forest-700 border border-cream-300 dark:border-forest-600 text-forest-900 dark:text-cream-100"
+                    >
+                      {fallbackOptions.map((option) => (
+                        <option key={option.id} value={option.id}>{option.label}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+
+              {/* Mock Seed */}
+              <div className="mt-4">
+                <label className="block text-sm font-medium text-forest-700 dark:text-cream-300 mb-2">
+                  Mock seed
+                </label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={mockSeed}
+                  onChange={(e) => setMockSeed(e.target.value)}
+                  placeholder="0"
+                  className="w-32 px-3 py-2 rounded-lg text-sm bg-cream-50 dark:bg-forest-700 border border-cream-300 dark:border-forest-600 text-forest-900 dark:text-cream-100"
+                />
+                <p className="text-xs text-forest-500 dark:text-cream-500 mt-2">
+                  Mock embeddings and the mock reranker are deterministic; change the seed to get a different but repeatable run.
                 </p>
               </div>
-              <div className="flex gap-3">
-                <button
-                  type="submit"
-                  disabled={!apiKeyValid}
-                  className="px-4 py-2 bg-amber-700 text-cream-50 rounded-lg hover:bg-amber-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-medium"
-                >
-                  Save API Key
-                </button>
+            </>
+          )}
+        </div>
+      </section>
+
+      {/* API Key Section */}
+      {!isLexicalProvider && (
+        <section className="max-w-4xl mx-auto px-6 py-4">
+          <div className="gradient-card rounded-2xl p-6 shadow-xl">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-forest-900 dark:text-cream-100 flex items-center gap-2">
+                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-key">
+                  <circle cx="7.5" cy="15.5" r="5.5"></circle>
+                  <path d="m21 2-9.6 9.6"></path>
+                  <path d="m15.5 7.5 3 3L22 7l-3-3"></path>
+                </svg>
+                API Configuration
+              </h2>
+              <button
+                onClick={() => setShowApiKey(!showApiKey)}
+                className="text-sm px-3 py-1 bg-forest-100 dark:bg-forest-800 text-forest-700 dark:text-forest-300 rounded-full hover:bg-forest-200 dark:hover:bg-forest-700 transition-colors"
+              >
+                {showApiKey ? 'Hide' : 'Configure'}
+              </button>
+            </div>
+            
+            {apiKeyValid === true && (
+              <div className="flex items-center gap-2 mb-4 p-3 bg-green-100 dark:bg-green-800 text-green-700 dark:text-green-300 rounded-lg">
+                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-check-circle">
+                  <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14"></path>
+                  <path d="m9 11 3 3L22 4"></path>
+                </svg>
+                <span className="text-sm font-medium">API Key configured successfully</span>
                 <button
-                  type="button"
                   onClick={clearApiKey}
-                  className="px-4 py-2 bg-cream-200 dark:bg-forest-700 text-forest-700 dark:text-cream-300 rounded-lg hover:bg-cream-300 dark:hover:bg-forest-600 transition-colors text-sm font-medium"
+                  className="ml-auto text-xs px-2 py-1 bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300 rounded hover:bg-red-200 dark:hover:bg-red-800 transition-colors"
                 >
                   Clear
                 </button>
               </div>
-            </form>
-          )}
-        </div>
-      </section>
+            )}
+
+            {showApiKey && (
+              <form onSubmit={handleApiKeySubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-forest-700 dark:text-cream-300 mb-2">
+                    {providerInfo?.label} API Key{providerInfo && !providerInfo.requiresApiKey ? ' (optional)' : ''}
+                  </label>
+                  <div className="relative">
+                    <input
+                      type={showApiKeyValue ? "text" : "password"}
+                      value={apiKey}
+                      onChange={handleApiKeyChange}
+                      placeholder={providerInfo?.apiKeyPlaceholder}
+                      className={`w-full px-4 py-3 pr-12 bg-white/80 dark:bg-slate-800/80 border rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 backdrop-blur-sm transition-all duration-200 ${
+                        apiKeyValid === false ? 'border-red-300 dark:border-red-600' : 
+                        apiKeyValid === true ? 'border-green-300 dark:border-green-600' : 
+                        'border-white/30 dark:border-slate-600/30'
+                      }`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowApiKeyValue(!showApiKeyValue)}
+                      className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                    >
+                      {showApiKeyValue ? (
+                        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                          <path d="M9.88 9.88a3 3 0 1 0 4.24 4.24"></path>
+                          <path d="M10.73 5.08A10.43 10.43 0 0 1 12 5c7 0 10 7 10 7a13.16 13.16 0 0 1-1.67 2.68"></path>
+                          <path d="M6.61 6.61A13.526 13.526 0 0 0 2 12s3 7 10 7a9.74 9.74 0 0 0 5.39-1.61"></path>
+                          <line x1="2" x2="22" y1="2" y2="22"></line>
+                        </svg>
+                      ) : (
+                        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                          <path d="M2 12s3-7 10-7 10 7 10 7-3 7-10 7-10-7-10-7Z"></path>
+                          <circle cx="12" cy="12" r="3"></circle>
+                        </svg>
+                      )}
+                    </button>
+                  </div>
+                  {apiKeyValid === false && (
+                    <p className="text-sm text-red-600 dark:text-red-400 mt-1">
+                      Invalid API key format. {providerInfo?.apiKeyHint}
+                    </p>
+                  )}
+                  <p className="text-xs text-forest-500 dark:text-cream-400 mt-2">
+                    Your API key is stored locally in your browser and never sent to our servers. 
+                    <a 
+                      href={providerInfo?.apiKeyUrl} 
+                      target="_blank" 
+                      rel="noopener noreferrer" 
+                      className="text-blue-600 dark:text-blue-400 hover:underline ml-1"
+                    >
+                      Get your API key here
+                    </a>
+                  </p>
+                </div>
+                <div className="flex gap-3">
+                  <button
+                    type="submit"
+                    disabled={!apiKeyValid}
+                    className="px-4 py-2 bg-amber-700 text-cream-50 rounded-lg hover:bg-amber-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-sm font-medium"
+                  >
+                    Save API Key
+                  </button>
+                  <button
+                    type="button"
+                    onClick={clearApiKey}
+                    className="px-4 py-2 bg-cream-200 dark:bg-forest-700 text-forest-700 dark:text-cream-300 rounded-lg hover:bg-cream-300 dark:hover:bg-forest-600 transition-colors text-sm font-medium"
+                  >
+                    Clear
+                  </button>
+                </div>
+              </form>
+            )}
+          </div>
+        </section>
+      )}
 
       <main className="max-w-4xl mx-auto px-6 py-8">
         <form onSubmit={handleSubmit} className="space-y-8">
@@ -710,7 +1798,7 @@ export default function Home() {
                   Provide Query &amp; Passages
                 </p>
                 <p className="text-sm text-forest-700 dark:text-cream-300">
-                  Enter manually or upload a CSV/XLSX with shared query and up to {MAX_PASSAGES} passages.
+                  Enter manually or upload a CSV/XLSX with one or more queries and up to {MAX_PASSAGES} passages per query.
                 </p>
               </div>
               <div className="flex flex-wrap gap-2">
@@ -771,7 +1859,7 @@ export default function Home() {
                   />
                   <div className="mt-3 flex items-center justify-between text-sm text-forest-600 dark:text-cream-400 font-medium">
                     <span>
-                      Each line is a separate passage. We cap at {MAX_PASSAGES} to keep requests under rate limits.
+                      Each line is a separate passage. Up to {MAX_PASSAGES} passages; large sets are embedded in batches.
                     </span>
                     <span className={`${passageCount > MAX_PASSAGES ? 'text-red-600 dark:text-red-400' : ''}`}>
                       {passageCount}/{MAX_PASSAGES}
@@ -783,16 +1871,20 @@ export default function Home() {
               <div className="space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-forest-800 dark:text-cream-200 mb-2">
-                    Upload a .csv or .xlsx with header columns &quot;query&quot; and &quot;passages&quot;
+                    Upload a .csv or .xlsx with header columns &quot;query&quot; and &quot;passages&quot;, or
+                    BEIR, TREC or MS MARCO benchmark files together
                   </label>
                   <input
                     type="file"
-                    accept=".csv,.xlsx"
-                    onChange={(e) => handleFileUpload(e.target.files?.[0] ?? null)}
+                    accept={['.csv', '.xlsx', ...BENCHMARK_FILE_EXTENSIONS].join(',')}
+                    multiple
+                    onChange={(e) => handleFileUpload(e.target.files)}
                     className="block w-full text-sm text-forest-800 dark:text-cream-200 bg-white/80 dark:bg-forest-800/80 border border-cream-300 dark:border-forest-700 rounded-lg file:mr-4 file:py-2 file:px-3 file:border-0 file:bg-forest-100 file:text-forest-900 dark:file:bg-forest-700 dark:file:text-cream-100 cursor-pointer"
                   />
                   <p className="text-xs text-forest-600 dark:text-cream-400 mt-2">
-                    Up to 26 rows total (1 header + {MAX_PASSAGES} data rows). All rows must share the same query.
+                    Up to {MAX_BATCH_ROWS} data rows. A file with several queries is scored as a batch, each query
+                    against its own rows; a blank query cell belongs to the query above it. An optional
+                    &quot;relevance&quot; column, or a qrels file, grades passages for evaluation.
                   </p>
                 </div>
 
@@ -809,7 +1901,11 @@ export default function Home() {
                         <p className="text-sm font-semibold text-forest-900 dark:text-cream-100">{uploadedFileMeta.name}</p>
                         <p className="text-xs text-forest-700 dark:text-cream-300">
                           Loaded {uploadedFileMeta.rowCount} rows • {parsedPassages.length} passages ready
+                          {batchGroups && ` • ${batchGroups.length} queries`}
                         </p>
+                        {uploadedFileMeta.note && (
+                          <p className="text-xs text-forest-600 dark:text-cream-400">{uploadedFileMeta.note}</p>
+                        )}
                       </div>
                       <button
                         type="button"
@@ -819,12 +1915,25 @@ export default function Home() {
                         Clear file
                       </button>
                     </div>
-                    <div className="text-xs text-forest-700 dark:text-cream-300">
-                      Query (applied to all passages):
-                      <div className="mt-1 p-2 rounded-lg bg-white/60 dark:bg-forest-800/60 border border-cream-200 dark:border-forest-700">
-                        {query || '—'}
+                    {batchGroups ? (
+                      <div className="text-xs text-forest-700 dark:text-cream-300">
+                        First {Math.min(3, batchGroups.length)} queries:
+                        <ul className="mt-2 space-y-1 list-disc list-inside">
+                          {batchGroups.slice(0, 3).map((group) => (
+                            <li key={group.query} className="truncate" title={group.query}>
+                              {group.query} ({group.passages.length} passages)
+                            </li>
+                          ))}
+                        </ul>
                       </div>
-                    </div>
+                    ) : (
+                      <div className="text-xs text-forest-700 dark:text-cream-300">
+                        Query (applied to all passages):
+                        <div className="mt-1 p-2 rounded-lg bg-white/60 dark:bg-forest-800/60 border border-cream-200 dark:border-forest-700">
+                          {query || '—'}
+                        </div>
+                      </div>
+                    )}
                     <div className="text-xs text-forest-700 dark:text-cream-300">
                       First {Math.min(3, parsedPassages.length)} passages:
                       <ul className="mt-2 space-y-1 list-disc list-inside">
@@ -855,10 +1964,48 @@ export default function Home() {
             ) : (
               <>
                 <BarChart3 className="w-5 h-5" />
-                <span>Find Similar Passages</span>
+                <span>{isBatch ? `Score ${batchGroups!.length} Queries` : 'Find Similar Passages'}</span>
               </>
             )}
           </button>
+
+          {modelInfo?.reducedDimensions && !isBatch && (
+            <button
+              type="button"
+              onClick={handleCompareDimensions}
+              disabled={submitDisabled || dimensionCompareLoading}
+              className="w-full py-3 px-8 rounded-xl text-sm font-medium bg-cream-200 dark:bg-forest-700 text-forest-700 dark:text-cream-300 hover:bg-cream-300 dark:hover:bg-forest-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+            >
+              {dimensionCompareLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <BarChart3 className="w-4 h-4" />}
+              <span>
+                Compare rankings at {[...COMPARISON_DIMENSIONS.filter((size) => modelInfo.reducedDimensions!.includes(size)), 'full'].join(' / ')}
+              </span>
+            </button>
+          )}
+
+          {!isLexicalProvider && !isBatch && (
+            <button
+              type="button"
+              onClick={handleCluster}
+              disabled={submitDisabled || clusterLoading}
+              className="w-full py-3 px-8 rounded-xl text-sm font-medium bg-cream-200 dark:bg-forest-700 text-forest-700 dark:text-cream-300 hover:bg-cream-300 dark:hover:bg-forest-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+            >
+              {clusterLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <BarChart3 className="w-4 h-4" />}
+              <span>Cluster passages</span>
+            </button>
+          )}
+
+          {comparedModels.length >= 2 && !isBatch && (
+            <button
+              type="button"
+              onClick={handleCompareModels}
+              disabled={submitDisabled || modelCompareLoading}
+              className="w-full py-3 px-8 rounded-xl text-sm font-medium bg-cream-200 dark:bg-forest-700 text-forest-700 dark:text-cream-300 hover:bg-cream-300 dark:hover:bg-forest-600 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+            >
+              {modelCompareLoading ? <Loader2 className="w-4 h-4 animate-spin" /> : <BarChart3 className="w-4 h-4" />}
+              <span>Compare {comparedModels.length} models side by side</span>
+            </button>
+          )}
         </form>
 
         {/* Error Message */}
@@ -868,6 +2015,48 @@ export default function Home() {
           </div>
         )}
 
+        {isBatch && (batchResults.length > 0 || batchProgress) && (
+          <BatchResults
+            groups={batchGroups!}
+            results={batchResults}
+            progress={batchProgress}
+            fileName={uploadedFileMeta?.name ?? 'batch.csv'}
+            sourceRows={batchSourceRows}
+          />
+        )}
+
+        {dimensionRuns.length > 0 && <DimensionComparison runs={dimensionRuns} />}
+
+        {runDiff && <RunDiffView diff={runDiff} onClose={() => setRunDiff(null)} />}
+
+        {modelComparison && <ModelComparison result={modelComparison} />}
+
+        {!isLexicalProvider && (labelPassages.length > 0 || evaluationQueries || session) && (
+          <EvaluationPanel
+            passages={labelPassages}
+            labels={relevanceLabels}
+            onLabelChange={(passage, grade) => setRelevanceLabels((current) => ({ ...current, [passage]: grade }))}
+            queries={evaluationQueries}
+            settings={evaluationSettings}
+            signedIn={!!session}
+          />
+        )}
+
+        {clusters && <PassageClusters result={clusters.result} passages={clusters.passages} />}
+
+        {embeddingProjection && (
+          <EmbeddingScatter
+            projection={embeddingProjection.value}
+            texts={embeddingProjection.texts}
+            topIndices={results.map((result) => result.index)}
+            clusterOf={projectionClusters}
+          />
+        )}
+
+        {similarityMatrix && (
+          <SimilarityHeatmap matrix={similarityMatrix.values} texts={similarityMatrix.texts} />
+        )}
+
         {/* Results */}
         {results.length > 0 && (
           <div className="mt-12 space-y-6">
@@ -875,13 +2064,24 @@ export default function Home() {
               <h2 className="text-3xl font-bold text-forest-950 dark:text-cream-50 mb-2">
                 Similarity Results
               </h2>
-              {usedRealAPI === true ? (
+              {lexicalResults ? (
                 <div className="flex items-center justify-center gap-1 text-sm text-green-600 dark:text-green-400">
                   <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-check-circle">
                     <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14"></path>
                     <path d="m9 11 3 3L22 4"></path>
                   </svg>
-                  Using {currentProvider === 'google' ? 'Google AI' : 'OpenAI'} Embeddings
+                  Scored locally with {getEmbeddingModelInfo(currentProvider, results[0]?.provenance?.model ?? '')?.label ?? 'lexical matching'}
+                  {scoredLanguage && ` · ${LEXICAL_LANGUAGES.find((option) => option.id === scoredLanguage)?.label ?? scoredLanguage}`}
+                </div>
+              ) : usedRealAPI === true ? (
+                <div className="flex items-center justify-center gap-1 text-sm text-green-600 dark:text-green-400">
+                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="lucide lucide-check-circle">
+                    <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14"></path>
+                    <path d="m9 11 3 3L22 4"></path>
+                  </svg>
+                  Using {providerLabel(currentProvider)} Embeddings
+                  {retryCount > 0 && ` · ${retryCount} ${retryCount === 1 ? 'retry' : 'retries'}`}
+                  {cacheStats && cacheStats.hits > 0 && ` · ${cacheStats.hits}/${cacheStats.hits + cacheStats.misses} from cache`}
                 </div>
               ) : usedRealAPI === false ? (
                 <div className="flex items-center justify-center gap-1 text-sm text-amber-600 dark:text-amber-400">
@@ -893,7 +2093,7 @@ export default function Home() {
                     <path d="M1 9h6"></path>
                     <path d="M17 9h6"></path>
                   </svg>
-                  Using Mock Embeddings ({currentProvider === 'google' ? 'Google AI' : 'OpenAI'} API quota exceeded or no key)
+                  Using Mock Embeddings ({providerLabel(currentProvider)} API quota exceeded or no key)
                 </div>
               ) : (
                 <div className="flex items-center justify-center gap-1 text-sm text-forest-500 dark:text-cream-400">
@@ -905,11 +2105,18 @@ export default function Home() {
                     <path d="M1 9h6"></path>
                     <path d="M17 9h6"></path>
                   </svg>
-                  Using Mock Embeddings (Add {currentProvider === 'google' ? 'Google AI' : 'OpenAI'} API key for better results)
+                  Using Mock Embeddings (Add {providerLabel(currentProvider)} API key for better results)
                 </div>
               )}
             </div>
 
+            {fallbackProvenance && fallbackProvenance.fallbackReason !== 'no_api_key' && (
+              <div className="text-center -mt-4 mb-6 text-sm text-amber-600 dark:text-amber-400">
+                {providerLabel(currentProvider)} failed ({fallbackProvenance.fallbackReason?.replace(/_/g, ' ')}); vectors below came from{' '}
+                {fallbackProvenance.source === 'mock' ? 'the mock generator' : `${providerLabel(fallbackProvenance.provider)} (${fallbackProvenance.model})`}
+              </div>
+            )}
+
             {/* Reranker Status Indicator */}
             {rerankResults.length > 0 && (
               <div className="text-center mb-6">
@@ -949,6 +2156,14 @@ export default function Home() {
               </div>
             )}
 
+            {exportRows.length > 0 && (
+              <ResultsExport
+                rows={exportRows}
+                fileBase={showingRerank ? 'rerank-results' : 'similarity-results'}
+                vectors={lexicalResults ? null : exportVectors}
+              />
+            )}
+
             {/* Tabbed Interface */}
             <div className="bg-cream-50 dark:bg-forest-800 rounded-2xl shadow-xl border border-cream-200 dark:border-forest-700 overflow-hidden">
               {/* Tab Headers */}
@@ -1297,10 +2512,14 @@ export default function Home() {
                 // Rerank results are already on 0-100 scale
                 normalizedEmbeddingScore = Math.round(embeddingScore);
                 normalizedFinalScore = Math.round(finalScore);
+              } else if (lexicalResults) {
+                // Lexical scores are already normalized to 0-1
+                normalizedEmbeddingScore = Math.round(embeddingScore * 100);
+                normalizedFinalScore = Math.round(finalScore * 100);
               } else {
-                // Regular embedding results need conversion from cosine similarity (-1 to 1) to 0-100 scale
-                normalizedEmbeddingScore = Math.round(((embeddingScore + 1) / 2) * 100);
-                normalizedFinalScore = Math.round(((finalScore + 1) / 2) * 100);
+                // Regular embedding results are placed on 0-100 using the metric's own scale
+                normalizedEmbeddingScore = Math.round(scoreToUnit(resultMetric, embeddingScore, resultScores) * 100);
+                normalizedFinalScore = Math.round(scoreToUnit(resultMetric, finalScore, resultScores) * 100);
               }
               
               const clampedScore = Math.max(0, Math.min(100, normalizedFinalScore));
@@ -1340,6 +2559,38 @@ export default function Home() {
                       }`}>
                         {isRerankResult ? `Reranked #${result.rank}` : `Rank #${index + 1}`}
                       </span>
+                      {!isRerankResult && result.provenance && result.provenance.source !== 'provider' && (
+                        <span
+                          className="text-xs px-2 py-1 rounded-lg border text-amber-700 dark:text-amber-300 bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-700"
+                          title={result.provenance.fallbackReason}
+                        >
+                          {result.provenance.source === 'mock' ? 'Mock vector' : `Via ${providerLabel(result.provenance.provider)}`}
+                        </span>
+                      )}
+                      {!isRerankResult && result.mmr && result.mmr.redundantWith !== null && (
+                        <span
+                          className={`text-xs px-2 py-1 rounded-lg border ${
+                            result.mmr.redundancy >= 0.9
+                              ? 'text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-700'
+                              : 'text-forest-600 dark:text-cream-400 bg-cream-100 dark:bg-forest-800 border-cream-300 dark:border-forest-600'
+                          }`}
+                          title={`${(result.mmr.redundancy * 100).toFixed(0)}% similar to passage ${result.mmr.redundantWith + 1}; MMR score ${result.mmr.mmrScore.toFixed(3)}`}
+                        >
+                          −{result.mmr.penalty.toFixed(3)} redundancy · overlaps P{result.mmr.redundantWith + 1}
+                        </span>
+                      )}
+                      {!isRerankResult && result.tokens !== undefined && (
+                        <span
+                          className={`text-xs px-2 py-1 rounded-lg border ${
+                            result.truncated
+                              ? 'text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-700'
+                              : 'text-forest-600 dark:text-cream-400 bg-cream-100 dark:bg-forest-800 border-cream-300 dark:border-forest-600'
+                          }`}
+                          title={result.truncated ? 'Cut to the model\'s context limit before embedding' : undefined}
+                        >
+                          {result.tokens} tokens{result.truncated ? ' (truncated)' : ''}
+                        </span>
+                      )}
                       {isRerankResult && (
                         <div className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 px-2 py-1 rounded-lg border border-amber-200 dark:border-amber-700">
                           <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -1394,11 +2645,52 @@ export default function Home() {
                         </div>
                       </div>
                       <span className="text-sm font-semibold text-forest-600 dark:text-cream-400">
-                        similar
+                        {isRerankResult || lexicalResults || resultMetric === 'cosine'
+                          ? 'similar'
+                          : `${resultMetricInfo.label} ${finalScore.toFixed(3)}`}
                       </span>
                     </div>
                   </div>
 
+                  {/* Score Breakdown for Hybrid Results */}
+                  {!isRerankResult && result.hybrid && (
+                    <div className="bg-gradient-to-r from-forest-50 to-cream-100 dark:from-forest-900/20 dark:to-forest-800/20 rounded-xl p-4 mb-6 border border-forest-200/50 dark:border-forest-700/50">
+                      <h4 className="text-sm font-semibold text-forest-700 dark:text-cream-300 mb-3">
+                        Hybrid Breakdown · {FUSION_STRATEGIES.find((option) => option.id === result.hybrid!.strategy)?.label}
+                      </h4>
+                      <div className="grid grid-cols-3 gap-4">
+                        <div className="text-center">
+                          <div className="text-xs text-forest-500 dark:text-cream-400 mb-1">Embedding</div>
+                          <div className="text-lg font-bold text-blue-600 dark:text-blue-400">
+                            {Math.round(((result.hybrid.denseScore + 1) / 2) * 100)}
+                          </div>
+                          <div className="text-xs text-forest-500 dark:text-cream-400">rank #{result.hybrid.denseRank}</div>
+                        </div>
+                        <div className="text-center">
+                          <div className="text-xs text-forest-500 dark:text-cream-400 mb-1">Keywords</div>
+                          <div className="text-lg font-bold text-amber-600 dark:text-amber-400">
+                            {Math.round(result.hybrid.lexicalScore * 100)}
+                          </div>
+                          <div className="text-xs text-forest-500 dark:text-cream-400">rank #{result.hybrid.lexicalRank}</div>
+                        </div>
+                        <div className="text-center">
+                          <div className="text-xs text-forest-500 dark:text-cream-400 mb-1">Fused</div>
+                          <div className="text-lg font-bold text-green-600 dark:text-green-400">
+                            {result.hybrid.fusedScore.toFixed(result.hybrid.strategy === 'rrf' ? 4 : 2)}
+                          </div>
+                          <div className="text-xs text-forest-500 dark:text-cream-400">rank #{result.hybrid.fusedRank}</div>
+                        </div>
+                      </div>
+                      <p className="text-xs text-forest-500 dark:text-cream-400 mt-3 text-center">
+                        {result.hybrid.denseRank < result.hybrid.lexicalRank
+                          ? 'Wins on meaning'
+                          : result.hybrid.lexicalRank < result.hybrid.denseRank
+                            ? 'Wins on keywords'
+                            : 'Ranked the same by meaning and keywords'}
+                      </p>
+                    </div>
+                  )}
+
                   {/* Score Breakdown for Rerank Results */}
                   {isRerankResult && (
                     <div className="bg-gradient-to-r from-amber-50 to-forest-50 dark:from-amber-900/20 dark:to-forest-900/20 rounded-xl p-4 mb-6 border border-amber-200/50 dark:border-amber-700/50">
@@ -0,0 +1,147 @@
+'use client'
+
+import { useState } from 'react'
+import Papa from 'papaparse'
+import * as XLSX from 'xlsx'
+import { BatchGroup, BatchQueryResult, batchScoreColumns } from '@/lib/batch'
+import { downloadFile } from '@/lib/export'
+
+interface BatchResultsProps {
+  groups: BatchGroup[]
+  results: BatchQueryResult[] // in completion order; may be partial while running or after a failure
+  progress: { completed: number; total: number } | null // null once the batch has stopped
+  fileName: string
+  sourceRows: Record<string, unknown>[] // the uploaded rows, untouched, for the download
+}
+
+const PREVIEW_RESULTS = 5
+
+// Per-query summary of a multi-query upload, with the scored file available for download
+export function BatchResults({ groups, results, progress, fileName, sourceRows }: BatchResultsProps) {
+  const [expanded, setExpanded] = useState<number | null>(null)
+  const byQuery = new Map(results.map(result => [result.queryIndex, result]))
+
+  const download = (format: 'csv' | 'xlsx') => {
+    const columns = batchScoreColumns(groups, results)
+    // Rows without a passage, or from queries that did not finish, get empty score cells
+    const scored = sourceRows.map((row, index) => ({
+      ...row,
+      similarity: columns.get(index)?.similarity ?? '',
+      similarity_rank: columns.get(index)?.rank ?? '',
+    }))
+    const baseName = `${fileName.replace(/\.[^.]+$/, '')}-scored`
+
+    if (format === 'csv') {
+      downloadFile(`${baseName}.csv`, Papa.unparse(scored), 'text/csv;charset=utf-8')
+    } else {
+      const workbook = XLSX.utils.book_new()
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(scored), 'Scores')
+      XLSX.writeFile(workbook, `${baseName}.xlsx`)
+    }
+  }
+
+  return (
+    <div className="mt-12 gradient-card rounded-2xl p-6 shadow-xl">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-forest-950 dark:text-cream-50 mb-1">
+            Batch Results
+          </h2>
+          <p className="text-sm text-forest-600 dark:text-cream-400">
+            {results.length} of {groups.length} queries scored. Click a query to see its ranking.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {(['csv', 'xlsx'] as const).map(format => (
+            <button
+              key={format}
+              type="button"
+              onClick={() => download(format)}
+              disabled={results.length === 0 || progress !== null}
+              className="px-3 py-2 rounded-lg text-sm font-medium bg-amber-700 text-cream-50 hover:bg-amber-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Download {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {progress && (
+        <div className="mb-4">
+          <div className="h-2 rounded-full bg-cream-200 dark:bg-forest-700 overflow-hidden">
+            <div
+              className="h-full bg-forest-600 transition-all"
+              style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+            />
+          </div>
+          <p className="mt-1 text-xs text-forest-600 dark:text-cream-400 tabular-nums">
+            Scoring query {Math.min(progress.completed + 1, progress.total)} of {progress.total}…
+          </p>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-forest-700 dark:text-cream-300 border-b border-cream-300 dark:border-forest-600">
+              <th className="py-2 pr-3">#</th>
+              <th className="py-2 pr-3">Query</th>
+              <th className="py-2 pr-3 text-right">Passages</th>
+              <th className="py-2 pr-3">Top passage</th>
+              <th className="py-2 pr-3 text-right">Top score</th>
+              <th className="py-2 text-right">Mean</th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map((group, queryIndex) => {
+              const result = byQuery.get(queryIndex)
+              const top = result?.results[0]
+              const mean = result
+                ? result.results.reduce((sum, item) => sum + item.similarity, 0) / result.results.length
+                : null
+              const isExpanded = expanded === queryIndex
+
+              return [
+                <tr
+                  key={queryIndex}
+                  onClick={() => setExpanded(isExpanded ? null : queryIndex)}
+                  className={`border-b border-cream-200 dark:border-forest-700 cursor-pointer hover:bg-cream-100/60 dark:hover:bg-forest-800/60 ${
+                    result ? '' : 'opacity-50'
+                  }`}
+                >
+                  <td className="py-2 pr-3 tabular-nums text-forest-500 dark:text-cream-500">{queryIndex + 1}</td>
+                  <td className="py-2 pr-3 max-w-[14rem] truncate text-forest-900 dark:text-cream-100" title={group.query}>{group.query}</td>
+                  <td className="py-2 pr-3 text-right tabular-nums">{group.passages.length}</td>
+                  <td className="py-2 pr-3 max-w-[16rem] truncate text-forest-700 dark:text-cream-300" title={top?.text}>{top?.text ?? '—'}</td>
+                  <td className="py-2 pr-3 text-right tabular-nums">{top ? top.similarity.toFixed(3) : '—'}</td>
+                  <td className="py-2 text-right tabular-nums">{mean !== null ? mean.toFixed(3) : '—'}</td>
+                </tr>,
+                isExpanded && result && (
+                  <tr key={`${queryIndex}-ranking`} className="border-b border-cream-200 dark:border-forest-700">
+                    <td />
+                    <td colSpan={5} className="py-2">
+                      <ol className="space-y-1 text-xs">
+                        {result.results.slice(0, PREVIEW_RESULTS).map((item, rank) => (
+                          <li key={item.index} className="flex gap-3">
+                            <span className="w-6 tabular-nums text-forest-500 dark:text-cream-500">{rank + 1}.</span>
+                            <span className="w-12 tabular-nums text-forest-800 dark:text-cream-200">{item.similarity.toFixed(3)}</span>
+                            <span className="flex-1 truncate text-forest-600 dark:text-cream-400" title={item.text}>{item.text}</span>
+                          </li>
+                        ))}
+                        {result.results.length > PREVIEW_RESULTS && (
+                          <li className="text-forest-500 dark:text-cream-500">
+                            {result.results.length - PREVIEW_RESULTS} more in the download.
+                          </li>
+                        )}
+                      </ol>
+                    </td>
+                  </tr>
+                ),
+              ]
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
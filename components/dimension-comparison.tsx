@@ -0,0 +1,91 @@
+'use client'
+
+import { SimilarityResult } from '@/types'
+import { SimilarityMetric } from '@/lib/vector-math'
+
+export interface DimensionRun {
+  dimensions: number
+  results: SimilarityResult[]
+  usedRealAPI: boolean
+  metric?: SimilarityMetric // cosine when absent
+}
+
+interface DimensionComparisonProps {
+  runs: DimensionRun[] // reduced sizes first, full size last
+  topK?: number
+}
+
+// Side-by-side rankings at several output sizes, measured against the full-size ranking
+export function DimensionComparison({ runs, topK = 10 }: DimensionComparisonProps) {
+  const baseline = runs[runs.length - 1]
+  const baselineRanks = new Map(baseline.results.map((result, rank) => [result.index, rank]))
+  const baselineTop = new Set(baseline.results.slice(0, topK).map(result => result.index))
+
+  return (
+    <div className="mt-12 gradient-card rounded-2xl p-6 shadow-xl">
+      <h2 className="text-2xl font-bold text-forest-950 dark:text-cream-50 mb-1">
+        Rankings by Output Size
+      </h2>
+      <p className="text-sm text-forest-600 dark:text-cream-400 mb-6">
+        Top {topK} passages at each size. Arrows show movement against the full-size ranking.
+      </p>
+
+      <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${runs.length}, minmax(0, 1fr))` }}>
+        {runs.map(run => {
+          const top = run.results.slice(0, topK)
+          const overlap = top.filter(result => baselineTop.has(result.index)).length
+          const isBaseline = run === baseline
+
+          return (
+            <div key={run.dimensions} className="min-w-0">
+              <div className="mb-3">
+                <div className="font-semibold text-forest-900 dark:text-cream-100">
+                  {isBaseline ? `Full (${run.dimensions})` : run.dimensions}
+                </div>
+                <div className="text-xs text-forest-500 dark:text-cream-500">
+                  {(run.dimensions * 4 / 1024).toFixed(1)} KB/vector
+                  {!isBaseline && ` · ${overlap}/${top.length} shared with full`}
+                  {!run.usedRealAPI && ' · mock'}
+                </div>
+              </div>
+
+              <ol className="space-y-2">
+                {top.map((result, rank) => {
+                  const fullRank = baselineRanks.get(result.index)
+                  const delta = fullRank === undefined ? 0 : fullRank - rank
+
+                  return (
+                    <li
+                      key={result.index}
+                      title={result.text}
+                      className="rounded-lg border border-cream-300 dark:border-forest-600 bg-cream-50/80 dark:bg-forest-800/80 p-2 text-xs"
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium text-forest-800 dark:text-cream-200">
+                          #{rank + 1} · P{result.index + 1}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          {!isBaseline && delta !== 0 && (
+                            <span className={delta > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+                              {delta > 0 ? `▲${delta}` : `▼${-delta}`}
+                            </span>
+                          )}
+                          <span className="text-forest-600 dark:text-cream-400">
+                            {!run.metric || run.metric === 'cosine'
+                              ? `${(result.similarity * 100).toFixed(1)}%`
+                              : result.similarity.toFixed(3)}
+                          </span>
+                        </span>
+                      </div>
+                      <p className="mt-1 truncate text-forest-600 dark:text-cream-400">{result.text}</p>
+                    </li>
+                  )
+                })}
+              </ol>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
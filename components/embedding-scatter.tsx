@@ -0,0 +1,232 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import type { QueryProjection } from '@/lib/projection'
+
+interface EmbeddingScatterProps {
+  projection: QueryProjection // points[0] is the query
+  texts: string[] // query first, then passages, in projection order
+  topIndices: number[] // passage indexes of the ranked results, best first
+  clusterOf?: Map<number, number> | null // passage index to cluster id, when clusters are available
+}
+
+const WIDTH = 640
+const HEIGHT = 480
+// Distinct hues for cluster colouring; ids beyond the palette wrap around
+const CLUSTER_COLORS = ['#15803d', '#b45309', '#1d4ed8', '#be123c', '#7c3aed', '#0f766e', '#a16207', '#db2777', '#4d7c0f', '#475569']
+
+const METHOD_LABELS: Record<QueryProjection['method'], string> = { pca: 'PCA', tsne: 't-SNE' }
+
+// Same cream-to-forest ramp as the similarity heatmap
+function similarityColor(unit: number): string {
+  return `hsl(150, ${35 + unit * 30}%, ${80 - unit * 55}%)`
+}
+
+// Rotates a 3-d point by yaw (around the vertical axis) then pitch; 2-d points pass through
+function rotate(point: number[], yaw: number, pitch: number): [number, number, number] {
+  const [x, y, z = 0] = point
+  const x1 = x * Math.cos(yaw) + z * Math.sin(yaw)
+  const z1 = -x * Math.sin(yaw) + z * Math.cos(yaw)
+  const y2 = y * Math.cos(pitch) - z1 * Math.sin(pitch)
+  const z2 = y * Math.sin(pitch) + z1 * Math.cos(pitch)
+  return [x1, y2, z2]
+}
+
+// Scatter plot of the query and passages in the projected space. Scroll to zoom; drag
+// to pan in 2-d or to rotate in 3-d. Hover a point to read its passage.
+export function EmbeddingScatter({ projection, texts, topIndices, clusterOf }: EmbeddingScatterProps) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const dragRef = useRef<{ x: number; y: number } | null>(null)
+  const [zoom, setZoom] = useState(1)
+  const [pan, setPan] = useState({ x: 0, y: 0 })
+  const [angles, setAngles] = useState({ yaw: 0.6, pitch: -0.4 })
+  const [colorBy, setColorBy] = useState<'similarity' | 'cluster'>('similarity')
+  const [hover, setHover] = useState<number | null>(null)
+
+  const is3d = projection.dimensions === 3
+  const topSet = useMemo(() => new Set(topIndices), [topIndices])
+  const showClusters = colorBy === 'cluster' && clusterOf != null
+
+  // Centre on the mean and fit the farthest point inside the plot
+  const normalized = useMemo(() => {
+    const { points } = projection
+    const dims = points[0].length
+    const mean = Array.from({ length: dims }, (_, c) => points.reduce((sum, point) => sum + point[c], 0) / points.length)
+    const radius = Math.max(...points.map(point => Math.hypot(...point.map((value, c) => value - mean[c])))) || 1
+    return points.map(point => point.map((value, c) => (value - mean[c]) / radius))
+  }, [projection])
+
+  const screen = useMemo(() => {
+    const scale = Math.min(WIDTH, HEIGHT) * 0.45 * zoom
+    return normalized.map(point => {
+      const [x, y, depth] = is3d ? rotate(point, angles.yaw, angles.pitch) : [point[0], point[1], 0]
+      return { x: WIDTH / 2 + pan.x + x * scale, y: HEIGHT / 2 + pan.y - y * scale, depth }
+    })
+  }, [normalized, is3d, angles, zoom, pan])
+
+  const [low, high] = useMemo(() => {
+    const values = projection.querySimilarity
+    return [Math.min(...values), Math.max(...values)]
+  }, [projection])
+
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling
+  useEffect(() => {
+    const svg = svgRef.current
+    if (!svg) {
+      return
+    }
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      setZoom(current => Math.max(0.5, Math.min(20, current * Math.exp(-event.deltaY * 0.0015))))
+    }
+    svg.addEventListener('wheel', onWheel, { passive: false })
+    return () => svg.removeEventListener('wheel', onWheel)
+  }, [])
+
+  const colorOf = (passage: number) => {
+    if (showClusters) {
+      const cluster = clusterOf!.get(passage)
+      return cluster === undefined ? '#9ca3af' : CLUSTER_COLORS[(cluster - 1) % CLUSTER_COLORS.length]
+    }
+    const value = projection.querySimilarity[passage]
+    return similarityColor(high > low ? (value - low) / (high - low) : 1)
+  }
+
+  // Far points first so nearer ones are drawn on top in 3-d
+  const drawOrder = useMemo(
+    () => screen.map((_, index) => index).filter(index => index > 0).sort((a, b) => screen[a].depth - screen[b].depth),
+    [screen]
+  )
+
+  const label = (index: number) => (index === 0 ? 'Query' : `P${index}`)
+  const hovered = hover === null ? null : screen[hover]
+
+  return (
+    <div className="mt-12 gradient-card rounded-2xl p-6 shadow-xl">
+      <h2 className="text-2xl font-bold text-forest-950 dark:text-cream-50 mb-1">
+        Embedding Space
+      </h2>
+      <p className="text-sm text-forest-600 dark:text-cream-400 mb-4">
+        {METHOD_LABELS[projection.method]} projection to {projection.dimensions}-d
+        {projection.explainedVariance &&
+          ` (${projection.explainedVariance.map(share => `${(share * 100).toFixed(1)}%`).join(' + ')} of variance)`}.
+        Lines join the query to the top {topIndices.length} results. Scroll to zoom; drag to {is3d ? 'rotate' : 'pan'}.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-forest-700 dark:text-cream-300">
+        <label className="flex items-center gap-2">
+          Colour by
+          <select
+            value={showClusters ? 'cluster' : 'similarity'}
+            onChange={(e) => setColorBy(e.target.value as 'similarity' | 'cluster')}
+            className="px-3 py-2 rounded-lg text-sm bg-cream-50 dark:bg-forest-700 border border-cream-300 dark:border-forest-600 text-forest-900 dark:text-cream-100"
+          >
+            <option value="similarity">Similarity to query</option>
+            {clusterOf && <option value="cluster">Cluster</option>}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={() => {
+            setZoom(1)
+            setPan({ x: 0, y: 0 })
+            setAngles({ yaw: 0.6, pitch: -0.4 })
+          }}
+          className="px-3 py-2 rounded-lg text-sm font-medium bg-cream-200 dark:bg-forest-700 text-forest-700 dark:text-cream-300 hover:bg-cream-300 dark:hover:bg-forest-600"
+        >
+          Reset view
+        </button>
+      </div>
+
+      <div className="relative overflow-hidden rounded-xl border border-cream-300 dark:border-forest-600 bg-cream-50/60 dark:bg-forest-900/60">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto cursor-grab active:cursor-grabbing select-none"
+          onMouseDown={(event) => { dragRef.current = { x: event.clientX, y: event.clientY } }}
+          onMouseUp={() => { dragRef.current = null }}
+          onMouseLeave={() => {
+            dragRef.current = null
+            setHover(null)
+          }}
+          onMouseMove={(event) => {
+            const start = dragRef.current
+            if (!start) {
+              return
+            }
+            const dx = event.clientX - start.x
+            const dy = event.clientY - start.y
+            dragRef.current = { x: event.clientX, y: event.clientY }
+            if (is3d) {
+              setAngles(({ yaw, pitch }) => ({ yaw: yaw + dx * 0.01, pitch: Math.max(-1.5, Math.min(1.5, pitch + dy * 0.01)) }))
+            } else {
+              setPan(({ x, y }) => ({ x: x + dx, y: y + dy }))
+            }
+          }}
+        >
+          {topIndices.map(passage => (
+            <line
+              key={`line-${passage}`}
+              x1={screen[0].x}
+              y1={screen[0].y}
+              x2={screen[passage + 1].x}
+              y2={screen[passage + 1].y}
+              stroke="#b45309"
+              strokeOpacity={0.6}
+              strokeWidth={1.5}
+            />
+          ))}
+
+          {drawOrder.map(index => {
+            const { x, y } = screen[index]
+            const passage = index - 1
+            return (
+              <circle
+                key={index}
+                cx={x}
+                cy={y}
+                r={topSet.has(passage) ? 6 : 4}
+                fill={colorOf(passage)}
+                stroke={topSet.has(passage) ? '#b45309' : '#14532d'}
+                strokeWidth={topSet.has(passage) ? 2 : 0.5}
+                onMouseEnter={() => setHover(index)}
+                onMouseLeave={() => setHover(null)}
+              />
+            )
+          })}
+
+          {/* Query drawn last so it is never hidden */}
+          <rect
+            x={screen[0].x - 7}
+            y={screen[0].y - 7}
+            width={14}
+            height={14}
+            transform={`rotate(45 ${screen[0].x} ${screen[0].y})`}
+            fill="#d97706"
+            stroke="#78350f"
+            strokeWidth={1.5}
+            onMouseEnter={() => setHover(0)}
+            onMouseLeave={() => setHover(null)}
+          />
+        </svg>
+
+        {hover !== null && hovered && (
+          <div
+            className="pointer-events-none absolute z-10 max-w-xs rounded-lg border border-cream-300 dark:border-forest-600 bg-cream-50 dark:bg-forest-800 p-2 text-xs shadow-lg"
+            style={{ left: `${(hovered.x / WIDTH) * 100}%`, top: `${(hovered.y / HEIGHT) * 100}%`, transform: 'translate(12px, 12px)' }}
+          >
+            <div className="font-semibold text-forest-900 dark:text-cream-100">
+              {label(hover)}
+              {hover > 0 && ` · similarity ${projection.querySimilarity[hover - 1].toFixed(3)}`}
+              {hover > 0 && topSet.has(hover - 1) && ` · rank ${topIndices.indexOf(hover - 1) + 1}`}
+              {hover > 0 && clusterOf?.has(hover - 1) && ` · cluster ${clusterOf.get(hover - 1)}`}
+            </div>
+            <p className="mt-1 text-forest-600 dark:text-cream-400">
+              {texts[hover].length > 200 ? `${texts[hover].slice(0, 200)}…` : texts[hover]}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,350 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import {
+  DEFAULT_EVALUATION_K,
+  EVALUATED_RANKINGS,
+  EvaluatedRanking,
+  EvaluationQuery,
+  EvaluationReport,
+  MAX_RELEVANCE_GRADE,
+  RETRIEVAL_METRICS,
+  RankingMetrics,
+} from '@/lib/evaluation'
+
+interface EvaluationPanelProps {
+  passages: string[] // the single query's passages, to label here; empty for batch uploads
+  labels: Record<string, number> // grade by passage text
+  onLabelChange: (passage: string, grade: number) => void
+  queries: EvaluationQuery[] | null // what Evaluate scores; null until there is something labelled
+  settings: Record<string, unknown> // provider, model and ranking options for the request
+  signedIn: boolean
+}
+
+interface SavedEvaluationSet {
+  id: string
+  name: string
+  _count: { runs: number }
+}
+
+interface EvaluationHistoryEntry {
+  id: string
+  provider: string
+  model: string
+  k: number
+  mean: RankingMetrics
+  usedRealAPI: boolean
+  createdAt: string
+}
+
+type EvaluationResponse = EvaluationReport & {
+  rankings: EvaluatedRanking[]
+  provider: string
+  model: string
+  usedRealAPI: boolean
+  metric: string
+  hybridMetric?: string // set when the hybrid ranking was scored; it always fuses cosine similarity
+}
+
+const GRADE_LABELS = ['Not relevant', 'Somewhat relevant', 'Relevant', 'Highly relevant']
+const inputClass = 'px-3 py-2 rounded-lg text-sm bg-cream-50 dark:bg-forest-700 border border-cream-300 dark:border-forest-600 text-forest-900 dark:text-cream-100'
+const buttonClass = 'px-3 py-2 rounded-lg text-sm font-medium bg-amber-700 text-cream-50 hover:bg-amber-800 disabled:opacity-50 disabled:cursor-not-allowed'
+
+// Relevance labelling, IR metrics for the embedding, hybrid and rerank rankings, and saved
+// evaluation sets that can be re-run as regression benchmarks
+export function EvaluationPanel({ passages, labels, onLabelChange, queries, settings, signedIn }: EvaluationPanelProps) {
+  const [k, setK] = useState(DEFAULT_EVALUATION_K)
+  const [report, setReport] = useState<EvaluationResponse | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+  const [sets, setSets] = useState<SavedEvaluationSet[]>([])
+  const [selectedSetId, setSelectedSetId] = useState('')
+  const [history, setHistory] = useState<EvaluationHistoryEntry[]>([])
+  const [setName, setSetName] = useState('')
+
+  useEffect(() => {
+    if (!signedIn) {
+      return
+    }
+    fetch('/api/evaluation-sets')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error('Failed to load evaluation sets')))
+      .then(data => setSets(data.evaluationSets))
+      .catch(() => setError('Failed to load evaluation sets.'))
+  }, [signedIn])
+
+  const loadHistory = async (setId: string) => {
+    if (!setId) {
+      setHistory([])
+      return
+    }
+    const response = await fetch(`/api/evaluation-sets/${setId}`)
+    const data = await response.json().catch(() => ({}))
+    setHistory(response.ok ? data.evaluationSet.runs : [])
+  }
+
+  useEffect(() => {
+    loadHistory(selectedSetId)
+  }, [selectedSetId])
+
+  const evaluate = async (source: { queries: EvaluationQuery[] } | { evaluationSetId: string }) => {
+    setLoading(true)
+    setError('')
+    try {
+      const response = await fetch(signedIn ? '/api/evaluate' : '/api/evaluate-legacy', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...settings, ...source, k }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to evaluate rankings')
+      }
+      setReport(data)
+      if ('evaluationSetId' in source) {
+        await loadHistory(source.evaluationSetId)
+      }
+    } catch (err) {
+      console.error('❌ Frontend: Evaluation error:', err)
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveSet = async () => {
+    setError('')
+    const response = await fetch('/api/evaluation-sets', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: setName, queries }),
+    })
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      setError(data.error || 'Failed to save evaluation set.')
+      return
+    }
+    setSets(current => [{ ...data.evaluationSet, _count: { runs: 0 } }, ...current])
+    setSelectedSetId(data.evaluationSet.id)
+    setSetName('')
+  }
+
+  const deleteSet = async () => {
+    if (!selectedSetId || !confirm('Delete this evaluation set and its run history?')) {
+      return
+    }
+    const response = await fetch(`/api/evaluation-sets/${selectedSetId}`, { method: 'DELETE' })
+    if (!response.ok) {
+      setError('Failed to delete evaluation set.')
+      return
+    }
+    setSets(current => current.filter(set => set.id !== selectedSetId))
+    setSelectedSetId('')
+  }
+
+  const labelled = queries?.reduce((sum, query) => sum + query.relevance.filter(grade => grade > 0).length, 0) ?? 0
+
+  return (
+    <div className="mt-12 gradient-card rounded-2xl p-6 shadow-xl">
+      <h2 className="text-2xl font-bold text-forest-950 dark:text-cream-50 mb-1">
+        Evaluation
+      </h2>
+      <p className="text-sm text-forest-600 dark:text-cream-400 mb-4">
+        Grade passages from 0 (not relevant) to {MAX_RELEVANCE_GRADE} (highly relevant), here or with a
+        &quot;relevance&quot; column in the upload, then score the embedding, hybrid and rerank rankings.
+      </p>
+
+      {passages.length > 0 && (
+        <ol className="space-y-2 mb-4 max-h-80 overflow-y-auto pr-1">
+          {passages.map((passage, index) => (
+            <li key={index} className="flex items-center gap-3 text-sm">
+              <span className="w-8 tabular-nums text-forest-500 dark:text-cream-500">P{index + 1}</span>
+              <span className="flex-1 truncate text-forest-700 dark:text-cream-300" title={passage}>{passage}</span>
+              <span className="flex gap-1">
+                {GRADE_LABELS.map((label, grade) => (
+                  <button
+                    key={grade}
+                    type="button"
+                    title={label}
+                    onClick={() => onLabelChange(passage, grade)}
+                    className={`w-7 h-7 rounded-md text-xs font-semibold tabular-nums transition-colors ${
+                      (labels[passage] ?? 0) === grade
+                        ? grade > 0 ? 'bg-forest-600 text-cream-50' : 'bg-cream-300 dark:bg-forest-600 text-forest-900 dark:text-cream-100'
+                        : 'bg-cream-100 dark:bg-forest-800 text-forest-600 dark:text-cream-400 hover:bg-cream-200 dark:hover:bg-forest-700'
+                    }`}
+                  >
+                    {grade}
+                  </button>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-forest-700 dark:text-cream-300">
+        <label className="flex items-center gap-2">
+          K
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={k}
+            onChange={(e) => setK(Math.max(1, Math.min(100, Number(e.target.value) || 1)))}
+            className={`${inputClass} w-20`}
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => queries && evaluate({ queries })}
+          disabled={!queries || labelled === 0 || loading}
+          className={buttonClass}
+        >
+          {loading ? 'Evaluating…' : `Evaluate ${queries?.length ?? 0} ${queries?.length === 1 ? 'query' : 'queries'}`}
+        </button>
+        <span className="text-xs text-forest-500 dark:text-cream-500">{labelled} relevant labels</span>
+      </div>
+
+      {signedIn && (
+        <div className="mb-4 rounded-xl border border-cream-300 dark:border-forest-600 p-4 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              value={setName}
+              onChange={(e) => setSetName(e.target.value)}
+              placeholder="Evaluation set name"
+              maxLength={100}
+              className={`${inputClass} flex-1 min-w-[12rem]`}
+            />
+            <button type="button" onClick={saveSet} disabled={!setName.trim() || labelled === 0} className={buttonClass}>
+              Save labels as set
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={selectedSetId} onChange={(e) => setSelectedSetId(e.target.value)} className={`${inputClass} flex-1 min-w-[12rem]`}>
+              <option value="">Saved evaluation sets…</option>
+              {sets.map(set => (
+                <option key={set.id} value={set.id}>{set.name} ({set._count.runs} runs)</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => evaluate({ evaluationSetId: selectedSetId })}
+              disabled={!selectedSetId || loading}
+              className={buttonClass}
+            >
+              Run benchmark
+            </button>
+            {selectedSetId && (
+              <button type="button" onClick={deleteSet} className="px-2 text-sm text-red-700 dark:text-red-400 hover:underline">
+                Delete
+              </button>
+            )}
+          </div>
+
+          {history.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-left text-forest-700 dark:text-cream-300 border-b border-cream-300 dark:border-forest-600">
+                    <th className="py-1 pr-3">Run</th>
+                    <th className="py-1 pr-3">Model</th>
+                    {EVALUATED_RANKINGS.map(ranking => (
+                      <th key={ranking.id} className="py-1 pr-3 text-right">{ranking.label} nDCG</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.map((entry, index) => {
+                    const previous = history[index + 1]
+                    return (
+                      <tr key={entry.id} className="border-b border-cream-200 dark:border-forest-700">
+                        <td className="py-1 pr-3 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                        <td className="py-1 pr-3">{entry.model}@{entry.k}{entry.usedRealAPI ? '' : ' · mock'}</td>
+                        {EVALUATED_RANKINGS.map(ranking => {
+                          const value = entry.mean[ranking.id]?.ndcg
+                          const before = previous?.mean[ranking.id]?.ndcg
+                          const delta = value !== undefined && before !== undefined ? value - before : 0
+                          return (
+                            <td key={ranking.id} className="py-1 pr-3 text-right tabular-nums">
+                              {value === undefined ? '—' : value.toFixed(3)}
+                              {Math.abs(delta) >= 0.0005 && (
+                                <span className={`ml-1 ${delta > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                                  {delta > 0 ? '▲' : '▼'}{Math.abs(delta).toFixed(3)}
+                                </span>
+                              )}
+                            </td>
+                          )
+                        })}
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="mb-4 text-sm text-red-700 dark:text-red-400">{error}</p>}
+
+      {report && (
+        <>
+          <p className="mb-2 text-xs text-forest-500 dark:text-cream-500">
+            {report.model}{report.usedRealAPI ? '' : ' · mock vectors'}
+            {report.hybridMetric && report.hybridMetric !== report.metric && ` · hybrid ranks by ${report.hybridMetric}, not ${report.metric}`} · mean over {report.queries.filter(query => query.relevant > 0).length} labelled queries
+          </p>
+          <div className="overflow-x-auto mb-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-forest-700 dark:text-cream-300 border-b border-cream-300 dark:border-forest-600">
+                  <th className="py-2 pr-3">Ranking</th>
+                  {RETRIEVAL_METRICS.map(metric => (
+                    <th key={metric.id} className="py-2 pr-3 text-right">{metric.label(report.k)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {EVALUATED_RANKINGS.filter(ranking => report.mean[ranking.id]).map(ranking => (
+                  <tr key={ranking.id} className="border-b border-cream-200 dark:border-forest-700">
+                    <td className="py-2 pr-3 font-medium text-forest-900 dark:text-cream-100">{ranking.label}</td>
+                    {RETRIEVAL_METRICS.map(metric => {
+                      const value = report.mean[ranking.id]![metric.id]
+                      const best = Math.max(...EVALUATED_RANKINGS.map(other => report.mean[other.id]?.[metric.id] ?? -1))
+                      return (
+                        <td
+                          key={metric.id}
+                          className={`py-2 pr-3 text-right tabular-nums ${value === best ? 'font-semibold text-forest-900 dark:text-cream-100' : 'text-forest-600 dark:text-cream-400'}`}
+                        >
+                          {value.toFixed(3)}
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {report.queries.length > 1 && (
+            <details className="text-sm">
+              <summary className="cursor-pointer text-forest-700 dark:text-cream-300">nDCG@{report.k} per query</summary>
+              <table className="mt-2 w-full text-xs">
+                <tbody>
+                  {report.queries.map((query, index) => (
+                    <tr key={index} className="border-b border-cream-200 dark:border-forest-700">
+                      <td className="py-1 pr-3 max-w-[16rem] truncate text-forest-700 dark:text-cream-300" title={query.query}>{query.query}</td>
+                      {EVALUATED_RANKINGS.filter(ranking => report.mean[ranking.id]).map(ranking => (
+                        <td key={ranking.id} className="py-1 pr-3 text-right tabular-nums">
+                          {query.relevant > 0 ? query.metrics[ranking.id]?.ndcg.toFixed(3) : 'unlabelled'}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </details>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
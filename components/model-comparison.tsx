@@ -0,0 +1,136 @@
+'use client'
+
+import { getEmbeddingModelInfo } from '@/lib/embedding-providers/catalog'
+import type { ModelComparisonResult } from '@/lib/model-comparison'
+
+interface ModelComparisonProps {
+  result: ModelComparisonResult
+}
+
+const MAX_DISAGREEMENTS = 10
+
+// Green for strong agreement down to red for none; correlations below zero stay red
+function agreementClass(value: number): string {
+  if (value >= 0.8) return 'text-green-700 dark:text-green-400'
+  if (value >= 0.5) return 'text-amber-700 dark:text-amber-400'
+  return 'text-red-700 dark:text-red-400'
+}
+
+// Rankings from several models in parallel columns, with pairwise agreement and the
+// passages the models disagree on most
+export function ModelComparison({ result }: ModelComparisonProps) {
+  const { k, models, pairs, disagreements } = result
+  const label = (index: number) => getEmbeddingModelInfo(models[index].provider, models[index].model)?.label ?? models[index].model
+  const ranks = models.map(model => new Map(model.results.map((item, rank) => [item.index, rank + 1])))
+  const contested = new Set(disagreements.map(passage => passage.index))
+
+  return (
+    <div className="mt-12 gradient-card rounded-2xl p-6 shadow-xl">
+      <h2 className="text-2xl font-bold text-forest-950 dark:text-cream-50 mb-1">
+        Model Comparison
+      </h2>
+      <p className="text-sm text-forest-600 dark:text-cream-400 mb-6">
+        Correlations use every passage; overlap uses the top {k}. Highlighted passages are in some
+        models&apos; top {k} but not all of them.
+      </p>
+
+      <div className="overflow-x-auto mb-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-forest-700 dark:text-cream-300 border-b border-cream-300 dark:border-forest-600">
+              <th className="py-2 pr-3">Models</th>
+              <th className="py-2 pr-3 text-right">Spearman ρ</th>
+              <th className="py-2 pr-3 text-right">Kendall τ</th>
+              <th className="py-2 text-right">Overlap@{k}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pairs.map(pair => (
+              <tr key={`${pair.a}-${pair.b}`} className="border-b border-cream-200 dark:border-forest-700">
+                <td className="py-2 pr-3 text-forest-900 dark:text-cream-100">{label(pair.a)} vs {label(pair.b)}</td>
+                <td className={`py-2 pr-3 text-right tabular-nums ${agreementClass(pair.spearman)}`}>{pair.spearman.toFixed(3)}</td>
+                <td className={`py-2 pr-3 text-right tabular-nums ${agreementClass(pair.kendall)}`}>{pair.kendall.toFixed(3)}</td>
+                <td className={`py-2 text-right tabular-nums ${agreementClass(pair.overlap)}`}>{(pair.overlap * 100).toFixed(0)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid gap-4 mb-6" style={{ gridTemplateColumns: `repeat(${models.length}, minmax(0, 1fr))` }}>
+        {models.map((model, column) => (
+          <div key={`${model.provider}/${model.model}`} className="min-w-0">
+            <div className="mb-3">
+              <div className="font-semibold text-forest-900 dark:text-cream-100 truncate">{label(column)}</div>
+              <div className="text-xs text-forest-500 dark:text-cream-500">
+                {model.provider}{!model.usedRealAPI && ' · mock'}
+              </div>
+            </div>
+            <ol className="space-y-2">
+              {model.results.slice(0, k).map((item, rank) => {
+                const elsewhere = ranks.filter((_, other) => other !== column).map(other => other.get(item.index)!)
+                return (
+                  <li
+                    key={item.index}
+                    title={item.text}
+                    className={`rounded-lg border p-2 text-xs ${
+                      contested.has(item.index)
+                        ? 'border-amber-400 dark:border-amber-600 bg-amber-50 dark:bg-amber-900/20'
+                        : 'border-cream-300 dark:border-forest-600 bg-cream-50/80 dark:bg-forest-800/80'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-forest-800 dark:text-cream-200">#{rank + 1} · P{item.index + 1}</span>
+                      <span className="text-forest-600 dark:text-cream-400 tabular-nums">{item.similarity.toFixed(3)}</span>
+                    </div>
+                    <p className="mt-1 truncate text-forest-600 dark:text-cream-400">{item.text}</p>
+                    <p className="mt-1 text-forest-500 dark:text-cream-500">Elsewhere: {elsewhere.map(other => `#${other}`).join(', ')}</p>
+                  </li>
+                )
+              })}
+            </ol>
+          </div>
+        ))}
+      </div>
+
+      {disagreements.length > 0 && (
+        <>
+          <h3 className="text-lg font-semibold text-forest-900 dark:text-cream-100 mb-2">Biggest disagreements</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-forest-700 dark:text-cream-300 border-b border-cream-300 dark:border-forest-600">
+                  <th className="py-2 pr-3">Passage</th>
+                  {models.map((_, column) => (
+                    <th key={column} className="py-2 pr-3 text-right truncate max-w-[8rem]">{label(column)}</th>
+                  ))}
+                  <th className="py-2 text-right">Spread</th>
+                </tr>
+              </thead>
+              <tbody>
+                {disagreements.slice(0, MAX_DISAGREEMENTS).map(passage => (
+                  <tr key={passage.index} className="border-b border-cream-200 dark:border-forest-700">
+                    <td className="py-2 pr-3 max-w-[16rem] truncate text-forest-700 dark:text-cream-300" title={passage.text}>
+                      P{passage.index + 1} · {passage.text}
+                    </td>
+                    {passage.ranks.map((rank, column) => (
+                      <td
+                        key={column}
+                        className={`py-2 pr-3 text-right tabular-nums ${
+                          passage.inTopK[column] ? 'font-semibold text-forest-900 dark:text-cream-100' : 'text-forest-500 dark:text-cream-500'
+                        }`}
+                      >
+                        #{rank}
+                      </td>
+                    ))}
+                    <td className="py-2 text-right tabular-nums text-amber-700 dark:text-amber-400">{passage.spread}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import type { ClusteringResult } from '@/lib/clustering'
+
+interface PassageClustersProps {
+  result: ClusteringResult
+  passages: string[] // in request order; cluster members index into this
+}
+
+const METHOD_LABELS: Record<ClusteringResult['method'], string> = {
+  agglomerative: 'Agglomerative',
+  kmeans: 'K-means',
+}
+
+// Passages grouped into labeled clusters, most query-relevant cluster first, with
+// near-duplicate groups listed separately
+export function PassageClusters({ result, passages }: PassageClustersProps) {
+  const { clusters, duplicates } = result
+
+  return (
+    <div className="mt-12 gradient-card rounded-2xl p-6 shadow-xl">
+      <h2 className="text-2xl font-bold text-forest-950 dark:text-cream-50 mb-1">
+        Passage Clusters
+      </h2>
+      <p className="text-sm text-forest-600 dark:text-cream-400 mb-6">
+        {METHOD_LABELS[result.method]} found {result.k} {result.k === 1 ? 'cluster' : 'clusters'}
+        {result.silhouette !== null && ` (silhouette ${result.silhouette.toFixed(3)})`}.
+        Clusters are ordered by average similarity to the query.
+      </p>
+
+      <div className="space-y-4">
+        {clusters.map(cluster => (
+          <div
+            key={cluster.id}
+            className="rounded-xl border border-cream-300 dark:border-forest-600 bg-cream-50/80 dark:bg-forest-800/80 p-4"
+          >
+            <div className="flex flex-wrap items-baseline justify-between gap-2 mb-2">
+              <h3 className="font-semibold text-forest-900 dark:text-cream-100">
+                Cluster {cluster.id}
+                {cluster.keywords.length > 0 && (
+                  <span className="ml-2 font-normal text-amber-700 dark:text-amber-400">
+                    {cluster.keywords.join(' · ')}
+                  </span>
+                )}
+              </h3>
+              <span className="text-xs text-forest-600 dark:text-cream-400 tabular-nums">
+                {cluster.members.length} {cluster.members.length === 1 ? 'passage' : 'passages'} ·
+                query similarity {cluster.averageQuerySimilarity.toFixed(3)} ·
+                cohesion {cluster.cohesion.toFixed(3)}
+              </span>
+            </div>
+
+            <p className="text-sm text-forest-800 dark:text-cream-200 border-l-4 border-forest-600 pl-3 mb-2">
+              <span className="font-medium">P{cluster.centroidIndex + 1} (centroid):</span> {passages[cluster.centroidIndex]}
+            </p>
+
+            {cluster.members.length > 1 && (
+              <ul className="space-y-1">
+                {cluster.members
+                  .filter(index => index !== cluster.centroidIndex)
+                  .map(index => (
+                    <li key={index} className="truncate text-xs text-forest-600 dark:text-cream-400">
+                      P{index + 1}: {passages[index]}
+                    </li>
+                  ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <h3 className="mt-6 mb-2 font-semibold text-forest-900 dark:text-cream-100">
+        Near-duplicate groups ({duplicates.length})
+      </h3>
+      {duplicates.length === 0 ? (
+        <p className="text-sm text-forest-500 dark:text-cream-500">No passages are similar enough to count as duplicates.</p>
+      ) : (
+        <ul className="space-y-2">
+          {duplicates.map(group => (
+            <li
+              key={group.members.join('-')}
+              className="rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50/80 dark:bg-amber-900/20 p-2 text-xs"
+            >
+              <div className="font-medium text-forest-800 dark:text-cream-200">
+                {group.members.map(index => `P${index + 1}`).join(' ≈ ')} · min similarity {group.minSimilarity.toFixed(3)}
+              </div>
+              {group.members.map(index => (
+                <p key={index} className="truncate text-forest-600 dark:text-cream-400">P{index + 1}: {passages[index]}</p>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
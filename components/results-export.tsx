@@ -0,0 +1,54 @@
+'use client'
+
+import Papa from 'papaparse'
+import * as XLSX from 'xlsx'
+import { ExportRow, ExportVectors, downloadFile } from '@/lib/export'
+
+interface ResultsExportProps {
+  rows: ExportRow[]
+  fileBase: string // download name without extension
+  vectors?: ExportVectors | null // the run's own vectors, when it was asked to keep them
+}
+
+// CSV, XLSX and JSON downloads of the displayed ranking. Only JSON carries raw vectors, and only
+// when the search kept them, since they are too large to send with every search.
+export function ResultsExport({ rows, fileBase, vectors = null }: ResultsExportProps) {
+  const exportJson = () => {
+    const payload = { exportedAt: new Date().toISOString(), rows, vectors }
+    downloadFile(`${fileBase}.json`, JSON.stringify(payload, null, 2), 'application/json')
+  }
+
+  const buttonClass = 'px-3 py-1.5 rounded-lg text-xs font-medium bg-cream-200 dark:bg-forest-700 text-forest-700 dark:text-cream-300 hover:bg-cream-300 dark:hover:bg-forest-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors'
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-2 mb-4">
+      <span className="text-xs text-forest-500 dark:text-cream-500">Export {rows.length} rows:</span>
+      <button
+        type="button"
+        onClick={() => downloadFile(`${fileBase}.csv`, Papa.unparse(rows), 'text/csv;charset=utf-8')}
+        className={buttonClass}
+      >
+        CSV
+      </button>
+      <button
+        type="button"
+        onClick={() => {
+          const workbook = XLSX.utils.book_new()
+          XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(rows), 'Results')
+          XLSX.writeFile(workbook, `${fileBase}.xlsx`)
+        }}
+        className={buttonClass}
+      >
+        XLSX
+      </button>
+      <button
+        type="button"
+        onClick={exportJson}
+        title={vectors ? 'Includes the query and passage vectors' : 'Turn on keeping vectors and re-run the search to include them'}
+        className={buttonClass}
+      >
+        JSON
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+'use client'
+
+import type { RunDiff, RunDiffEntry } from '@/lib/run-diff'
+
+interface RunDiffViewProps {
+  diff: RunDiff
+  onClose: () => void
+}
+
+function formatScore(score: number | null): string {
+  return score === null ? '—' : score.toFixed(3)
+}
+
+// Arrow for the rank movement, in the style of the output-size comparison
+function Movement({ entry, topK }: { entry: RunDiffEntry; topK: number }) {
+  if (entry.status === 'entered') {
+    return (
+      <span className="text-green-600 dark:text-green-400" title={`Entered the top ${topK}`}>
+        {entry.rankDelta !== null ? `▲${entry.rankDelta}` : '▲'} in
+      </span>
+    )
+  }
+  if (entry.status === 'left') {
+    return (
+      <span className="text-red-600 dark:text-red-400" title={`Left the top ${topK}`}>
+        {entry.rankDelta !== null ? `▼${-entry.rankDelta}` : '▼'} out
+      </span>
+    )
+  }
+  if (entry.rankDelta === null || entry.rankDelta === 0) {
+    return <span className="text-forest-400 dark:text-cream-600">–</span>
+  }
+  return (
+    <span className={entry.rankDelta > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}>
+      {entry.rankDelta > 0 ? `▲${entry.rankDelta}` : `▼${-entry.rankDelta}`}
+    </span>
+  )
+}
+
+// Rank and score changes between two saved runs, with what differs between them
+export function RunDiffView({ diff, onClose }: RunDiffViewProps) {
+  const { base, compare, changes, summary, topK } = diff
+  const changeNotes = [
+    changes.query && 'query edited',
+    changes.provider && `provider ${base.provider} → ${compare.provider}`,
+    changes.model && `model ${base.model} → ${compare.model}`,
+    changes.parameters.length > 0 && `settings changed: ${changes.parameters.join(', ')}`,
+    changes.passagesAdded > 0 && `${changes.passagesAdded} passages added or edited`,
+    changes.passagesRemoved > 0 && `${changes.passagesRemoved} passages removed or edited`,
+  ].filter(Boolean)
+
+  return (
+    <div className="mt-12 gradient-card rounded-2xl p-6 shadow-xl">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h2 className="text-2xl font-bold text-forest-950 dark:text-cream-50 mb-1">
+            Run Comparison
+          </h2>
+          <p className="text-sm text-forest-600 dark:text-cream-400">
+            {new Date(base.createdAt).toLocaleString()} ({base.model}) → {new Date(compare.createdAt).toLocaleString()} ({compare.model}).
+            Arrows show rank movement; entered and left are relative to the top {topK}.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-sm text-forest-600 dark:text-cream-400 hover:text-forest-900 dark:hover:text-cream-100"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4 text-xs">
+        <span className="px-2 py-1 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300">{summary.entered} entered</span>
+        <span className="px-2 py-1 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300">{summary.left} left</span>
+        <span className="px-2 py-1 rounded-lg bg-cream-100 dark:bg-forest-800 text-forest-700 dark:text-cream-300">{summary.moved} moved</span>
+        <span className="px-2 py-1 rounded-lg bg-cream-100 dark:bg-forest-800 text-forest-700 dark:text-cream-300">{summary.unchanged} unchanged</span>
+      </div>
+
+      <p className="mb-4 text-sm text-forest-700 dark:text-cream-300">
+        {changeNotes.length ? `Between the runs: ${changeNotes.join('; ')}.` : 'The two runs used the same query, passages and settings.'}
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-forest-700 dark:text-cream-300 border-b border-cream-300 dark:border-forest-600">
+              <th className="py-2 pr-3">Change</th>
+              <th className="py-2 pr-3 text-right">Rank</th>
+              <th className="py-2 pr-3 text-right">Score</th>
+              <th className="py-2 pr-3 text-right">Δ score</th>
+              <th className="py-2">Passage</th>
+            </tr>
+          </thead>
+          <tbody>
+            {diff.entries.map(entry => (
+              <tr key={entry.hash} className="border-b border-cream-200 dark:border-forest-700">
+                <td className="py-2 pr-3 whitespace-nowrap text-xs font-medium">
+                  <Movement entry={entry} topK={topK} />
+                </td>
+                <td className="py-2 pr-3 text-right tabular-nums whitespace-nowrap">
+                  {entry.baseRank ?? '—'} → {entry.compareRank ?? '—'}
+                </td>
+                <td className="py-2 pr-3 text-right tabular-nums whitespace-nowrap">
+                  {formatScore(entry.baseScore)} → {formatScore(entry.compareScore)}
+                </td>
+                <td className={`py-2 pr-3 text-right tabular-nums ${
+                  entry.scoreDelta === null || entry.scoreDelta === 0
+                    ? 'text-forest-500 dark:text-cream-500'
+                    : entry.scoreDelta > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+                }`}>
+                  {entry.scoreDelta === null ? '—' : `${entry.scoreDelta > 0 ? '+' : ''}${entry.scoreDelta.toFixed(3)}`}
+                </td>
+                <td className="py-2 max-w-[20rem] truncate text-forest-700 dark:text-cream-300" title={entry.text}>
+                  {!entry.inBaseSet && <span className="mr-1 text-xs font-semibold text-amber-700 dark:text-amber-400">new</span>}
+                  {!entry.inCompareSet && <span className="mr-1 text-xs font-semibold text-red-700 dark:text-red-400">removed</span>}
+                  {entry.text}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
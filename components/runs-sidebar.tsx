@@ -0,0 +1,256 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { ProjectSummary, RunSummary, SavedRun } from '@/types'
+import type { RunDiff } from '@/lib/run-diff'
+
+interface RunsSidebarProps {
+  projectId: string | null // runs are saved to this project; null saves nothing
+  onProjectChange: (projectId: string | null) => void
+  refreshKey: number // bumped by the page after it saves a run
+  busy: boolean // disables Open and Re-run while a request is in flight
+  onOpen: (run: SavedRun) => void
+  onRerun: (run: SavedRun) => void
+  onDiff: (diff: RunDiff) => void
+}
+
+const inputClass = 'w-full px-3 py-2 rounded-lg text-sm bg-cream-50 dark:bg-forest-700 border border-cream-300 dark:border-forest-600 text-forest-900 dark:text-cream-100'
+
+// Drawer listing the signed-in user's projects and the recent runs of the selected one
+export function RunsSidebar({ projectId, onProjectChange, refreshKey, busy, onOpen, onRerun, onDiff }: RunsSidebarProps) {
+  const [open, setOpen] = useState(false)
+  const [projects, setProjects] = useState<ProjectSummary[]>([])
+  const [runs, setRuns] = useState<RunSummary[]>([])
+  // Up to two run ids picked for comparison
+  const [selected, setSelected] = useState<string[]>([])
+  const [newProjectName, setNewProjectName] = useState('')
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    fetch('/api/projects')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error('Failed to load projects')))
+      .then(data => setProjects(data.projects))
+      .catch(() => setError('Failed to load projects.'))
+  }, [refreshKey])
+
+  useEffect(() => {
+    setSelected([])
+  }, [projectId])
+
+  useEffect(() => {
+    if (!projectId) {
+      setRuns([])
+      return
+    }
+    fetch(`/api/projects/${projectId}/runs`)
+      .then(response => response.ok ? response.json() : Promise.reject(new Error('Failed to load runs')))
+      .then(data => setRuns(data.runs))
+      .catch(() => setError('Failed to load runs.'))
+  }, [projectId, refreshKey])
+
+  const createProject = async () => {
+    setError('')
+    const response = await fetch('/api/projects', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: newProjectName }),
+    })
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      setError(data.error || 'Failed to create project.')
+      return
+    }
+    setProjects(current => [{ ...data.project, _count: { runs: 0, passageSets: 0, queries: 0 } }, ...current])
+    setNewProjectName('')
+    onProjectChange(data.project.id)
+  }
+
+  const deleteProject = async () => {
+    if (!projectId || !confirm('Delete this project and all of its saved runs?')) {
+      return
+    }
+    const response = await fetch(`/api/projects/${projectId}`, { method: 'DELETE' })
+    if (!response.ok) {
+      setError('Failed to delete project.')
+      return
+    }
+    setProjects(current => current.filter(project => project.id !== projectId))
+    onProjectChange(null)
+  }
+
+  // Open and Re-run need the full run: parameters, results and passages
+  const loadRun = async (runId: string, then: (run: SavedRun) => void) => {
+    setError('')
+    const response = await fetch(`/api/projects/${projectId}/runs/${runId}`)
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      setError(data.error || 'Failed to load run.')
+      return
+    }
+    then(data.run)
+  }
+
+  const toggleSelected = (runId: string) => {
+    setSelected(current =>
+      current.includes(runId) ? current.filter(id => id !== runId) : [...current, runId].slice(-2)
+    )
+  }
+
+  // The older of the two runs is the base, so arrows point the way the ranking moved over time
+  const compareSelected = async () => {
+    setError('')
+    const [compareId, baseId] = runs.filter(run => selected.includes(run.id)).map(run => run.id)
+    const response = await fetch(`/api/projects/${projectId}/runs/diff?base=${baseId}&compare=${compareId}`)
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      setError(data.error || 'Failed to compare runs.')
+      return
+    }
+    onDiff(data.diff)
+  }
+
+  const deleteRun = async (runId: string) => {
+    const response = await fetch(`/api/projects/${projectId}/runs/${runId}`, { method: 'DELETE' })
+    if (!response.ok) {
+      setError('Failed to delete run.')
+      return
+    }
+    setRuns(current => current.filter(run => run.id !== runId))
+    setSelected(current => current.filter(id => id !== runId))
+  }
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="fixed right-0 top-1/3 z-40 rounded-l-lg px-2 py-3 text-sm font-medium bg-forest-700 text-cream-50 shadow-lg hover:bg-forest-800 [writing-mode:vertical-rl]"
+      >
+        Recent runs
+      </button>
+    )
+  }
+
+  return (
+    <aside className="fixed right-0 top-0 z-40 h-full w-80 overflow-y-auto border-l border-cream-300 dark:border-forest-700 bg-cream-50 dark:bg-forest-900 p-4 shadow-2xl">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-forest-900 dark:text-cream-100">Projects</h2>
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="text-sm text-forest-600 dark:text-cream-400 hover:text-forest-900 dark:hover:text-cream-100"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        <div className="flex gap-2">
+          <select
+            value={projectId ?? ''}
+            onChange={(e) => onProjectChange(e.target.value || null)}
+            className={inputClass}
+          >
+            <option value="">Don&apos;t save runs</option>
+            {projects.map(project => (
+              <option key={project.id} value={project.id}>
+                {project.name} ({project._count.runs})
+              </option>
+            ))}
+          </select>
+          {projectId && (
+            <button
+              type="button"
+              onClick={deleteProject}
+              className="px-2 text-sm text-red-700 dark:text-red-400 hover:underline"
+            >
+              Delete
+            </button>
+          )}
+        </div>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            createProject()
+          }}
+          className="flex gap-2"
+        >
+          <input
+            value={newProjectName}
+            onChange={(e) => setNewProjectName(e.target.value)}
+            placeholder="New project name"
+            maxLength={100}
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={!newProjectName.trim()}
+            className="px-3 py-2 rounded-lg text-sm font-medium bg-amber-700 text-cream-50 hover:bg-amber-800 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Create
+          </button>
+        </form>
+        <p className="text-xs text-forest-600 dark:text-cream-400">
+          Searches are saved to the selected project with their provider, model and settings.
+        </p>
+      </div>
+
+      {error && <p className="mb-3 text-sm text-red-700 dark:text-red-400">{error}</p>}
+
+      {projectId && (
+        <>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-forest-800 dark:text-cream-200">Recent runs</h3>
+            <button
+              type="button"
+              onClick={compareSelected}
+              disabled={selected.length !== 2}
+              title="Tick two runs to compare them"
+              className="px-2 py-1 rounded-lg text-xs font-medium bg-amber-700 text-cream-50 hover:bg-amber-800 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Compare {selected.length}/2
+            </button>
+          </div>
+          {runs.length === 0 ? (
+            <p className="text-sm text-forest-600 dark:text-cream-400">No runs yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {runs.map(run => (
+                <li key={run.id} className="rounded-lg border border-cream-300 dark:border-forest-700 p-3 text-sm">
+                  <label className="flex items-start gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(run.id)}
+                      onChange={() => toggleSelected(run.id)}
+                      className="mt-1"
+                    />
+                    <span className="min-w-0 font-medium text-forest-900 dark:text-cream-100 truncate" title={run.query.text}>
+                      {run.query.text}
+                    </span>
+                  </label>
+                  <p className="text-xs text-forest-600 dark:text-cream-400 truncate" title={run.passageSet.name}>
+                    {run.passageSet.name}
+                  </p>
+                  <p className="text-xs text-forest-500 dark:text-cream-500">
+                    {run.provider} · {run.model}{run.usedRealAPI ? '' : ' · mock'} · {new Date(run.createdAt).toLocaleString()}
+                  </p>
+                  <div className="mt-2 flex gap-3 text-xs font-medium">
+                    <button type="button" disabled={busy} onClick={() => loadRun(run.id, onOpen)} className="text-forest-700 dark:text-cream-300 hover:underline disabled:opacity-50">
+                      Open
+                    </button>
+                    <button type="button" disabled={busy} onClick={() => loadRun(run.id, onRerun)} className="text-amber-700 dark:text-amber-400 hover:underline disabled:opacity-50">
+                      Re-run
+                    </button>
+                    <button type="button" onClick={() => deleteRun(run.id)} className="ml-auto text-red-700 dark:text-red-400 hover:underline">
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </aside>
+  )
+}
@@ -0,0 +1,213 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+
+interface SimilarityHeatmapProps {
+  matrix: number[][] // cosine; row and column 0 are the query
+  texts: string[] // query first, then passages, in matrix order
+}
+
+// Original order, by similarity to the query, by each passage's strongest overlap
+// with another passage, or by similarity to one chosen row
+type RowOrder = 'original' | 'query' | 'overlap' | { row: number }
+
+const MAX_CANVAS_SIZE = 640
+const MAX_PAIRS = 25
+
+const label = (index: number) => (index === 0 ? 'Query' : `P${index}`)
+
+// Light cream for weak similarity through deep forest green for identical
+function cellColor(unit: number): string {
+  return `hsl(150, ${35 + unit * 30}%, ${94 - unit * 66}%)`
+}
+
+// Interactive N×N heatmap for spotting passages that compete for the same query
+export function SimilarityHeatmap({ matrix, texts }: SimilarityHeatmapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [order, setOrder] = useState<RowOrder>('original')
+  const [threshold, setThreshold] = useState(0.8)
+  const [hover, setHover] = useState<{ row: number; col: number; x: number; y: number } | null>(null)
+
+  const size = matrix.length
+  const cell = Math.max(2, Math.min(28, Math.floor(MAX_CANVAS_SIZE / size)))
+
+  // Colours span the off-diagonal range, so small differences between passages stay visible
+  const [low, high] = useMemo(() => {
+    let min = Infinity
+    let max = -Infinity
+    matrix.forEach((row, i) => row.forEach((value, j) => {
+      if (i !== j) {
+        min = Math.min(min, value)
+        max = Math.max(max, value)
+      }
+    }))
+    return Number.isFinite(min) ? [min, max] : [0, 1]
+  }, [matrix])
+
+  // Passages are reordered on both axes so the diagonal stays intact; the query stays first
+  const permutation = useMemo(() => {
+    const passages = Array.from({ length: size - 1 }, (_, i) => i + 1)
+    const strongestOverlap = (i: number) => Math.max(...matrix[i].filter((_, j) => j !== i && j !== 0))
+    const key = order === 'original'
+      ? (i: number) => -i
+      : order === 'query'
+        ? (i: number) => matrix[0][i]
+        : order === 'overlap'
+          ? strongestOverlap
+          : (i: number) => (i === order.row ? Infinity : matrix[order.row][i])
+    return [0, ...passages.sort((a, b) => key(b) - key(a))]
+  }, [matrix, order, size])
+
+  const pairs = useMemo(() => {
+    const found: { a: number; b: number; value: number }[] = []
+    for (let a = 1; a < size; a++) {
+      for (let b = a + 1; b < size; b++) {
+        if (matrix[a][b] >= threshold) {
+          found.push({ a, b, value: matrix[a][b] })
+        }
+      }
+    }
+    return found.sort((x, y) => y.value - x.value)
+  }, [matrix, size, threshold])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !context) {
+      return
+    }
+
+    const ratio = window.devicePixelRatio || 1
+    canvas.width = size * cell * ratio
+    canvas.height = size * cell * ratio
+    context.scale(ratio, ratio)
+
+    permutation.forEach((row, y) => {
+      permutation.forEach((col, x) => {
+        const value = matrix[row][col]
+        const unit = high > low ? Math.max(0, Math.min(1, (value - low) / (high - low))) : 1
+        context.fillStyle = row !== col && value < threshold ? '#e5e7eb' : cellColor(unit)
+        context.fillRect(x * cell, y * cell, cell, cell)
+      })
+    })
+
+    // Separate the query row and column from the passages
+    context.strokeStyle = '#b45309'
+    context.lineWidth = 1
+    context.strokeRect(0, 0, size * cell, cell)
+    context.strokeRect(0, 0, cell, size * cell)
+  }, [matrix, permutation, size, cell, threshold, low, high])
+
+  const cellAt = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    const x = Math.floor((event.clientX - bounds.left) / cell)
+    const y = Math.floor((event.clientY - bounds.top) / cell)
+    if (x < 0 || y < 0 || x >= size || y >= size) {
+      return null
+    }
+    return { row: permutation[y], col: permutation[x], x: event.clientX - bounds.left, y: event.clientY - bounds.top }
+  }
+
+  const snippet = (index: number) => (texts[index].length > 80 ? `${texts[index].slice(0, 80)}…` : texts[index])
+
+  return (
+    <div className="mt-12 gradient-card rounded-2xl p-6 shadow-xl">
+      <h2 className="text-2xl font-bold text-forest-950 dark:text-cream-50 mb-1">
+        Similarity Matrix
+      </h2>
+      <p className="text-sm text-forest-600 dark:text-cream-400 mb-4">
+        Cosine similarity between every pair of passages, with the query in the first row and column.
+        Click a cell to sort by its row.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-forest-700 dark:text-cream-300">
+        <label className="flex items-center gap-2">
+          Sort rows by
+          <select
+            value={typeof order === 'object' ? 'row' : order}
+            onChange={(e) => {
+              if (e.target.value !== 'row') {
+                setOrder(e.target.value as Exclude<RowOrder, object>)
+              }
+            }}
+            className="px-3 py-2 rounded-lg text-sm bg-cream-50 dark:bg-forest-700 border border-cream-300 dark:border-forest-600 text-forest-900 dark:text-cream-100"
+          >
+            <option value="original">Original order</option>
+            <option value="query">Similarity to query</option>
+            <option value="overlap">Strongest overlap</option>
+            {typeof order === 'object' && <option value="row">Similarity to {label(order.row)}</option>}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Hide below
+          <input
+            type="range"
+            min={-1}
+            max={1}
+            step={0.01}
+            value={threshold}
+            onChange={(e) => setThreshold(Number(e.target.value))}
+          />
+          <span className="w-12 tabular-nums">{threshold.toFixed(2)}</span>
+        </label>
+      </div>
+
+      <div className="relative overflow-auto">
+        <canvas
+          ref={canvasRef}
+          style={{ width: size * cell, height: size * cell }}
+          className="cursor-crosshair"
+          onMouseMove={(event) => setHover(cellAt(event))}
+          onMouseLeave={() => setHover(null)}
+          onClick={(event) => {
+            const target = cellAt(event)
+            if (target) {
+              setOrder(target.row === 0 ? 'query' : { row: target.row })
+            }
+          }}
+        />
+        {hover && (
+          <div
+            className="pointer-events-none absolute z-10 max-w-xs rounded-lg border border-cream-300 dark:border-forest-600 bg-cream-50 dark:bg-forest-800 p-2 text-xs shadow-lg"
+            style={{ left: hover.x + 12, top: hover.y + 12 }}
+          >
+            <div className="font-semibold text-forest-900 dark:text-cream-100">
+              {label(hover.row)} × {label(hover.col)}: {matrix[hover.row][hover.col].toFixed(3)}
+            </div>
+            <p className="mt-1 text-forest-600 dark:text-cream-400">{label(hover.row)}: {snippet(hover.row)}</p>
+            {hover.col !== hover.row && (
+              <p className="mt-1 text-forest-600 dark:text-cream-400">{label(hover.col)}: {snippet(hover.col)}</p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <h3 className="mt-6 mb-2 font-semibold text-forest-900 dark:text-cream-100">
+        Passage pairs at or above {threshold.toFixed(2)} ({pairs.length})
+      </h3>
+      {pairs.length === 0 ? (
+        <p className="text-sm text-forest-500 dark:text-cream-500">No passages overlap this strongly.</p>
+      ) : (
+        <ul className="space-y-2">
+          {pairs.slice(0, MAX_PAIRS).map(({ a, b, value }) => (
+            <li
+              key={`${a}-${b}`}
+              className="rounded-lg border border-cream-300 dark:border-forest-600 bg-cream-50/80 dark:bg-forest-800/80 p-2 text-xs"
+            >
+              <div className="font-medium text-forest-800 dark:text-cream-200">
+                {label(a)} ↔ {label(b)} · {value.toFixed(3)}
+              </div>
+              <p className="truncate text-forest-600 dark:text-cream-400">{label(a)}: {texts[a]}</p>
+              <p className="truncate text-forest-600 dark:text-cream-400">{label(b)}: {texts[b]}</p>
+            </li>
+          ))}
+          {pairs.length > MAX_PAIRS && (
+            <li className="text-xs text-forest-500 dark:text-cream-500">
+              {pairs.length - MAX_PAIRS} more; raise the threshold to narrow the list.
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
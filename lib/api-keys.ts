@@ -1,25 +1,139 @@
+import { lookup } from 'dns/promises'
+import { isIP } from 'net'
 import { prisma } from './prisma'
 import { decrypt } from './encryption'
+import { OPENAI_COMPATIBLE_PROVIDER } from './embedding-providers/catalog'
+
+// Maps each embedding provider to the encrypted column holding the user's key
+export const API_KEY_FIELDS = {
+  google: 'googleApiKey',
+  openai: 'openaiApiKey',
+  cohere: 'cohereApiKey',
+  voyage: 'voyageApiKey',
+  [OPENAI_COMPATIBLE_PROVIDER]: 'customEmbeddingApiKey',
+} as const
+
+export type StoredKeyProvider = keyof typeof API_KEY_FIELDS
+
+export interface ProviderCredentials {
+  apiKey: string | null
+  baseURL?: string
+  model?: string
+}
+
+export function isStoredKeyProvider(provider: unknown): provider is StoredKeyProvider {
+  return typeof provider === 'string' && provider in API_KEY_FIELDS
+}
+
+function decryptKey(encryptedKey: string | null): string | null {
+  if (!encryptedKey) return null
+
+  try {
+    return decrypt(encryptedKey)
+  } catch (error) {
+    console.error('Error decrypting API key:', error)
+    return null
+  }
+}
+
+// Loopback, private (RFC 1918, CGNAT, ULA), link-local and unspecified addresses,
+// including IPv4 addresses mapped into IPv6
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 6) {
+    const ipv6 = address.toLowerCase()
+    const mapped = ipv6.match(/^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/)
+    if (mapped) {
+      const ipv4 = mapped[1] ?? [mapped[2], mapped[3]]
+        .map(group => parseInt(group, 16))
+        .flatMap(value => [value >> 8, value & 255])
+        .join('.')
+      return isPrivateAddress(ipv4)
+    }
+    return ipv6 === '::' || ipv6 === '::1' || /^f[cd]/.test(ipv6) || /^fe[89ab]/.test(ipv6)
+  }
+
+  const [a, b] = address.split('.').map(Number)
+  return a === 0 || a === 10 || a === 127
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+}
+
+// Saved base URLs are fetched by the server on the user's behalf, so they must resolve to public
+// addresses only. Deployments that set ALLOW_CLIENT_BASE_URLS=true (a local install next to
+// Ollama, say) trust their users with any http(s) URL, as the legacy routes do.
+export async function isAllowedBaseUrl(baseUrl: unknown): Promise<boolean> {
+  if (typeof baseUrl !== 'string') return false
+
+  let url: URL
+  try {
+    url = new URL(baseUrl)
+  } catch {
+    return false
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return false
+  if (process.env.ALLOW_CLIENT_BASE_URLS === 'true') return true
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) return false
+
+  try {
+    const addresses = isIP(host) ? [{ address: host }] : await lookup(host, { all: true })
+    return addresses.length > 0 && addresses.every(({ address }) => !isPrivateAddress(address))
+  } catch {
+    return false
+  }
+}
 
 // Helper function to get decrypted API key for internal use
-export async function getUserApiKey(email: string, provider: 'google' | 'openai'): Promise<string | null> {
+export async function getUserApiKey(email: string, provider: string): Promise<string | null> {
+  const credentials = await getUserProviderCredentials(email, provider)
+  return credentials?.apiKey ?? null
+}
+
+// Everything needed to call a provider on the user's behalf, or null if nothing is configured.
+// Self-hosted endpoints are usable without a key as long as a base URL was saved.
+export async function getUserProviderCredentials(email: string, provider: string): Promise<ProviderCredentials | null> {
+  if (!isStoredKeyProvider(provider)) return null
+
+  if (provider === OPENAI_COMPATIBLE_PROVIDER) {
+    const user = await prisma.user.findUnique({
+      where: { email },
+      select: {
+        customEmbeddingApiKey: true,
+        customEmbeddingBaseUrl: true,
+        customEmbeddingModel: true,
+      }
+    })
+
+    if (!user?.customEmbeddingBaseUrl) return null
+
+    // Checked again on use: the host may resolve differently than when it was saved
+    if (!(await isAllowedBaseUrl(user.customEmbeddingBaseUrl))) {
+      console.warn('⚠️ Saved self-hosted base URL no longer points at a public host; ignoring it')
+      return null
+    }
+
+    return {
+      apiKey: decryptKey(user.customEmbeddingApiKey),
+      baseURL: user.customEmbeddingBaseUrl,
+      model: user.customEmbeddingModel ?? undefined,
+    }
+  }
+
   const user = await prisma.user.findUnique({
     where: { email },
     select: {
       googleApiKey: true,
       openaiApiKey: true,
+      cohereApiKey: true,
+      voyageApiKey: true,
     }
   })
 
   if (!user) return null
 
-  const encryptedKey = provider === 'google' ? user.googleApiKey : user.openaiApiKey
-  if (!encryptedKey) return null
-
-  try {
-    return decrypt(encryptedKey)
-  } catch (error) {
-    console.error('Error decrypting API key:', error)
-    return null
-  }
+  const apiKey = decryptKey(user[API_KEY_FIELDS[provider]])
+  return apiKey ? { apiKey } : null
 }
@@ -0,0 +1,104 @@
+import type { SimilarityResult } from './embeddings';
+import type { SimilarityMetric } from './vector-math';
+
+// Multi-query batches from uploaded spreadsheets: rows are grouped by query, each
+// group is scored against its own passages, and the scores are written back onto the
+// original rows. Pure helpers shared by the batch routes and the page.
+
+export const MAX_BATCH_QUERIES = 200;
+export const MAX_BATCH_ROWS = 5000;
+// Per-query limit, matching the single-query form
+export const MAX_BATCH_PASSAGES = 500;
+
+export interface BatchRow {
+  query: string; // blank when the spreadsheet only writes the query on its first row
+  passage: string;
+  row: number; // index of the source row in the upload
+  relevance?: number; // graded label from the upload's relevance column, if it has one
+}
+
+export interface BatchGroup {
+  query: string;
+  passages: string[];
+  rows: number[]; // rows[i] is the source row of passages[i]
+  relevance?: number[]; // relevance[i] grades passages[i]; present when the upload has a relevance column
+}
+
+export interface BatchQuery {
+  query: string;
+  passages: string[];
+}
+
+export interface BatchQueryResult {
+  queryIndex: number;
+  query: string;
+  results: SimilarityResult[]; // every passage, best first
+}
+
+// Streamed as newline-delimited JSON, one event per line
+export type BatchEvent =
+  | ({ type: 'result'; completed: number; total: number } & BatchQueryResult)
+  | {
+      type: 'done';
+      total: number;
+      usedRealAPI: boolean;
+      provider: string;
+      model: string;
+      metric: SimilarityMetric;
+      retries: number;
+      usage: { tokens: number; estimatedCost?: number };
+    }
+  | { type: 'error'; error: string; code?: string; provider?: string; retries?: number; queryIndex?: number };
+
+// Groups rows by query in order of first appearance. A row with a blank query belongs
+// to the query above it; rows with no passage are left out.
+export function groupBatchRows(rows: BatchRow[]): BatchGroup[] {
+  const groups = new Map<string, BatchGroup>();
+  let current = '';
+  for (const { query, passage, row, relevance } of rows) {
+    current = query || current;
+    if (!current || !passage) continue;
+    const group = groups.get(current) ?? { query: current, passages: [], rows: [] };
+    group.passages.push(passage);
+    group.rows.push(row);
+    if (relevance !== undefined) {
+      (group.relevance ??= []).push(relevance);
+    }
+    groups.set(current, group);
+  }
+  return [...groups.values()];
+}
+
+// Validates the queries field of a batch request body; returns null when it is malformed
+export function parseBatchQueries(value: unknown): BatchQuery[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_BATCH_QUERIES) {
+    return null;
+  }
+
+  let rows = 0;
+  for (const item of value) {
+    if (
+      typeof item !== 'object' || item === null ||
+      typeof item.query !== 'string' || !item.query.trim() ||
+      !Array.isArray(item.passages) || item.passages.length === 0 || item.passages.length > MAX_BATCH_PASSAGES ||
+      !item.passages.every((passage: unknown) => typeof passage === 'string' && passage.trim())
+    ) {
+      return null;
+    }
+    rows += item.passages.length;
+  }
+
+  return rows > MAX_BATCH_ROWS ? null : value.map(({ query, passages }) => ({ query, passages }));
+}
+
+// Score columns for each source row: its similarity and its rank within its query
+export function batchScoreColumns(groups: BatchGroup[], results: BatchQueryResult[]): Map<number, { similarity: number; rank: number }> {
+  const columns = new Map<number, { similarity: number; rank: number }>();
+  for (const { queryIndex, results: ranked } of results) {
+    const group = groups[queryIndex];
+    ranked.forEach((result, rank) => {
+      columns.set(group.rows[result.index], { similarity: result.similarity, rank: rank + 1 });
+    });
+  }
+  return columns;
+}
@@ -0,0 +1,263 @@
+import { MAX_BATCH_QUERIES, MAX_BATCH_ROWS } from './batch';
+import { MAX_RELEVANCE_GRADE } from './evaluation';
+
+// Importers for public IR benchmark files: BEIR (corpus.jsonl, queries.jsonl, qrels/*.tsv),
+// TREC run and qrels files, and MS MARCO TSVs (collection.tsv, queries.*.tsv, qrels.*.tsv,
+// top1000.*.tsv). The files are read in the browser and turned into upload rows with a query,
+// a passage and, when qrels are given, a relevance grade, so they feed batch scoring and
+// evaluation like any other spreadsheet.
+
+// Candidate passages per query. 200 queries of 25 passages fill the batch row limit exactly.
+export const BENCHMARK_DEPTH = 25;
+
+export const BENCHMARK_FILE_EXTENSIONS = ['.jsonl', '.tsv', '.txt', '.qrels', '.run', '.trec'];
+
+export type BenchmarkFileKind = 'corpus' | 'queries' | 'qrels' | 'run' | 'pairs';
+
+export interface BenchmarkFile {
+  name: string;
+  text: string;
+}
+
+// Column names match the spreadsheet upload, plus the benchmark's own ids
+export type BenchmarkRow = {
+  query_id: string;
+  query: string;
+  passage_id: string;
+  passages: string;
+  relevance?: number; // only when qrels are imported
+};
+
+export interface BenchmarkImport {
+  rows: BenchmarkRow[];
+  files: { name: string; kind: BenchmarkFileKind }[];
+  queries: number;
+  skippedQueries: number; // over the batch limits, or with no query or passage text
+  labelled: boolean;
+}
+
+export class BenchmarkImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BenchmarkImportError';
+  }
+}
+
+// Files without an extension are common for TREC runs, so they are accepted too
+export function isBenchmarkFileName(name: string): boolean {
+  const dot = name.lastIndexOf('.');
+  return dot <= 0 || BENCHMARK_FILE_EXTENSIONS.includes(name.slice(dot).toLowerCase());
+}
+
+const isNumeric = (value: string | undefined) => value !== undefined && value.trim() !== '' && !Number.isNaN(Number(value));
+const isInteger = (value: string | undefined) => value !== undefined && /^-?\d+$/.test(value.trim());
+
+// Tab-separated when the line has tabs, whitespace-separated otherwise (TREC)
+function splitColumns(line: string): string[] {
+  return line.includes('\t') ? line.split('\t') : line.trim().split(/\s+/);
+}
+
+// Negative TREC judgements count as not relevant; grades above the scale are capped
+function clampGrade(value: string): number {
+  return Math.min(MAX_RELEVANCE_GRADE, Math.max(0, Number(value)));
+}
+
+// Recognises a file from its first line; queries and corpus files of the same shape are told
+// apart by name, as in BEIR and MS MARCO downloads
+function classifyFile({ name, text }: BenchmarkFile): BenchmarkFileKind {
+  const first = text.split('\n', 20).find(line => line.trim());
+  if (!first) {
+    throw new BenchmarkImportError(`${name} is empty.`);
+  }
+  const looksLikeQueries = /quer|topic/i.test(name);
+
+  if (first.trimStart().startsWith('{')) {
+    let record: Record<string, unknown>;
+    try {
+      record = JSON.parse(first);
+    } catch {
+      throw new BenchmarkImportError(`${name}: the first line is not valid JSON.`);
+    }
+    if ((record._id === undefined && record.id === undefined) || typeof record.text !== 'string') {
+      throw new BenchmarkImportError(`${name}: JSONL records need "_id" and "text" fields.`);
+    }
+    return looksLikeQueries ? 'queries' : 'corpus';
+  }
+
+  const columns = splitColumns(first);
+  if (columns[0].trim() === 'query-id') return 'qrels'; // BEIR header
+  if (columns.length === 6 && isNumeric(columns[3]) && isNumeric(columns[4])) return 'run'; // qid Q0 docid rank score tag
+  if (columns.length === 4 && isInteger(columns[3])) return 'qrels'; // qid iteration docid grade
+  if (columns.length === 3 && isInteger(columns[2])) return 'qrels'; // BEIR without its header
+  if (first.includes('\t') && columns.length === 4) return 'pairs'; // MS MARCO top1000: qid pid query passage
+  if (first.includes('\t') && columns.length === 2) return looksLikeQueries ? 'queries' : 'corpus';
+
+  throw new BenchmarkImportError(
+    `${name}: unrecognised format. Expected BEIR JSONL or qrels, a TREC run or qrels file, or an MS MARCO TSV.`
+  );
+}
+
+function lines(text: string): string[] {
+  return text.split(/\r?\n/).filter(line => line.trim());
+}
+
+// Calls keep(id, text) for every record of a corpus or queries file
+function readTexts({ name, text }: BenchmarkFile, keep: (id: string, text: string) => void) {
+  lines(text).forEach((line, index) => {
+    if (line.trimStart().startsWith('{')) {
+      let record: { _id?: unknown; id?: unknown; title?: unknown; text?: unknown };
+      try {
+        record = JSON.parse(line);
+      } catch {
+        throw new BenchmarkImportError(`${name}: line ${index + 1} is not valid JSON.`);
+      }
+      // BEIR corpora split a title from the body; the two are embedded together
+      const body = [record.title, record.text].filter(part => typeof part === 'string' && part.trim()).join(' ');
+      keep(String(record._id ?? record.id), body.trim());
+      return;
+    }
+    const tab = line.indexOf('\t');
+    if (tab > 0) {
+      keep(line.slice(0, tab).trim(), line.slice(tab + 1).trim());
+    }
+  });
+}
+
+// Reads BEIR, TREC and MS MARCO files into upload rows. Queries come from the run or pairs file
+// when there is one, in rank order; otherwise from the qrels, with each query's judged passages
+// followed by the first corpus passages as unjudged negatives. With qrels, only queries that have
+// a relevant passage are kept. Imports stop at the batch limits.
+export function importBenchmark(files: BenchmarkFile[]): BenchmarkImport {
+  const classified = files.map(file => ({ file, kind: classifyFile(file) }));
+  const ofKind = (kind: BenchmarkFileKind) => classified.filter(item => item.kind === kind).map(item => item.file);
+
+  if (ofKind('run').length + ofKind('pairs').length > 1) {
+    throw new BenchmarkImportError('Import one run or top-1000 file at a time.');
+  }
+
+  const queryTexts = new Map<string, string>();
+  const passageTexts = new Map<string, string>();
+  const qrels = new Map<string, Map<string, number>>();
+  // Ranked passage ids per query, from a run or a pairs file
+  let candidates: Map<string, string[]> | null = null;
+
+  for (const file of ofKind('qrels')) {
+    for (const line of lines(file.text)) {
+      const columns = splitColumns(line);
+      if (columns[0].trim() === 'query-id') continue;
+      const [queryId, passageId, grade] = columns.length >= 4 ? [columns[0], columns[2], columns[3]] : columns;
+      if (!isInteger(grade)) {
+        throw new BenchmarkImportError(`${file.name}: "${line}" is not a qrels line.`);
+      }
+      const judged = qrels.get(queryId.trim()) ?? new Map<string, number>();
+      judged.set(passageId.trim(), clampGrade(grade));
+      qrels.set(queryId.trim(), judged);
+    }
+  }
+
+  const [runFile] = ofKind('run');
+  if (runFile) {
+    const ranked = new Map<string, { id: string; rank: number }[]>();
+    for (const line of lines(runFile.text)) {
+      const [queryId, , passageId, rank] = splitColumns(line);
+      if (!isNumeric(rank)) {
+        throw new BenchmarkImportError(`${runFile.name}: "${line}" is not a TREC run line.`);
+      }
+      const entries = ranked.get(queryId) ?? [];
+      entries.push({ id: passageId, rank: Number(rank) });
+      ranked.set(queryId, entries);
+    }
+    candidates = new Map([...ranked].map(([queryId, entries]) => [
+      queryId,
+      entries.sort((a, b) => a.rank - b.rank).map(entry => entry.id),
+    ]));
+  }
+
+  const [pairsFile] = ofKind('pairs');
+  if (pairsFile) {
+    const listed = new Map<string, string[]>();
+    for (const line of lines(pairsFile.text)) {
+      const [queryId, passageId, queryText, passageText] = line.split('\t');
+      if (passageText === undefined) continue;
+      const ids = listed.get(queryId) ?? [];
+      ids.push(passageId);
+      listed.set(queryId, ids);
+      queryTexts.set(queryId, queryText.trim());
+      passageTexts.set(passageId, passageText.trim());
+    }
+    candidates = listed;
+  }
+
+  for (const file of ofKind('queries')) {
+    readTexts(file, (id, text) => queryTexts.set(id, text));
+  }
+
+  // Corpora can be large, so only the passages the import can use are kept
+  const wanted = new Set<string>();
+  candidates?.forEach(ids => ids.slice(0, BENCHMARK_DEPTH).forEach(id => wanted.add(id)));
+  qrels.forEach(judged => judged.forEach((_, id) => wanted.add(id)));
+  const negatives: string[] = [];
+  for (const file of ofKind('corpus')) {
+    readTexts(file, (id, text) => {
+      if (wanted.has(id) || (!candidates && negatives.length < BENCHMARK_DEPTH * 2)) {
+        passageTexts.set(id, text);
+        if (!candidates && negatives.length < BENCHMARK_DEPTH * 2) negatives.push(id);
+      }
+    });
+  }
+
+  const labelled = qrels.size > 0;
+  if (!candidates && !labelled) {
+    throw new BenchmarkImportError('Add a qrels file, a TREC run or an MS MARCO top-1000 file to say which passages each query is scored against.');
+  }
+  if (!queryTexts.size) {
+    throw new BenchmarkImportError('Add a queries file (queries.jsonl or an id/text TSV) for the query text.');
+  }
+  if (!passageTexts.size) {
+    throw new BenchmarkImportError('Add a corpus file (corpus.jsonl or collection.tsv) for the passage text.');
+  }
+
+  const queryIds = candidates
+    ? [...candidates.keys()].filter(id => !labelled || [...(qrels.get(id)?.values() ?? [])].some(grade => grade > 0))
+    : [...qrels.keys()].filter(id => [...qrels.get(id)!.values()].some(grade => grade > 0));
+
+  const rows: BenchmarkRow[] = [];
+  let imported = 0;
+  for (const queryId of queryIds) {
+    const query = queryTexts.get(queryId);
+    const judged = qrels.get(queryId) ?? new Map<string, number>();
+    const passageIds = candidates
+      ? candidates.get(queryId)!.slice(0, BENCHMARK_DEPTH)
+      : [
+          ...[...judged.keys()].sort((a, b) => judged.get(b)! - judged.get(a)!),
+          ...negatives.filter(id => !judged.has(id)),
+        ].slice(0, BENCHMARK_DEPTH);
+    const passages = passageIds.filter(id => passageTexts.get(id));
+
+    if (!query || !passages.length) continue;
+    if (imported === MAX_BATCH_QUERIES || rows.length + passages.length > MAX_BATCH_ROWS) break;
+
+    imported++;
+    for (const passageId of passages) {
+      rows.push({
+        query_id: queryId,
+        query,
+        passage_id: passageId,
+        passages: passageTexts.get(passageId)!,
+        ...(labelled && { relevance: judged.get(passageId) ?? 0 }),
+      });
+    }
+  }
+
+  if (!rows.length) {
+    throw new BenchmarkImportError('No query in these files has both query text and passage text.');
+  }
+
+  return {
+    rows,
+    files: classified.map(({ file, kind }) => ({ name: file.name, kind })),
+    queries: imported,
+    skippedQueries: queryIds.length - imported,
+    labelled,
+  };
+}
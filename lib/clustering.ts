@@ -0,0 +1,334 @@
+import { analyzeTerms, detectLanguage } from './lexical';
+import { seededUnit } from './text-analysis';
+import { cosineMatrix, cosineSimilarity } from './vector-math';
+
+// Groups passages by their embeddings: agglomerative clustering cut at a distance
+// threshold, or k-means with k picked by silhouette score. Near-duplicates are
+// reported separately, since they are what editors act on first. All distances
+// are cosine distances (1 - cosine similarity).
+
+export type ClusteringMethod = 'agglomerative' | 'kmeans';
+export type Linkage = 'average' | 'complete' | 'single';
+
+export interface ClusteringOptions {
+  method: ClusteringMethod;
+  distanceThreshold: number; // agglomerative: stop merging above this distance
+  linkage: Linkage;
+  maxK: number; // k-means: largest k tried
+  duplicateThreshold: number; // similarity at or above which passages are near-duplicates
+  seed: number; // k-means++ initialization
+}
+
+export const DEFAULT_CLUSTERING_OPTIONS: ClusteringOptions = {
+  method: 'agglomerative',
+  distanceThreshold: 0.35,
+  linkage: 'average',
+  maxK: 10,
+  duplicateThreshold: 0.95,
+  seed: 0,
+};
+
+export interface PassageCluster {
+  id: number; // 1-based, clusters ordered by average similarity to the query
+  keywords: string[]; // terms that set this cluster apart from the rest
+  members: number[]; // passage indexes
+  centroidIndex: number; // member closest to the cluster's mean vector
+  averageQuerySimilarity: number;
+  cohesion: number; // average pairwise similarity within the cluster; 1 for singletons
+}
+
+export interface DuplicateGroup {
+  members: number[];
+  minSimilarity: number; // weakest direct link that joined the group
+}
+
+export interface ClusteringResult {
+  method: ClusteringMethod;
+  k: number;
+  silhouette: number | null; // null when there are fewer than 2 clusters or every passage is alone
+  clusters: PassageCluster[];
+  duplicates: DuplicateGroup[];
+}
+
+interface ClusteringRequest {
+  method?: unknown;
+  distanceThreshold?: unknown;
+  linkage?: unknown;
+  maxK?: unknown;
+  duplicateThreshold?: unknown;
+  seed?: unknown;
+}
+
+const inRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && value >= min && value <= max;
+
+// Validates the clustering fields of a request body; returns null when they are malformed
+export function parseClusteringOptions(request: ClusteringRequest): ClusteringOptions | null {
+  const {
+    method = DEFAULT_CLUSTERING_OPTIONS.method,
+    distanceThreshold = DEFAULT_CLUSTERING_OPTIONS.distanceThreshold,
+    linkage = DEFAULT_CLUSTERING_OPTIONS.linkage,
+    maxK = DEFAULT_CLUSTERING_OPTIONS.maxK,
+    duplicateThreshold = DEFAULT_CLUSTERING_OPTIONS.duplicateThreshold,
+    seed = DEFAULT_CLUSTERING_OPTIONS.seed,
+  } = request;
+
+  if (
+    (method !== 'agglomerative' && method !== 'kmeans') ||
+    !inRange(distanceThreshold, 0, 2) ||
+    (linkage !== 'average' && linkage !== 'complete' && linkage !== 'single') ||
+    !Number.isInteger(maxK) || !inRange(maxK, 2, 50) ||
+    !inRange(duplicateThreshold, -1, 1) ||
+    !Number.isInteger(seed)
+  ) {
+    return null;
+  }
+
+  return { method, distanceThreshold, linkage, maxK, duplicateThreshold, seed: seed as number };
+}
+
+// Bottom-up merging with Lance-Williams distance updates, stopping once the closest
+// pair of clusters is farther apart than the threshold
+function agglomerative(distances: number[][], threshold: number, linkage: Linkage): number[] {
+  const n = distances.length;
+  const d = distances.map(row => [...row]);
+  const members = Array.from({ length: n }, (_, i) => [i]);
+  const active = new Set(members.keys());
+
+  while (active.size > 1) {
+    let best: [number, number] | null = null;
+    let bestDistance = Infinity;
+    for (const a of active) {
+      for (const b of active) {
+        if (a < b && d[a][b] < bestDistance) {
+          best = [a, b];
+          bestDistance = d[a][b];
+        }
+      }
+    }
+    if (!best || bestDistance > threshold) {
+      break;
+    }
+
+    const [a, b] = best;
+    const sizeA = members[a].length;
+    const sizeB = members[b].length;
+    for (const x of active) {
+      if (x === a || x === b) continue;
+      const merged = linkage === 'single' ? Math.min(d[a][x], d[b][x])
+        : linkage === 'complete' ? Math.max(d[a][x], d[b][x])
+        : (sizeA * d[a][x] + sizeB * d[b][x]) / (sizeA + sizeB);
+      d[a][x] = d[x][a] = merged;
+    }
+    members[a].push(...members[b]);
+    active.delete(b);
+  }
+
+  const labels = new Array<number>(n);
+  [...active].forEach((root, label) => {
+    for (const index of members[root]) {
+      labels[index] = label;
+    }
+  });
+  return labels;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length === 0 ? vector : vector.map(value => value / length);
+}
+
+function meanVector(vectors: number[][]): number[] {
+  const mean = new Array<number>(vectors[0].length).fill(0);
+  for (const vector of vectors) {
+    vector.forEach((value, i) => { mean[i] += value / vectors.length; });
+  }
+  return mean;
+}
+
+// Spherical k-means (cosine) with k-means++ seeding; deterministic for a given seed
+function kmeans(vectors: number[][], distances: number[][], k: number, seed: number): number[] {
+  const n = vectors.length;
+  const centers = [Math.floor(seededUnit(seed, 'kmeans', String(k), 'first') * n)];
+  while (centers.length < k) {
+    const weights = vectors.map((_, i) => Math.min(...centers.map(c => distances[i][c])) ** 2);
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let target = seededUnit(seed, 'kmeans', String(k), String(centers.length)) * total;
+    let next = weights.findIndex(weight => (target -= weight) <= 0);
+    if (next < 0 || total === 0) {
+      next = vectors.findIndex((_, i) => !centers.includes(i));
+    }
+    centers.push(next);
+  }
+
+  let centroids = centers.map(c => normalize(vectors[c]));
+  let labels = new Array<number>(n).fill(-1);
+  for (let iteration = 0; iteration < 50; iteration++) {
+    const next = vectors.map(vector => {
+      let best = 0;
+      centroids.forEach((centroid, c) => {
+        if (cosineSimilarity(vector, centroid) > cosineSimilarity(vector, centroids[best])) best = c;
+      });
+      return best;
+    });
+    if (next.every((label, i) => label === labels[i])) {
+      break;
+    }
+    labels = next;
+    centroids = centroids.map((centroid, c) => {
+      const assigned = vectors.filter((_, i) => labels[i] === c);
+      // An emptied cluster keeps its old centroid rather than vanishing
+      return assigned.length > 0 ? normalize(meanVector(assigned)) : centroid;
+    });
+  }
+  return labels;
+}
+
+// Mean silhouette over all passages; passages alone in their cluster score 0
+function silhouette(distances: number[][], labels: number[]): number | null {
+  const k = new Set(labels).size;
+  if (k < 2 || k >= labels.length) {
+    return null;
+  }
+
+  const scores = labels.map((label, i) => {
+    const sums = new Map<number, { total: number; count: number }>();
+    labels.forEach((other, j) => {
+      if (i === j) return;
+      const entry = sums.get(other) ?? { total: 0, count: 0 };
+      entry.total += distances[i][j];
+      entry.count += 1;
+      sums.set(other, entry);
+    });
+    const own = sums.get(label);
+    if (!own) {
+      return 0;
+    }
+    const a = own.total / own.count;
+    const b = Math.min(...[...sums].filter(([other]) => other !== label).map(([, { total, count }]) => total / count));
+    return (b - a) / Math.max(a, b) || 0;
+  });
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+}
+
+// Connected components over pairs at or above the threshold
+function nearDuplicates(similarities: number[][], threshold: number): DuplicateGroup[] {
+  const n = similarities.length;
+  const seen = new Set<number>();
+  const groups: DuplicateGroup[] = [];
+
+  for (let start = 0; start < n; start++) {
+    if (seen.has(start)) continue;
+    const members: number[] = [];
+    let minSimilarity = 1;
+    const stack = [start];
+    seen.add(start);
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      members.push(i);
+      for (let j = 0; j < n; j++) {
+        if (j !== i && !seen.has(j) && similarities[i][j] >= threshold) {
+          seen.add(j);
+          stack.push(j);
+          minSimilarity = Math.min(minSimilarity, similarities[i][j]);
+        }
+      }
+    }
+    if (members.length > 1) {
+      groups.push({ members: members.sort((a, b) => a - b), minSimilarity });
+    }
+  }
+  return groups;
+}
+
+// Up to three terms per cluster, weighted by how much more often they appear in the
+// cluster than across all passages, shown as the most common word behind each stem
+function clusterKeywords(passages: string[], clusters: number[][]): string[][] {
+  const language = detectLanguage(passages);
+  const analyzed = passages.map(passage => analyzeTerms(passage, language));
+  const documentFrequency = new Map<string, number>();
+  const surfaces = new Map<string, Map<string, number>>();
+  for (const terms of analyzed) {
+    for (const { term, surface } of terms) {
+      const forms = surfaces.get(term) ?? new Map<string, number>();
+      forms.set(surface, (forms.get(surface) ?? 0) + 1);
+      surfaces.set(term, forms);
+    }
+    for (const term of new Set(terms.map(({ term }) => term))) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return clusters.map(members => {
+    const counts = new Map<string, number>();
+    for (const index of members) {
+      for (const term of new Set(analyzed[index].map(({ term }) => term))) {
+        counts.set(term, (counts.get(term) ?? 0) + 1);
+      }
+    }
+    return [...counts]
+      .map(([term, count]) => ({ term, weight: count * Math.log(1 + passages.length / documentFrequency.get(term)!) }))
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, 3)
+      .map(({ term }) => [...surfaces.get(term)!].sort((a, b) => b[1] - a[1])[0][0]);
+  });
+}
+
+export function clusterPassages(
+  queryEmbedding: number[],
+  passageEmbeddings: number[][],
+  passages: string[],
+  options: ClusteringOptions = DEFAULT_CLUSTERING_OPTIONS
+): ClusteringResult {
+  const similarities = cosineMatrix(passageEmbeddings);
+  const distances = similarities.map(row => row.map(similarity => 1 - similarity));
+  const n = passageEmbeddings.length;
+
+  let labels: number[];
+  if (options.method === 'agglomerative') {
+    labels = agglomerative(distances, options.distanceThreshold, options.linkage);
+  } else {
+    // Try every k the data allows and keep the best silhouette
+    labels = new Array<number>(n).fill(0);
+    let bestScore = -Infinity;
+    for (let k = 2; k <= Math.min(options.maxK, n - 1); k++) {
+      const candidate = kmeans(passageEmbeddings, distances, k, options.seed);
+      const score = silhouette(distances, candidate) ?? -Infinity;
+      if (score > bestScore) {
+        labels = candidate;
+        bestScore = score;
+      }
+    }
+  }
+
+  const groups = [...new Set(labels)].map(label => labels.flatMap((other, index) => (other === label ? [index] : [])));
+  const keywords = clusterKeywords(passages, groups);
+  const querySimilarity = passageEmbeddings.map(embedding => cosineSimilarity(queryEmbedding, embedding));
+
+  const clusters = groups
+    .map((members, group) => {
+      const centroid = meanVector(members.map(index => passageEmbeddings[index]));
+      const centroidIndex = members.reduce((best, index) =>
+        cosineSimilarity(passageEmbeddings[index], centroid) > cosineSimilarity(passageEmbeddings[best], centroid) ? index : best
+      );
+      const pairs = members.flatMap((a, i) => members.slice(i + 1).map(b => similarities[a][b]));
+      return {
+        id: 0,
+        keywords: keywords[group],
+        members,
+        centroidIndex,
+        averageQuerySimilarity: members.reduce((sum, index) => sum + querySimilarity[index], 0) / members.length,
+        cohesion: pairs.length > 0 ? pairs.reduce((sum, value) => sum + value, 0) / pairs.length : 1,
+      };
+    })
+    .sort((a, b) => b.averageQuerySimilarity - a.averageQuerySimilarity)
+    .map((cluster, index) => ({ ...cluster, id: index + 1 }));
+
+  return {
+    method: options.method,
+    k: clusters.length,
+    silhouette: silhouette(distances, labels),
+    clusters,
+    duplicates: nearDuplicates(similarities, options.duplicateThreshold),
+  };
+}
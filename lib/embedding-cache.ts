@@ -0,0 +1,166 @@
+import { createHash } from 'crypto';
+import { kv } from '@vercel/kv';
+import { EmbeddingInputType, EmbeddingTaskType } from './embedding-providers';
+
+// Content-addressed cache for provider embeddings, shared across users and requests.
+// Vectors are keyed by everything that changes them, never by who asked.
+
+export interface EmbeddingCacheKeyParts {
+  provider: string;
+  endpoint?: string; // self-hosted base URL; the same model name can live on many servers
+  model: string;
+  taskType: EmbeddingTaskType;
+  inputType: EmbeddingInputType; // retrieval embeds queries and documents differently
+  dimensions: number;
+  text: string;
+}
+
+export interface EmbeddingCache {
+  getMany(keys: string[]): Promise<(number[] | undefined)[]>;
+  setMany(entries: [string, number[]][]): Promise<void>;
+}
+
+const KEY_VERSION = 'v1';
+
+// Unicode and whitespace differences never change what a passage says
+export function normalizeCacheText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+export function embeddingCacheKey(parts: EmbeddingCacheKeyParts): string {
+  const hash = createHash('sha256')
+    .update(JSON.stringify([
+      parts.provider,
+      parts.endpoint ?? '',
+      parts.model,
+      parts.taskType,
+      parts.inputType,
+      parts.dimensions,
+      normalizeCacheText(parts.text),
+    ]))
+    .digest('hex');
+  return `emb:${KEY_VERSION}:${hash}`;
+}
+
+// Per-instance tier; Map iteration order doubles as recency order
+export class LruEmbeddingCache implements EmbeddingCache {
+  private entries = new Map<string, number[]>();
+
+  constructor(private maxEntries: number) {}
+
+  async getMany(keys: string[]): Promise<(number[] | undefined)[]> {
+    return keys.map(key => {
+      const vector = this.entries.get(key);
+      if (vector) {
+        this.entries.delete(key);
+        this.entries.set(key, vector);
+      }
+      return vector;
+    });
+  }
+
+  async setMany(entries: [string, number[]][]): Promise<void> {
+    for (const [key, vector] of entries) {
+      this.entries.delete(key);
+      this.entries.set(key, vector);
+    }
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+// Shared tier in Vercel KV. Failures are logged and treated as misses so a cache
+// outage never fails a request.
+export class KvEmbeddingCache implements EmbeddingCache {
+  constructor(private ttlSeconds: number) {}
+
+  async getMany(keys: string[]): Promise<(number[] | undefined)[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+    try {
+      const vectors = await kv.mget<(number[] | null)[]>(...keys);
+      return vectors.map(vector => vector ?? undefined);
+    } catch (error) {
+      console.error('Embedding cache read error:', error);
+      return keys.map(() => undefined);
+    }
+  }
+
+  async setMany(entries: [string, number[]][]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+    try {
+      const pipe = kv.pipeline();
+      for (const [key, vector] of entries) {
+        pipe.set(key, vector, { ex: this.ttlSeconds });
+      }
+      await pipe.exec();
+    } catch (error) {
+      console.error('Embedding cache write error:', error);
+    }
+  }
+}
+
+// Memory first, then the persistent tier; persistent hits are promoted into memory
+export class TieredEmbeddingCache implements EmbeddingCache {
+  constructor(private memory: EmbeddingCache, private persistent?: EmbeddingCache) {}
+
+  async getMany(keys: string[]): Promise<(number[] | undefined)[]> {
+    const results = await this.memory.getMany(keys);
+    if (!this.persistent) {
+      return results;
+    }
+
+    const missing = keys.filter((_, index) => !results[index]);
+    if (missing.length === 0) {
+      return results;
+    }
+
+    const found = await this.persistent.getMany(missing);
+    const byKey = new Map<string, number[]>();
+    missing.forEach((key, index) => {
+      if (found[index]) {
+        byKey.set(key, found[index]!);
+      }
+    });
+    await this.memory.setMany([...byKey.entries()]);
+
+    return results.map((vector, index) => vector ?? byKey.get(keys[index]));
+  }
+
+  async setMany(entries: [string, number[]][]): Promise<void> {
+    await Promise.all([this.memory.setMany(entries), this.persistent?.setMany(entries)]);
+  }
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const globalForCache = globalThis as unknown as {
+  embeddingCache: EmbeddingCache | null | undefined
+};
+
+// Shared instance; KV is only used when the deployment has it configured.
+// EMBEDDING_CACHE=off disables caching entirely.
+export function getEmbeddingCache(): EmbeddingCache | null {
+  if (globalForCache.embeddingCache === undefined) {
+    globalForCache.embeddingCache = process.env.EMBEDDING_CACHE === 'off'
+      ? null
+      : new TieredEmbeddingCache(
+          new LruEmbeddingCache(envNumber('EMBEDDING_CACHE_MAX_ENTRIES', 5000)),
+          process.env.KV_REST_API_URL
+            ? new KvEmbeddingCache(envNumber('EMBEDDING_CACHE_TTL_SECONDS', 30 * 24 * 60 * 60))
+            : undefined
+        );
+  }
+  return globalForCache.embeddingCache;
+}
@@ -0,0 +1,68 @@
+import { countTokens } from './tokenizer';
+
+// Splits embedding inputs into provider-sized requests and runs them with bounded concurrency
+
+export interface BatchLimits {
+  maxBatchSize: number; // inputs per request
+  maxBatchTokens: number; // summed tokens per request
+}
+
+// Groups input indices into batches that respect both limits, preserving input order.
+// An input that alone exceeds the token budget still gets a batch of its own.
+export function planBatches(
+  texts: string[],
+  limits: BatchLimits,
+  tokenCount: (text: string, index: number) => number = countTokens
+): number[][] {
+  const batches: number[][] = [];
+  let current: number[] = [];
+  let currentTokens = 0;
+
+  texts.forEach((text, index) => {
+    const tokens = tokenCount(text, index);
+    const full = current.length >= limits.maxBatchSize || currentTokens + tokens > limits.maxBatchTokens;
+
+    if (current.length > 0 && full) {
+      batches.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+
+    current.push(index);
+    currentTokens += tokens;
+  });
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+}
+
+// Like Promise.all over items.map(fn), but with at most `limit` calls in flight.
+// Once a call fails no new ones start; calls already in flight are left to finish.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+  return results;
+}
@@ -0,0 +1,295 @@
+// Static description of every embedding provider and model the tool knows about.
+// This file must stay free of SDK imports so the client bundle can read it too.
+
+export interface EmbeddingModelInfo {
+  id: string;
+  label: string;
+  dimensions: number; // native output size
+  // Matryoshka models can return shorter vectors; these are the sizes the provider accepts
+  // below the native one. Absent means the model only returns full-size vectors.
+  reducedDimensions?: number[];
+  maxBatchSize: number; // max inputs per provider request
+  maxInputTokens: number; // max tokens per input
+  maxBatchTokens?: number; // max summed tokens per request, if the provider enforces one
+  pricePerMillionTokens: number; // USD
+}
+
+// What the embeddings will be compared for. 'retrieval' embeds queries and passages
+// asymmetrically; the other modes embed every text the same way.
+export type EmbeddingTaskType = 'retrieval' | 'semantic-similarity' | 'clustering' | 'classification';
+
+export const EMBEDDING_TASK_TYPES: { id: EmbeddingTaskType; label: string; description: string }[] = [
+  { id: 'retrieval', label: 'Retrieval', description: 'Query vs. passages (search)' },
+  { id: 'semantic-similarity', label: 'Similarity', description: 'How alike the texts are' },
+  { id: 'clustering', label: 'Clustering', description: 'Group related passages' },
+  { id: 'classification', label: 'Classification', description: 'Texts as features for labelling' },
+];
+
+export function isEmbeddingTaskType(value: unknown): value is EmbeddingTaskType {
+  return EMBEDDING_TASK_TYPES.some(taskType => taskType.id === value);
+}
+
+// Limits assumed for free-form model names that are not listed in the catalog
+export type CustomModelDefaults = Omit<EmbeddingModelInfo, 'id' | 'label'>;
+
+export interface EmbeddingProviderInfo {
+  id: string;
+  label: string;
+  description: string;
+  note: string;
+  badge: string;
+  envApiKey: string;
+  apiKeyPattern: RegExp;
+  apiKeyPlaceholder: string;
+  apiKeyHint: string;
+  apiKeyUrl: string;
+  requiresApiKey: boolean;
+  requiresBaseUrl?: boolean;
+  supportsTaskTypes: boolean; // whether the provider embeds differently per task type
+  maxConcurrency: number; // parallel batch requests we allow against the provider
+  defaultModel: string;
+  models: EmbeddingModelInfo[];
+  customModelDefaults?: CustomModelDefaults; // set when any model name is accepted
+  lexical?: boolean; // scored locally from term statistics: no vectors, no API key
+}
+
+export const OPENAI_COMPATIBLE_PROVIDER = 'openai-compatible';
+export const LEXICAL_PROVIDER = 'lexical';
+
+// Lexical scorers have no vectors or request limits; these fields only keep the shape uniform
+const LEXICAL_MODEL_LIMITS = {
+  dimensions: 0,
+  maxBatchSize: Number.MAX_SAFE_INTEGER,
+  maxInputTokens: Number.MAX_SAFE_INTEGER,
+  pricePerMillionTokens: 0,
+};
+
+export const EMBEDDING_PROVIDER_CATALOG: EmbeddingProviderInfo[] = [
+  {
+    id: 'google',
+    label: 'Google AI',
+    description: 'Gemini Embedding',
+    note: 'Free tier available, good for development',
+    badge: 'G',
+    envApiKey: 'GOOGLE_API_KEY',
+    apiKeyPattern: /^AIza[0-9A-Za-z_-]{35}$/,
+    apiKeyPlaceholder: 'AIzaSy...',
+    apiKeyHint: 'Google AI keys start with "AIza" and are 39 characters long.',
+    apiKeyUrl: 'https://aistudio.google.com/app/apikey',
+    requiresApiKey: true,
+    supportsTaskTypes: true,
+    maxConcurrency: 4,
+    defaultModel: 'gemini-embedding-001',
+    models: [
+      {
+        id: 'gemini-embedding-001',
+        label: 'Gemini Embedding 001',
+        dimensions: 3072,
+        reducedDimensions: [128, 256, 512, 768, 1536],
+        maxBatchSize: 100,
+        maxInputTokens: 2048,
+        // Google AI is currently free, but we'll estimate for future pricing
+        pricePerMillionTokens: 0.1,
+      },
+    ],
+  },
+  {
+    id: 'openai',
+    label: 'OpenAI',
+    description: 'Text Embedding 3',
+    note: 'High quality, pay-per-use pricing',
+    badge: 'O',
+    envApiKey: 'OPENAI_API_KEY',
+    // OpenAI keys start with "sk-" and can contain alphanumeric chars, hyphens, and underscores
+    // Length can vary from ~48 to 164+ characters
+    apiKeyPattern: /^sk-[0-9A-Za-z_-]{20,200}$/,
+    apiKeyPlaceholder: 'sk-...',
+    apiKeyHint: 'OpenAI keys start with "sk-" and are typically 48-164+ characters long.',
+    apiKeyUrl: 'https://platform.openai.com/api-keys',
+    requiresApiKey: true,
+    supportsTaskTypes: false,
+    maxConcurrency: 4,
+    defaultModel: 'text-embedding-3-small',
+    models: [
+      {
+        id: 'text-embedding-3-small',
+        label: 'Small',
+        dimensions: 1536,
+        reducedDimensions: [256, 512, 768, 1024],
+        maxBatchSize: 2048,
+        maxInputTokens: 8191,
+        maxBatchTokens: 300000,
+        pricePerMillionTokens: 0.02,
+      },
+      {
+        id: 'text-embedding-3-large',
+        label: 'Large',
+        dimensions: 3072,
+        reducedDimensions: [256, 512, 768, 1024, 1536],
+        maxBatchSize: 2048,
+        maxInputTokens: 8191,
+        maxBatchTokens: 300000,
+        pricePerMillionTokens: 0.13,
+      },
+    ],
+  },
+  {
+    id: 'cohere',
+    label: 'Cohere',
+    description: 'Embed v3',
+    note: 'Strong multilingual retrieval',
+    badge: 'C',
+    envApiKey: 'COHERE_API_KEY',
+    apiKeyPattern: /^[0-9A-Za-z]{40}$/,
+    apiKeyPlaceholder: 'Cohere API key',
+    apiKeyHint: 'Cohere keys are 40 alphanumeric characters.',
+    apiKeyUrl: 'https://dashboard.cohere.com/api-keys',
+    requiresApiKey: true,
+    supportsTaskTypes: true,
+    maxConcurrency: 4,
+    defaultModel: 'embed-english-v3.0',
+    models: [
+      {
+        id: 'embed-english-v3.0',
+        label: 'English',
+        dimensions: 1024,
+        maxBatchSize: 96,
+        maxInputTokens: 512,
+        pricePerMillionTokens: 0.1,
+      },
+      {
+        id: 'embed-multilingual-v3.0',
+        label: 'Multilingual',
+        dimensions: 1024,
+        maxBatchSize: 96,
+        maxInputTokens: 512,
+        pricePerMillionTokens: 0.1,
+      },
+    ],
+  },
+  {
+    id: 'voyage',
+    label: 'Voyage AI',
+    description: 'Voyage 3.5',
+    note: 'Retrieval-tuned, long context',
+    badge: 'V',
+    envApiKey: 'VOYAGE_API_KEY',
+    apiKeyPattern: /^pa-[0-9A-Za-z_-]{20,200}$/,
+    apiKeyPlaceholder: 'pa-...',
+    apiKeyHint: 'Voyage AI keys start with "pa-".',
+    apiKeyUrl: 'https://dashboard.voyageai.com/',
+    requiresApiKey: true,
+    supportsTaskTypes: true,
+    maxConcurrency: 4,
+    defaultModel: 'voyage-3.5',
+    models: [
+      {
+        id: 'voyage-3.5',
+        label: 'Standard',
+        dimensions: 1024,
+        reducedDimensions: [256, 512],
+        maxBatchSize: 1000,
+        maxInputTokens: 32000,
+        maxBatchTokens: 320000,
+        pricePerMillionTokens: 0.06,
+      },
+      {
+        id: 'voyage-3.5-lite',
+        label: 'Lite',
+        dimensions: 1024,
+        reducedDimensions: [256, 512],
+        maxBatchSize: 1000,
+        maxInputTokens: 32000,
+        maxBatchTokens: 1000000,
+        pricePerMillionTokens: 0.02,
+      },
+    ],
+  },
+  {
+    id: OPENAI_COMPATIBLE_PROVIDER,
+    label: 'Self-hosted',
+    description: 'OpenAI-compatible endpoint',
+    note: 'Ollama, TEI, vLLM or any /v1/embeddings server',
+    badge: 'S',
+    envApiKey: 'OPENAI_COMPATIBLE_API_KEY',
+    // Self-hosted servers accept whatever token they were configured with
+    apiKeyPattern: /^\S{1,500}$/,
+    apiKeyPlaceholder: 'Optional bearer token',
+    apiKeyHint: 'Keys may not contain whitespace.',
+    apiKeyUrl: 'https://platform.openai.com/docs/api-reference/embeddings',
+    requiresApiKey: false,
+    supportsTaskTypes: false,
+    maxConcurrency: 2,
+    requiresBaseUrl: true,
+    defaultModel: '',
+    models: [],
+    customModelDefaults: {
+      dimensions: 0, // discovered from the first response
+      maxBatchSize: 64,
+      maxInputTokens: 512,
+      pricePerMillionTokens: 0,
+    },
+  },
+  {
+    id: LEXICAL_PROVIDER,
+    label: 'Lexical',
+    description: 'BM25 / TF-IDF',
+    note: 'Runs locally with no API key; a sparse baseline',
+    badge: 'L',
+    envApiKey: '',
+    apiKeyPattern: /^$/,
+    apiKeyPlaceholder: '',
+    apiKeyHint: 'Lexical scoring does not use an API key.',
+    apiKeyUrl: '',
+    requiresApiKey: false,
+    supportsTaskTypes: false,
+    maxConcurrency: 1,
+    lexical: true,
+    defaultModel: 'bm25',
+    models: [
+      { id: 'bm25', label: 'BM25', ...LEXICAL_MODEL_LIMITS },
+      { id: 'bm25-plus', label: 'BM25+', ...LEXICAL_MODEL_LIMITS },
+      { id: 'tf-idf', label: 'TF-IDF', ...LEXICAL_MODEL_LIMITS },
+    ],
+  },
+];
+
+export function listEmbeddingProviders(): EmbeddingProviderInfo[] {
+  return EMBEDDING_PROVIDER_CATALOG;
+}
+
+export function getEmbeddingProviderInfo(providerId: string): EmbeddingProviderInfo | undefined {
+  return EMBEDDING_PROVIDER_CATALOG.find(provider => provider.id === providerId);
+}
+
+export function getEmbeddingModelInfo(providerId: string, modelId: string): EmbeddingModelInfo | undefined {
+  const provider = getEmbeddingProviderInfo(providerId);
+  if (!provider) {
+    return undefined;
+  }
+
+  const listed = provider.models.find(model => model.id === modelId);
+  if (listed || !provider.customModelDefaults || !modelId?.trim()) {
+    return listed;
+  }
+
+  return { id: modelId, label: modelId, ...provider.customModelDefaults };
+}
+
+// Whether the model can return vectors of the requested size. The native size always works.
+export function supportsOutputDimensions(providerId: string, modelId: string, dimensions: number): boolean {
+  const model = getEmbeddingModelInfo(providerId, modelId);
+  if (!model) {
+    return false;
+  }
+  return dimensions === model.dimensions || (model.reducedDimensions ?? []).includes(dimensions);
+}
+
+// Cost estimation in USD, based on the model's catalog price
+export function estimateEmbeddingCost(providerId: string, modelId: string, tokens: number): number {
+  const model = getEmbeddingModelInfo(providerId, modelId);
+  if (!model) {
+    return 0;
+  }
+  return (tokens / 1000000) * model.pricePerMillionTokens;
+}
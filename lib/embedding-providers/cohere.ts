@@ -0,0 +1,52 @@
+import { EmbeddingTaskType, getEmbeddingProviderInfo } from './catalog';
+import { joinUrl, postJson } from './http';
+import {
+  EmbeddingClient,
+  EmbeddingClientOptions,
+  EmbeddingInputType,
+  EmbeddingProviderAdapter,
+  EmbeddingResponse,
+} from './types';
+
+const DEFAULT_BASE_URL = 'https://api.cohere.com';
+
+const RETRIEVAL_INPUT_TYPES: Record<EmbeddingInputType, string> = {
+  query: 'search_query',
+  document: 'search_document',
+};
+
+// Cohere has no dedicated similarity type; embedding both sides as documents keeps it symmetric
+const SYMMETRIC_INPUT_TYPES: Record<Exclude<EmbeddingTaskType, 'retrieval'>, string> = {
+  'semantic-similarity': 'search_document',
+  clustering: 'clustering',
+  classification: 'classification',
+};
+
+interface CohereEmbedResponse {
+  embeddings: { float: number[][] };
+  meta?: { billed_units?: { input_tokens?: number } };
+}
+
+export const cohereAdapter: EmbeddingProviderAdapter = {
+  info: getEmbeddingProviderInfo('cohere')!,
+
+  createClient({ apiKey, model, baseURL }: EmbeddingClientOptions): EmbeddingClient {
+    const url = joinUrl(baseURL || process.env.COHERE_BASE_URL || DEFAULT_BASE_URL, '/v2/embed');
+    console.log('🔧 Cohere client initialized');
+
+    return {
+      async embed(texts, { inputType, taskType, signal }): Promise<EmbeddingResponse> {
+        const response = await postJson<CohereEmbedResponse>(url, apiKey, {
+          model,
+          texts,
+          input_type: taskType === 'retrieval' ? RETRIEVAL_INPUT_TYPES[inputType] : SYMMETRIC_INPUT_TYPES[taskType],
+          embedding_types: ['float'],
+        }, signal);
+        return {
+          embeddings: response.embeddings.float,
+          promptTokens: response.meta?.billed_units?.input_tokens,
+        };
+      },
+    };
+  },
+};
@@ -0,0 +1,91 @@
+// Typed provider failures, so routes can answer with a meaningful status instead of a generic 500
+
+export type EmbeddingErrorCode =
+  | 'quota_exceeded'
+  | 'invalid_api_key'
+  | 'timeout'
+  | 'input_too_long'
+  | 'circuit_open'
+  | 'provider_error';
+
+export class EmbeddingProviderError extends Error {
+  public retries = 0; // retries spent before giving up, filled in by the caller
+
+  constructor(
+    message: string,
+    public readonly code: EmbeddingErrorCode,
+    public readonly httpStatus: number,
+    public readonly provider: string,
+    public readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'EmbeddingProviderError';
+  }
+}
+
+export class QuotaExceededError extends EmbeddingProviderError {
+  constructor(provider: string, cause?: unknown) {
+    super(`${provider} quota or rate limit exceeded`, 'quota_exceeded', 429, provider, cause);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class InvalidApiKeyError extends EmbeddingProviderError {
+  constructor(provider: string, cause?: unknown) {
+    super(`${provider} rejected the API key`, 'invalid_api_key', 401, provider, cause);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+export class ProviderTimeoutError extends EmbeddingProviderError {
+  constructor(provider: string, cause?: unknown) {
+    super(`${provider} did not respond in time`, 'timeout', 504, provider, cause);
+    this.name = 'ProviderTimeoutError';
+  }
+}
+
+export class InputTooLongError extends EmbeddingProviderError {
+  constructor(provider: string, cause?: unknown) {
+    super(`Input exceeds the ${provider} model's context limit`, 'input_too_long', 413, provider, cause);
+    this.name = 'InputTooLongError';
+  }
+}
+
+export class CircuitOpenError extends EmbeddingProviderError {
+  constructor(provider: string) {
+    super(`${provider} is failing repeatedly; calls are paused for a moment`, 'circuit_open', 503, provider);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// The HTTP status an SDK error carries, if any
+export function errorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+// Maps whatever an SDK or fetch threw onto one of the typed errors above
+export function toEmbeddingProviderError(error: unknown, provider: string): EmbeddingProviderError {
+  if (error instanceof EmbeddingProviderError) {
+    return error;
+  }
+
+  const status = errorStatus(error);
+  const name = (error as { name?: string })?.name ?? '';
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (name === 'AbortError' || name === 'TimeoutError' || /timed? ?out/i.test(name + ' ' + message)) {
+    return new ProviderTimeoutError(provider, error);
+  }
+  if (status === 429 || /quota|rate.?limit|resource.?exhausted/i.test(message)) {
+    return new QuotaExceededError(provider, error);
+  }
+  if (status === 401 || status === 403 || /api.?key (not|in)valid|invalid.*api.?key|incorrect api key/i.test(message)) {
+    return new InvalidApiKeyError(provider, error);
+  }
+  if (status === 413 || /too long|too many tokens|maximum context|context length|exceeds.*(token|limit)/i.test(message)) {
+    return new InputTooLongError(provider, error);
+  }
+
+  return new EmbeddingProviderError(`${provider} request failed: ${message}`, 'provider_error', 502, provider, error);
+}
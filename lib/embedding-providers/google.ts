@@ -0,0 +1,47 @@
+import { GoogleGenerativeAI, TaskType } from '@google/generative-ai';
+import { EmbeddingTaskType, getEmbeddingProviderInfo } from './catalog';
+import {
+  EmbeddingClient,
+  EmbeddingClientOptions,
+  EmbeddingInputType,
+  EmbeddingProviderAdapter,
+  EmbeddingResponse,
+} from './types';
+
+const SYMMETRIC_TASK_TYPES: Record<Exclude<EmbeddingTaskType, 'retrieval'>, TaskType> = {
+  'semantic-similarity': TaskType.SEMANTIC_SIMILARITY,
+  clustering: TaskType.CLUSTERING,
+  classification: TaskType.CLASSIFICATION,
+};
+
+function toGoogleTaskType(taskType: EmbeddingTaskType, inputType: EmbeddingInputType): TaskType {
+  if (taskType === 'retrieval') {
+    return inputType === 'query' ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT;
+  }
+  return SYMMETRIC_TASK_TYPES[taskType];
+}
+
+export const googleAdapter: EmbeddingProviderAdapter = {
+  info: getEmbeddingProviderInfo('google')!,
+
+  createClient({ apiKey, model, dimensions }: EmbeddingClientOptions): EmbeddingClient {
+    const googleModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({ model });
+    console.log('🔧 Google AI client initialized');
+
+    return {
+      async embed(texts, { inputType, taskType, signal }): Promise<EmbeddingResponse> {
+        const googleTaskType = toGoogleTaskType(taskType, inputType);
+        const response = await googleModel.batchEmbedContents({
+          requests: texts.map(text => ({
+            content: { role: 'user', parts: [{ text }] },
+            taskType: googleTaskType,
+            // Supported by the API but missing from this SDK version's request type
+            ...(dimensions ? { outputDimensionality: dimensions } : {}),
+          })),
+        }, { signal });
+        // Gemini does not report usage for embeddings
+        return { embeddings: response.embeddings.map(embedding => embedding.values) };
+      },
+    };
+  },
+};
@@ -0,0 +1,36 @@
+// Minimal JSON client for providers we call over plain REST instead of an SDK
+
+export class ProviderHttpError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly body: string,
+    public readonly headers?: Headers
+  ) {
+    super(message);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+export async function postJson<T>(url: string, apiKey: string, body: unknown, signal?: AbortSignal): Promise<T> {
+  const response = await fetch(url, {
+    signal,
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const text = await response.text();
+    throw new ProviderHttpError(`${url} responded with ${response.status}`, response.status, text, response.headers);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+export function joinUrl(baseURL: string, path: string): string {
+  return `${baseURL.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
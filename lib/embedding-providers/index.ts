@@ -0,0 +1,42 @@
+import { cohereAdapter } from './cohere';
+import { googleAdapter } from './google';
+import { openaiAdapter } from './openai';
+import { openaiCompatibleAdapter } from './openai-compatible';
+import { voyageAdapter } from './voyage';
+import { EmbeddingProviderAdapter } from './types';
+
+export * from './batching';
+export * from './catalog';
+export * from './errors';
+export * from './resilience';
+export * from './tokenizer';
+export * from './types';
+
+const registry = new Map<string, EmbeddingProviderAdapter>();
+
+export function registerEmbeddingProvider(adapter: EmbeddingProviderAdapter): void {
+  registry.set(adapter.info.id, adapter);
+}
+
+export function getEmbeddingProvider(providerId: string): EmbeddingProviderAdapter | undefined {
+  return registry.get(providerId);
+}
+
+export function isEmbeddingProvider(providerId: unknown): providerId is string {
+  return typeof providerId === 'string' && registry.has(providerId);
+}
+
+// Base URLs sent by unauthenticated clients make the server fetch arbitrary hosts,
+// so they are only honoured when the deployment opts in.
+export function resolveClientBaseURL(requested: unknown): string | undefined {
+  if (process.env.ALLOW_CLIENT_BASE_URLS !== 'true' || typeof requested !== 'string' || !requested) {
+    return undefined;
+  }
+  return requested;
+}
+
+registerEmbeddingProvider(googleAdapter);
+registerEmbeddingProvider(openaiAdapter);
+registerEmbeddingProvider(cohereAdapter);
+registerEmbeddingProvider(voyageAdapter);
+registerEmbeddingProvider(openaiCompatibleAdapter);
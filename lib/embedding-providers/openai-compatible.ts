@@ -0,0 +1,39 @@
+import OpenAI from 'openai';
+import { getEmbeddingProviderInfo, OPENAI_COMPATIBLE_PROVIDER } from './catalog';
+import { EmbeddingClient, EmbeddingClientOptions, EmbeddingProviderAdapter, EmbeddingResponse } from './types';
+
+// Self-hosted servers (Ollama, TEI, vLLM) that speak the OpenAI /v1/embeddings protocol
+export const openaiCompatibleAdapter: EmbeddingProviderAdapter = {
+  info: getEmbeddingProviderInfo(OPENAI_COMPATIBLE_PROVIDER)!,
+
+  createClient({ apiKey, model, baseURL }: EmbeddingClientOptions): EmbeddingClient {
+    const endpoint = baseURL || process.env.OPENAI_COMPATIBLE_BASE_URL;
+    if (!endpoint) {
+      throw new Error('A base URL is required for OpenAI-compatible endpoints');
+    }
+
+    const client = new OpenAI({
+      // The SDK insists on a key; most self-hosted servers ignore it
+      apiKey: apiKey || 'not-required',
+      baseURL: endpoint,
+      maxRetries: 0,
+    });
+    console.log('🔧 OpenAI-compatible client initialized:', endpoint);
+
+    return {
+      async embed(texts, { signal }): Promise<EmbeddingResponse> {
+        const response = await client.embeddings.create({
+          model,
+          input: texts,
+          // Many self-hosted servers do not implement the SDK's default base64 encoding
+          encoding_format: 'float',
+        }, { signal });
+        return {
+          embeddings: response.data.map(item => item.embedding),
+          // Some servers omit usage or always report zero; treat that as unknown
+          promptTokens: response.usage?.prompt_tokens || undefined,
+        };
+      },
+    };
+  },
+};
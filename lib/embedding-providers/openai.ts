@@ -0,0 +1,27 @@
+import OpenAI from 'openai';
+import { getEmbeddingProviderInfo } from './catalog';
+import { EmbeddingClient, EmbeddingClientOptions, EmbeddingProviderAdapter, EmbeddingResponse } from './types';
+
+export const openaiAdapter: EmbeddingProviderAdapter = {
+  info: getEmbeddingProviderInfo('openai')!,
+
+  createClient({ apiKey, model, dimensions }: EmbeddingClientOptions): EmbeddingClient {
+    // Retries and timeouts are handled by callProvider, not the SDK
+    const client = new OpenAI({ apiKey, maxRetries: 0 });
+    console.log('🔧 OpenAI client initialized');
+
+    return {
+      async embed(texts, { signal }): Promise<EmbeddingResponse> {
+        const response = await client.embeddings.create({
+          model,
+          input: texts,
+          ...(dimensions ? { dimensions } : {}),
+        }, { signal });
+        return {
+          embeddings: response.data.map(item => item.embedding),
+          promptTokens: response.usage.prompt_tokens,
+        };
+      },
+    };
+  },
+};
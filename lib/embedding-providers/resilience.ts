@@ -0,0 +1,225 @@
+import { CircuitOpenError, EmbeddingProviderError, ProviderTimeoutError, errorStatus } from './errors';
+
+// Retry, timeout and circuit-breaker policy applied to every outbound provider call
+
+export interface RetryPolicy {
+  maxAttempts: number; // including the first call
+  timeoutMs: number; // per attempt
+  baseDelayMs: number; // backoff before the first retry, doubled on each attempt
+  maxDelayMs: number; // cap on backoff; a longer Retry-After gives up instead of waiting
+  failureThreshold: number; // consecutive transient failures that open the circuit
+  cooldownMs: number; // how long an open circuit rejects calls before letting one through
+}
+
+// Mutable tally handed to callProvider so services can report how many retries they needed
+export interface RetryCounter {
+  retries: number;
+}
+
+export interface ProviderCallOptions {
+  provider: string;
+  circuitKey?: string; // defaults to the provider id
+  policy?: RetryPolicy;
+  counter?: RetryCounter;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// Read on every call so a local fake provider can be exercised with short delays
+export function getRetryPolicy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+  return {
+    maxAttempts: Math.max(1, envNumber('PROVIDER_MAX_ATTEMPTS', 3)),
+    timeoutMs: envNumber('PROVIDER_TIMEOUT_MS', 30000),
+    baseDelayMs: envNumber('PROVIDER_RETRY_BASE_MS', 500),
+    maxDelayMs: envNumber('PROVIDER_RETRY_MAX_MS', 10000),
+    failureThreshold: Math.max(1, envNumber('PROVIDER_CIRCUIT_THRESHOLD', 5)),
+    cooldownMs: envNumber('PROVIDER_CIRCUIT_COOLDOWN_MS', 30000),
+    ...overrides,
+  };
+}
+
+class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+
+  // Closed: always allowed. Open: rejected until the cooldown passes, then a single
+  // trial call is let through and the cooldown restarts until it reports back.
+  allowRequest(policy: RetryPolicy, now = Date.now()): boolean {
+    if (this.openedAt === null) {
+      return true;
+    }
+    if (now - this.openedAt < policy.cooldownMs) {
+      return false;
+    }
+    this.openedAt = now;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+  }
+
+  recordFailure(policy: RetryPolicy, now = Date.now()): void {
+    this.consecutiveFailures++;
+    if (this.openedAt !== null || this.consecutiveFailures >= policy.failureThreshold) {
+      this.openedAt = now;
+    }
+  }
+
+  isOpen(): boolean {
+    return this.openedAt !== null;
+  }
+}
+
+// One breaker per provider (or per endpoint for self-hosted servers), shared across requests
+const breakers = new Map<string, CircuitBreaker>();
+
+function getBreaker(key: string): CircuitBreaker {
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = new CircuitBreaker();
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+export function isCircuitOpen(key: string): boolean {
+  return breakers.get(key)?.isOpen() ?? false;
+}
+
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+}
+
+// 408, 429, 5xx, timeouts and dropped connections are worth another attempt;
+// bad keys, oversized inputs and other 4xx answers will not change on retry
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) {
+    return false;
+  }
+  if (error instanceof EmbeddingProviderError) {
+    return error.code === 'timeout' || error.code === 'quota_exceeded';
+  }
+
+  const status = errorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  const name = (error as { name?: string })?.name ?? '';
+  const message = error instanceof Error ? error.message : String(error);
+  return /AbortError|TimeoutError|APIConnectionError/.test(name) ||
+    /fetch failed|ECONNRESET|ECONNREFUSED|ETIMEDOUT|socket hang up|network/i.test(message);
+}
+
+function readHeader(headers: unknown, name: string): string | null {
+  if (!headers || typeof headers !== 'object') {
+    return null;
+  }
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name);
+  }
+  const value = (headers as Record<string, unknown>)[name] ?? (headers as Record<string, unknown>)[name.toLowerCase()];
+  return typeof value === 'string' ? value : null;
+}
+
+// Retry-After in milliseconds, from either delay-seconds or an HTTP date
+export function retryAfterMs(error: unknown, now = Date.now()): number | null {
+  const header = readHeader((error as { headers?: unknown })?.headers, 'retry-after');
+  if (!header) {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// Exponential backoff with full jitter
+export function backoffDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Runs a call with an abort signal that fires after timeoutMs. The race also covers
+// clients that ignore the signal.
+export async function withTimeout<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  provider: string
+): Promise<T> {
+  if (!timeoutMs) {
+    return call(new AbortController().signal);
+  }
+
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new ProviderTimeoutError(provider));
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([call(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Calls a provider under the retry policy. Transient failures are retried with backoff
+// (or the server's Retry-After) and counted towards the provider's circuit breaker;
+// everything else is rethrown immediately for the caller to classify.
+export async function callProvider<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  { provider, circuitKey = provider, policy = getRetryPolicy(), counter }: ProviderCallOptions
+): Promise<T> {
+  const breaker = getBreaker(circuitKey);
+
+  for (let attempt = 1; ; attempt++) {
+    if (!breaker.allowRequest(policy)) {
+      throw new CircuitOpenError(provider);
+    }
+
+    try {
+      const result = await withTimeout(call, policy.timeoutMs, provider);
+      breaker.recordSuccess();
+      return result;
+    } catch (error) {
+      if (!isTransientError(error)) {
+        throw error;
+      }
+      breaker.recordFailure(policy);
+
+      if (attempt >= policy.maxAttempts) {
+        throw error;
+      }
+
+      const requested = retryAfterMs(error);
+      if (requested !== null && requested > policy.maxDelayMs) {
+        console.log(`⏳ ${provider} asked to retry after ${requested}ms, more than we wait; giving up`);
+        throw error;
+      }
+
+      const delay = Math.max(requested ?? 0, backoffDelay(attempt, policy));
+      if (counter) {
+        counter.retries++;
+      }
+      console.log(`🔁 ${provider} call failed (attempt ${attempt}/${policy.maxAttempts}), retrying in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base';
+
+// Local BPE tokenizer for pre-flight estimates and context-limit truncation.
+// cl100k_base is exact for OpenAI's embedding models and a close estimate for the
+// rest; provider-reported usage is preferred whenever a response includes it.
+
+let encoder: Tiktoken | null = null;
+
+function getEncoder(): Tiktoken {
+  if (!encoder) {
+    encoder = new Tiktoken(cl100kBase);
+  }
+  return encoder;
+}
+
+// Special-token markers in user text are counted as plain text, never rejected
+function encode(text: string): number[] {
+  return getEncoder().encode(text, [], []);
+}
+
+export function countTokens(text: string): number {
+  return encode(text).length;
+}
+
+export interface TruncatedText {
+  text: string;
+  tokens: number;
+  truncated: boolean;
+}
+
+// Cuts text down to at most maxTokens tokens
+export function truncateToTokens(text: string, maxTokens: number): TruncatedText {
+  const tokens = encode(text);
+  if (tokens.length <= maxTokens) {
+    return { text, tokens: tokens.length, truncated: false };
+  }
+  return { text: getEncoder().decode(tokens.slice(0, maxTokens)), tokens: maxTokens, truncated: true };
+}
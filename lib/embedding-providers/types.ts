@@ -0,0 +1,32 @@
+import { EmbeddingProviderInfo, EmbeddingTaskType } from './catalog';
+
+// Whether a text is the search query or one of the passages being searched
+export type EmbeddingInputType = 'query' | 'document';
+
+export interface EmbeddingClientOptions {
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+  dimensions?: number; // reduced (Matryoshka) output size; omitted for the native size
+}
+
+export interface EmbedOptions {
+  inputType: EmbeddingInputType;
+  taskType: EmbeddingTaskType;
+  signal?: AbortSignal; // aborts the request when the retry policy's timeout fires
+}
+
+export interface EmbeddingResponse {
+  embeddings: number[][];
+  promptTokens?: number; // billed input tokens, when the provider reports them
+}
+
+// A configured connection to a provider for a single model
+export interface EmbeddingClient {
+  embed(texts: string[], options: EmbedOptions): Promise<EmbeddingResponse>;
+}
+
+export interface EmbeddingProviderAdapter {
+  info: EmbeddingProviderInfo;
+  createClient(options: EmbeddingClientOptions): EmbeddingClient;
+}
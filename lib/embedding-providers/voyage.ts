@@ -0,0 +1,37 @@
+import { getEmbeddingProviderInfo } from './catalog';
+import { joinUrl, postJson } from './http';
+import { EmbeddingClient, EmbeddingClientOptions, EmbeddingProviderAdapter, EmbeddingResponse } from './types';
+
+const DEFAULT_BASE_URL = 'https://api.voyageai.com';
+
+interface VoyageEmbedResponse {
+  data: { embedding: number[]; index: number }[];
+  usage?: { total_tokens?: number };
+}
+
+export const voyageAdapter: EmbeddingProviderAdapter = {
+  info: getEmbeddingProviderInfo('voyage')!,
+
+  createClient({ apiKey, model, baseURL, dimensions }: EmbeddingClientOptions): EmbeddingClient {
+    const url = joinUrl(baseURL || process.env.VOYAGE_BASE_URL || DEFAULT_BASE_URL, '/v1/embeddings');
+    console.log('🔧 Voyage AI client initialized');
+
+    return {
+      async embed(texts, { inputType, taskType, signal }): Promise<EmbeddingResponse> {
+        // Voyage accepts our 'query' / 'document' input types as-is; null means no retrieval prompt
+        const response = await postJson<VoyageEmbedResponse>(url, apiKey, {
+          model,
+          input: texts,
+          input_type: taskType === 'retrieval' ? inputType : null,
+          ...(dimensions ? { output_dimension: dimensions } : {}),
+        }, signal);
+        return {
+          embeddings: [...response.data]
+            .sort((a, b) => a.index - b.index)
+            .map(item => item.embedding),
+          promptTokens: response.usage?.total_tokens,
+        };
+      },
+    };
+  },
+};
@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server'
+import type { ProviderCredentials } from './api-keys'
+import { EmbeddingService, FallbackPolicy, FallbackRequest, parseFallbackPolicy } from './embeddings'
+import {
+  EmbeddingProviderError,
+  EmbeddingTaskType,
+  getEmbeddingModelInfo,
+  isEmbeddingProvider,
+  isEmbeddingTaskType,
+  resolveClientBaseURL,
+  supportsOutputDimensions,
+} from './embedding-providers'
+
+// Request handling shared by the embedding routes, signed-in and legacy alike: the common
+// embedding options, client credentials and typed error responses. Helpers that can fail return
+// the response to send instead, so a route checks `instanceof NextResponse` and returns it.
+// Sign-in, saved keys and usage recording are in user-request.ts.
+
+export interface EmbeddingOptions {
+  provider: string
+  model: string
+  taskType: EmbeddingTaskType
+  dimensions?: number
+  seed?: number
+  fallback: FallbackPolicy // a secondary provider's credentials are filled in by the credential helpers
+}
+
+interface EmbeddingOptionsRequest extends FallbackRequest {
+  provider?: unknown
+  model?: unknown
+  taskType?: unknown
+  dimensions?: unknown
+  seed?: unknown
+}
+
+export function badRequest(error: string): NextResponse {
+  return NextResponse.json({ error }, { status: 400 })
+}
+
+// Validates the provider, model, task type, output size, seed and fallback policy of a request
+// body. `feature` names what needs the vectors in the unsupported-model message.
+export function parseEmbeddingOptions(body: EmbeddingOptionsRequest, feature?: string): EmbeddingOptions | NextResponse {
+  const { provider = 'google', model = 'gemini-embedding-001', taskType = 'retrieval', dimensions, seed } = body
+
+  if (!isEmbeddingProvider(provider) || typeof model !== 'string' || !getEmbeddingModelInfo(provider, model)) {
+    return badRequest(feature
+      ? `${feature} needs an embedding model; unsupported provider or model: ${provider}/${model}`
+      : `Unsupported provider or model: ${provider}/${model}`)
+  }
+
+  if (!isEmbeddingTaskType(taskType)) {
+    return badRequest(`Unsupported task type: ${taskType}`)
+  }
+
+  if (dimensions !== undefined && (typeof dimensions !== 'number' || !supportsOutputDimensions(provider, model, dimensions))) {
+    return badRequest(`${model} cannot return ${dimensions}-dimensional embeddings`)
+  }
+
+  if (seed !== undefined && !Number.isInteger(seed)) {
+    return badRequest('seed must be an integer')
+  }
+
+  const fallback = parseFallbackPolicy(body)
+  if (!fallback) {
+    return badRequest('Invalid fallback policy')
+  }
+
+  return { provider, model, taskType, dimensions, seed: seed as number | undefined, fallback }
+}
+
+interface ClientCredentialsRequest {
+  apiKey?: unknown
+  baseUrl?: unknown
+  fallbackApiKey?: unknown
+}
+
+// Keys sent by an unauthenticated client, with the secondary fallback's filled into options.fallback.
+// Base URLs are honoured only where the deployment allows them; see resolveClientBaseURL.
+export function getClientCredentials(options: EmbeddingOptions, { apiKey, baseUrl, fallbackApiKey }: ClientCredentialsRequest): ProviderCredentials {
+  if (options.fallback.mode === 'secondary') {
+    options.fallback.apiKey = typeof fallbackApiKey === 'string' && fallbackApiKey ? fallbackApiKey : undefined
+  }
+  return {
+    apiKey: typeof apiKey === 'string' && apiKey ? apiKey : null,
+    baseURL: resolveClientBaseURL(baseUrl),
+  }
+}
+
+// An embedding service for the options, or for one of several models sharing them
+export function createEmbeddingService(
+  options: EmbeddingOptions,
+  { apiKey, baseURL }: ProviderCredentials,
+  { provider, model }: { provider: string; model: string } = options
+): EmbeddingService {
+  const { taskType, fallback, dimensions, seed } = options
+  return new EmbeddingService(provider, model, apiKey ?? undefined, { baseURL, taskType, fallback, dimensions, seed })
+}
+
+// Typed provider failures keep their status, code and retry count; anything else is a 500
+export function embeddingErrorResponse(error: unknown, message: string): NextResponse {
+  if (error instanceof EmbeddingProviderError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code, provider: error.provider, retries: error.retries },
+      { status: error.httpStatus }
+    )
+  }
+  return NextResponse.json({ error: message }, { status: 500 })
+}
@@ -1,44 +1,205 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import OpenAI from 'openai';
-
-export type EmbeddingProvider = 'google' | 'openai';
-export type EmbeddingModel = 'gemini-embedding-001' | 'text-embedding-3-small' | 'text-embedding-3-large';
+import {
+  EmbeddingClient,
+  EmbeddingInputType,
+  EmbeddingProviderAdapter,
+  EmbeddingTaskType,
+  getEmbeddingModelInfo,
+  getEmbeddingProvider,
+  isEmbeddingProvider,
+  EmbeddingErrorCode,
+  EmbeddingProviderError,
+  callProvider,
+  mapWithConcurrency,
+  planBatches,
+  RetryCounter,
+  supportsOutputDimensions,
+  toEmbeddingProviderError,
+  truncateToTokens,
+  TruncatedText,
+} from './embedding-providers';
+import { EmbeddingCache, embeddingCacheKey, getEmbeddingCache } from './embedding-cache';
+import { HybridOptions, HybridScores, fuseScores, rankHybrid } from './fusion';
+import { LexicalSearchService } from './lexical';
+import type { MmrScores } from './mmr';
+import { hashString } from './text-analysis';
+import { SimilarityMetric, compareScores, compareVectors, cosineSimilarity } from './vector-math';
+
+// Provider and model ids are open-ended; the registry in ./embedding-providers is the source of truth
+export type EmbeddingProvider = string;
+export type EmbeddingModel = string;
 
 export interface EmbeddingResult {
   embedding: number[];
   text: string;
 }
 
+// Where a vector came from: the requested provider, a secondary provider, or the mock generator
+export interface EmbeddingProvenance {
+  source: 'provider' | 'secondary' | 'mock';
+  provider: string;
+  model: string;
+  fallbackReason?: EmbeddingErrorCode | 'no_api_key';
+  cached?: boolean; // served from the embedding cache instead of a provider call
+}
+
 export interface SimilarityResult {
   text: string;
   similarity: number;
   index: number;
+  provenance?: EmbeddingProvenance;
+  tokens?: number; // input tokens after truncation to the model's limit
+  truncated?: boolean;
+  hybrid?: HybridScores; // component scores and ranks when dense and lexical scores are fused
+  mmr?: MmrScores; // relevance and redundancy penalty in MMR (diversified) ranking
+}
+
+// What to do when the provider call fails
+export type FallbackPolicy =
+  | { mode: 'fail' }
+  | { mode: 'mock' }
+  | { mode: 'secondary'; provider: EmbeddingProvider; model?: EmbeddingModel; apiKey?: string; baseURL?: string };
+
+export interface FallbackRequest {
+  fallback?: unknown;
+  fallbackProvider?: unknown;
+  fallbackModel?: unknown;
+}
+
+// Validates the fallback fields of a request body; returns null when they are malformed.
+// Credentials for a secondary provider are filled in by the caller.
+export function parseFallbackPolicy({ fallback = 'fail', fallbackProvider, fallbackModel }: FallbackRequest): FallbackPolicy | null {
+  if (fallback === 'fail' || fallback === 'mock') {
+    return { mode: fallback };
+  }
+  if (fallback !== 'secondary' || !isEmbeddingProvider(fallbackProvider)) {
+    return null;
+  }
+
+  const model = typeof fallbackModel === 'string' && fallbackModel
+    ? fallbackModel
+    : getEmbeddingProvider(fallbackProvider)!.info.defaultModel;
+  if (!getEmbeddingModelInfo(fallbackProvider, model)) {
+    return null;
+  }
+
+  return { mode: 'secondary', provider: fallbackProvider, model };
+}
+
+export interface EmbeddingServiceOptions {
+  baseURL?: string; // for self-hosted / stand-in endpoints
+  taskType?: EmbeddingTaskType;
+  concurrency?: number; // overrides the provider's maxConcurrency
+  fallback?: FallbackPolicy; // defaults to failing loudly
+  cache?: EmbeddingCache | null; // defaults to the shared cache; null disables it
+  dimensions?: number; // reduced output size for Matryoshka models; see supportsOutputDimensions
+  seed?: number; // gives mock embeddings a different (still deterministic) vector space
 }
 
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+}
+
+// Tokens actually sent to one provider, for usage tracking
+export interface ProviderUsage {
+  provider: EmbeddingProvider;
+  model: EmbeddingModel;
+  tokens: number;
+}
+
+export interface EmbeddingBatch {
+  embeddings: number[][];
+  provenance: EmbeddingProvenance[];
+}
+
+// Token count of one input after it was cut to the model's context limit
+export interface InputTokens {
+  tokens: number;
+  truncated: boolean;
+}
+
+export interface QueryAndPassageEmbeddings {
+  queryEmbedding: number[];
+  passageEmbeddings: number[][];
+  queryProvenance: EmbeddingProvenance;
+  passageProvenance: EmbeddingProvenance[];
+  queryTokens: InputTokens;
+  passageTokens: InputTokens[];
+}
+
+interface EmbeddingGroupRequest {
+  texts: string[];
+  inputType: EmbeddingInputType;
+}
+
+interface CachedEmbeddings {
+  embeddings: number[][];
+  cached: boolean[];
+}
+
+// Dimensions learned from real responses, for models the catalog cannot describe up front
+const discoveredDimensions = new Map<string, number>();
+
 export class EmbeddingService {
-  private googleModel: any; // eslint-disable-line @typescript-eslint/no-explicit-any
-  private openaiClient: OpenAI | null = null;
+  private adapter: EmbeddingProviderAdapter;
+  private client: EmbeddingClient | null = null;
   private provider: EmbeddingProvider;
   private model: EmbeddingModel;
   private apiKey: string | undefined;
+  private baseURL: string | undefined;
+  private taskType: EmbeddingTaskType;
+  private outputDimensions: number | undefined;
+  private seed: number | undefined;
+  private concurrency: number;
+  private fallback: FallbackPolicy;
   private usedRealAPI: boolean = false;
+  private secondaryUsedRealAPI: boolean = false;
+  private retryCounter: RetryCounter = { retries: 0 };
+  private secondaryRetries: number = 0;
+  private cache: EmbeddingCache | null;
+  private cacheStats: EmbeddingCacheStats = { hits: 0, misses: 0 };
+  private tokensSent: number = 0;
+  private secondaryUsage: ProviderUsage[] = [];
+  private preparedInputs = new Map<string, TruncatedText>();
+
+  constructor(
+    provider: EmbeddingProvider = 'google',
+    model?: EmbeddingModel,
+    apiKey?: string,
+    options: EmbeddingServiceOptions = {}
+  ) {
+    const adapter = getEmbeddingProvider(provider);
+    if (!adapter) {
+      throw new Error(`Unsupported provider: ${provider}`);
+    }
 
-  constructor(provider: EmbeddingProvider = 'google', model: EmbeddingModel = 'gemini-embedding-001', apiKey?: string) {
+    this.adapter = adapter;
     this.provider = provider;
-    this.model = model;
-    this.apiKey = apiKey || this.getDefaultApiKey(provider);
+    this.model = model || adapter.info.defaultModel;
+    this.apiKey = apiKey || process.env[adapter.info.envApiKey];
+    this.baseURL = options.baseURL;
+    this.taskType = options.taskType ?? 'retrieval';
+    // Asking for the native size is the same as not asking
+    const nativeDimensions = getEmbeddingModelInfo(provider, this.model)?.dimensions;
+    this.outputDimensions = options.dimensions && options.dimensions !== nativeDimensions ? options.dimensions : undefined;
+    this.concurrency = options.concurrency ?? adapter.info.maxConcurrency;
+    this.fallback = options.fallback ?? { mode: 'fail' };
+    this.cache = options.cache === undefined ? getEmbeddingCache() : options.cache;
+    this.seed = options.seed;
     
     console.log('🔧 EmbeddingService constructor called');
     console.log('🔧 Provider:', provider);
-    console.log('🔧 Model:', model);
+    console.log('🔧 Model:', this.model);
+    console.log('🔧 Task type:', this.taskType);
+    console.log('🔧 Output dimensions:', this.outputDimensions ?? 'native');
     console.log('🔑 API Key provided:', !!apiKey);
     console.log('🔑 Environment API Key exists:', !!this.apiKey);
     console.log('🔑 Final API Key length:', this.apiKey?.length || 0);
     console.log('🔑 API Key preview:', this.apiKey ? this.apiKey.substring(0, 10) + '...' : 'None');
     
-    if (!this.apiKey) {
+    if (!this.apiKey && this.adapter.info.requiresApiKey) {
       console.log('⚠️ No API key found - will use mock embeddings');
-    } else {
+    } else if (this.apiKey) {
       console.log('✅ API key found - will attempt real API calls');
       this.validateApiKey();
     }
@@ -46,150 +207,279 @@ export class EmbeddingService {
     this.initializeProvider();
   }
 
-  private getDefaultApiKey(provider: EmbeddingProvider): string | undefined {
-    if (provider === 'google') {
-      return process.env.GOOGLE_API_KEY;
-    } else if (provider === 'openai') {
-      return process.env.OPENAI_API_KEY;
-    }
-    return undefined;
-  }
-
   private validateApiKey(): void {
-    if (this.provider === 'google') {
-      if (!/^AIza[0-9A-Za-z_-]{35}$/.test(this.apiKey || '')) {
-        console.log('❌ Invalid Google AI API key format detected');
-      } else {
-        console.log('✅ Google AI API key format is valid');
-      }
-    } else if (this.provider === 'openai') {
-      // OpenAI keys start with "sk-" and can contain alphanumeric chars, hyphens, and underscores
-      // Length can vary from ~48 to 164+ characters
-      if (!/^sk-[0-9A-Za-z_-]{20,200}$/.test(this.apiKey || '')) {
-        console.log('❌ Invalid OpenAI API key format detected');
-      } else {
-        console.log('✅ OpenAI API key format is valid');
-      }
+    const { label, apiKeyPattern } = this.adapter.info;
+    if (!apiKeyPattern.test(this.apiKey || '')) {
+      console.log(`❌ Invalid ${label} API key format detected`);
+    } else {
+      console.log(`✅ ${label} API key format is valid`);
     }
   }
 
   private initializeProvider(): void {
-    if (!this.apiKey) {
+    if (!this.apiKey && this.adapter.info.requiresApiKey) {
       console.log('⚠️ No API key - providers not initialized');
       return;
     }
 
-    if (this.provider === 'google') {
-      const client = new GoogleGenerativeAI(this.apiKey);
-      this.googleModel = client.getGenerativeModel({ model: this.model as 'gemini-embedding-001' });
-      console.log('🔧 Google AI client initialized');
-    } else if (this.provider === 'openai') {
-      this.openaiClient = new OpenAI({
-        apiKey: this.apiKey,
+    try {
+      this.client = this.adapter.createClient({
+        apiKey: this.apiKey || '',
+        model: this.model,
+        baseURL: this.baseURL,
+        dimensions: this.outputDimensions,
       });
-      console.log('🔧 OpenAI client initialized');
+    } catch (error) {
+      console.error(`❌ ${this.provider.toUpperCase()} client could not be initialized:`, error);
     }
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
-    console.log('🚀 generateEmbedding called for text:', text.substring(0, 50) + '...');
-    
-    if (!this.apiKey) {
-      console.log('🔄 No API key, using mock embedding');
-      return this.generateMockEmbedding(text);
-    }
-    
-    try {
-      console.log(`🌐 Making API call to ${this.provider.toUpperCase()}...`);
-      const startTime = Date.now();
-      
-      let result: number[];
-      
-      if (this.provider === 'google') {
-        result = await this.generateGoogleEmbedding(text);
-      } else if (this.provider === 'openai') {
-        result = await this.generateOpenAIEmbedding(text);
-      } else {
-        throw new Error(`Unsupported provider: ${this.provider}`);
-      }
-      
-      const duration = Date.now() - startTime;
-      console.log(`✅ ${this.provider.toUpperCase()} API call successful (${duration}ms)`);
-      console.log(`📊 Embedding dimensions: ${result.length}`);
-      console.log(`📊 First few values:`, result.slice(0, 5));
-      
-      this.usedRealAPI = true;
-      return result;
-    } catch (error) {
-      console.error(`❌ ${this.provider.toUpperCase()} API call failed:`, error);
-      console.log('🔄 Falling back to mock embedding');
-      return this.generateMockEmbedding(text);
+  private get dimensionsKey(): string {
+    return `${this.provider}:${this.baseURL ?? ''}:${this.model}`;
+  }
+
+  private recordDimensions(embedding: number[]): void {
+    if (!this.outputDimensions && !discoveredDimensions.has(this.dimensionsKey)) {
+      console.log(`📐 Discovered ${embedding.length} dimensions for ${this.model}`);
+      discoveredDimensions.set(this.dimensionsKey, embedding.length);
     }
   }
 
-  private async generateGoogleEmbedding(text: string): Promise<number[]> {
-    const result = await this.googleModel.embedContent(text);
-    return result.embedding.values;
+  // Self-hosted endpoints get their own breaker so one dead server does not block the others
+  private get circuitKey(): string {
+    return this.baseURL ? `${this.provider}:${this.baseURL}` : this.provider;
   }
 
-  private async generateOpenAIEmbedding(text: string): Promise<number[]> {
-    const response = await this.openaiClient!.embeddings.create({
-      model: this.model as 'text-embedding-3-small' | 'text-embedding-3-large',
-      input: text,
-    });
-    return response.data[0].embedding;
+  // Native size from the catalog when known, otherwise whatever the endpoint has returned so far
+  private getNativeDimensions(): number | undefined {
+    const listed = getEmbeddingModelInfo(this.provider, this.model)?.dimensions;
+    return listed || discoveredDimensions.get(this.dimensionsKey);
+  }
+
+  // Size of the vectors this service returns
+  public getDimensions(): number | undefined {
+    return this.outputDimensions ?? this.getNativeDimensions();
   }
 
-  async generateEmbeddings(texts: string[]): Promise<number[][]> {
+  async generateEmbedding(text: string, inputType: EmbeddingInputType = 'query'): Promise<number[]> {
+    console.log('🚀 generateEmbedding called for text:', text.substring(0, 50) + '...');
+    const [group] = await this.embedGroups([{ texts: [text], inputType }]);
+    return group.embeddings[0];
+  }
+
+  async generateEmbeddings(texts: string[], inputType: EmbeddingInputType = 'document'): Promise<number[][]> {
     console.log(`🚀 generateEmbeddings called for ${texts.length} texts`);
-    
-    if (!this.apiKey) {
+    const [group] = await this.embedGroups([{ texts, inputType }]);
+    return group.embeddings;
+  }
+
+  // Embeds the query and passages as one unit so both always come from the same
+  // vector space: if either side fails, the fallback policy applies to both.
+  async embedQueryAndPassages(query: string, passages: string[]): Promise<QueryAndPassageEmbeddings> {
+    console.log(`🚀 embedQueryAndPassages called for 1 query and ${passages.length} passages`);
+    const [queryGroup, passageGroup] = await this.embedGroups([
+      { texts: [query], inputType: 'query' },
+      { texts: passages, inputType: 'document' },
+    ]);
+
+    return {
+      queryEmbedding: queryGroup.embeddings[0],
+      passageEmbeddings: passageGroup.embeddings,
+      queryProvenance: queryGroup.provenance[0],
+      passageProvenance: passageGroup.provenance,
+      queryTokens: this.getInputTokens(query),
+      passageTokens: passages.map(passage => this.getInputTokens(passage)),
+    };
+  }
+
+  // The text as it will be sent: cut to the model's per-input token limit
+  private prepareInput(text: string): TruncatedText {
+    let prepared = this.preparedInputs.get(text);
+    if (!prepared) {
+      const maxInputTokens = getEmbeddingModelInfo(this.provider, this.model)?.maxInputTokens ?? Infinity;
+      prepared = truncateToTokens(text, maxInputTokens);
+      if (prepared.truncated) {
+        console.log(`✂️ Truncated an input to ${maxInputTokens} tokens for ${this.model}`);
+      }
+      this.preparedInputs.set(text, prepared);
+    }
+    return prepared;
+  }
+
+  public getInputTokens(text: string): InputTokens {
+    const { tokens, truncated } = this.prepareInput(text);
+    return { tokens, truncated };
+  }
+
+  private async embedGroups(groups: EmbeddingGroupRequest[]): Promise<EmbeddingBatch[]> {
+    if (!this.client) {
       console.log('🔄 No API key, using mock embeddings');
-      return texts.map(text => this.generateMockEmbedding(text));
+      return this.mockGroups(groups, 'no_api_key');
     }
-    
+
     try {
-      console.log(`🌐 Making batch API call to ${this.provider.toUpperCase()}...`);
+      console.log(`🌐 Making API calls to ${this.provider.toUpperCase()}...`);
       const startTime = Date.now();
-      
-      let results: number[][];
-      
-      if (this.provider === 'google') {
-        results = await this.generateGoogleEmbeddings(texts);
-      } else if (this.provider === 'openai') {
-        results = await this.generateOpenAIEmbeddings(texts);
-      } else {
-        throw new Error(`Unsupported provider: ${this.provider}`);
-      }
-      
+      const client = this.client;
+
+      const results = await Promise.all(
+        groups.map(group => this.embedWithCache(client, group.texts, group.inputType))
+      );
+
       const duration = Date.now() - startTime;
-      console.log(`✅ ${this.provider.toUpperCase()} batch API call successful (${duration}ms)`);
-      console.log(`📊 Generated ${results.length} embeddings`);
-      
+      console.log(`✅ ${this.provider.toUpperCase()} API calls successful (${duration}ms)`);
+
+      const first = results.find(result => result.embeddings.length > 0)?.embeddings[0];
+      if (first) {
+        console.log(`📊 Embedding dimensions: ${first.length}`);
+        this.recordDimensions(first);
+      }
       this.usedRealAPI = true;
-      return results;
+
+      const provenance: EmbeddingProvenance = { source: 'provider', provider: this.provider, model: this.model };
+      const cachedProvenance: EmbeddingProvenance = { ...provenance, cached: true };
+      return results.map(({ embeddings, cached }) => ({
+        embeddings,
+        provenance: cached.map(hit => (hit ? cachedProvenance : provenance)),
+      }));
     } catch (error) {
-      console.error(`❌ ${this.provider.toUpperCase()} batch API call failed:`, error);
+      const providerError = toEmbeddingProviderError(error, this.provider);
+      providerError.retries = this.retryCounter.retries;
+      console.error(`❌ ${this.provider.toUpperCase()} API call failed (${providerError.code}):`, error);
+      return this.applyFallback(groups, providerError);
+    }
+  }
+
+  private async applyFallback(groups: EmbeddingGroupRequest[], error: EmbeddingProviderError): Promise<EmbeddingBatch[]> {
+    const policy = this.fallback;
+
+    if (policy.mode === 'mock') {
       console.log('🔄 Falling back to mock embeddings');
-      return texts.map(text => this.generateMockEmbedding(text));
+      return this.mockGroups(groups, error.code);
+    }
+
+    if (policy.mode === 'secondary') {
+      console.log(`🔄 Falling back to secondary provider ${policy.provider}`);
+      const secondary = new EmbeddingService(policy.provider, policy.model, policy.apiKey, {
+        baseURL: policy.baseURL,
+        taskType: this.taskType,
+        fallback: { mode: 'fail' },
+        // Keep the reduced size when the secondary model offers it too
+        dimensions: this.outputDimensions && policy.model && supportsOutputDimensions(policy.provider, policy.model, this.outputDimensions)
+          ? this.outputDimensions
+          : undefined,
+      });
+      try {
+        const results = await secondary.embedGroups(groups);
+        this.secondaryUsedRealAPI = secondary.wasRealAPIUsed();
+        return results.map(result => ({
+          embeddings: result.embeddings,
+          provenance: result.provenance.map(item => ({ ...item, source: 'secondary' as const, fallbackReason: error.code })),
+        }));
+      } finally {
+        this.secondaryRetries = secondary.getRetryCount();
+        this.secondaryUsage = secondary.getProviderUsage();
+        const secondaryStats = secondary.getCacheStats();
+        this.cacheStats.hits += secondaryStats.hits;
+        this.cacheStats.misses += secondaryStats.misses;
+      }
     }
+
+    throw error;
   }
 
-  private async generateGoogleEmbeddings(texts: string[]): Promise<number[][]> {
-    const results = await Promise.all(
-      texts.map(text => this.googleModel.embedContent(text))
-    );
-    return results.map(result => result.embedding.values);
+  private mockGroups(groups: EmbeddingGroupRequest[], reason: EmbeddingProvenance['fallbackReason']): EmbeddingBatch[] {
+    const provenance: EmbeddingProvenance = { source: 'mock', provider: this.provider, model: this.model, fallbackReason: reason };
+    return groups.map(group => ({
+      embeddings: group.texts.map(text => this.generateMockEmbedding(text)),
+      provenance: group.texts.map(() => provenance),
+    }));
   }
 
-  private async generateOpenAIEmbeddings(texts: string[]): Promise<number[][]> {
-    const response = await this.openaiClient!.embeddings.create({
-      model: this.model as 'text-embedding-3-small' | 'text-embedding-3-large',
-      input: texts,
+  private cacheKey(text: string, inputType: EmbeddingInputType): string {
+    return embeddingCacheKey({
+      provider: this.provider,
+      endpoint: this.baseURL,
+      model: this.model,
+      taskType: this.taskType,
+      inputType,
+      dimensions: this.outputDimensions ?? getEmbeddingModelInfo(this.provider, this.model)?.dimensions ?? 0,
+      text,
     });
-    return response.data.map(item => item.embedding);
   }
 
+  // Serves what it can from the cache and embeds each remaining distinct text once
+  private async embedWithCache(
+    client: EmbeddingClient,
+    texts: string[],
+    inputType: EmbeddingInputType
+  ): Promise<CachedEmbeddings> {
+    const keys = texts.map(text => this.cacheKey(text, inputType));
+    const hits = this.cache ? await this.cache.getMany(keys) : keys.map(() => undefined);
+
+    const missing = new Map<string, string>();
+    keys.forEach((key, index) => {
+      if (!hits[index] && !missing.has(key)) {
+        missing.set(key, texts[index]);
+      }
+    });
+
+    const cached = hits.map(Boolean);
+    const hitCount = cached.filter(Boolean).length;
+    this.cacheStats.hits += hitCount;
+    this.cacheStats.misses += texts.length - hitCount;
+    if (this.cache) {
+      console.log(`🗄️ Embedding cache: ${hitCount} hits, ${missing.size} distinct texts to embed`);
+    }
+
+    const missingKeys = [...missing.keys()];
+    const fresh = missingKeys.length > 0
+      ? await this.embedInBatches(client, [...missing.values()], inputType, missingKeys)
+      : [];
+    const freshByKey = new Map(missingKeys.map((key, index) => [key, fresh[index]]));
+
+    return {
+      embeddings: keys.map((key, index) => hits[index] ?? freshByKey.get(key)!),
+      cached,
+    };
+  }
+
+  // Splits texts to the model's batch limits, embeds the batches with bounded
+  // concurrency and reassembles the vectors in input order. Each batch is cached
+  // as soon as it arrives, so a later failure does not waste the tokens spent.
+  private async embedInBatches(
+    client: EmbeddingClient,
+    texts: string[],
+    inputType: EmbeddingInputType,
+    cacheKeys: string[]
+  ): Promise<number[][]> {
+    const modelInfo = getEmbeddingModelInfo(this.provider, this.model);
+    const maxBatchSize = modelInfo?.maxBatchSize ?? texts.length;
+    const maxBatchTokens = modelInfo?.maxBatchTokens ?? (modelInfo ? maxBatchSize * modelInfo.maxInputTokens : Infinity);
+
+    const inputs = texts.map(text => this.prepareInput(text));
+    const batches = planBatches(inputs.map(input => input.text), { maxBatchSize, maxBatchTokens }, (_, index) => inputs[index].tokens);
+    console.log(`📦 Split ${texts.length} texts into ${batches.length} batches (concurrency ${this.concurrency})`);
+
+    const results = new Array<number[]>(texts.length);
+    await mapWithConcurrency(batches, this.concurrency, async (batch) => {
+      const { embeddings: vectors, promptTokens } = await callProvider(
+        signal => client.embed(batch.map(index => inputs[index].text), { inputType, taskType: this.taskType, signal }),
+        { provider: this.provider, circuitKey: this.circuitKey, counter: this.retryCounter }
+      );
+      if (vectors.length !== batch.length) {
+        throw new Error(`Expected ${batch.length} embeddings from ${this.provider}, received ${vectors.length}`);
+      }
+      batch.forEach((textIndex, position) => {
+        results[textIndex] = vectors[position];
+      });
+      // Prefer the provider's own count; fall back to the local tokenizer
+      this.tokensSent += promptTokens ?? batch.reduce((total, index) => total + inputs[index].tokens, 0);
+      await this.cache?.setMany(batch.map((textIndex, position) => [cacheKeys[textIndex], vectors[position]]));
+    });
+
+    return results;
+  }
 
   private generateMockEmbedding(text: string): number[] {
     console.log('🎭 Generating mock embedding for:', text.substring(0, 30) + '...');
@@ -201,16 +491,16 @@ export class EmbeddingService {
     // Combine character and word n-grams
     const allNGrams = [...nGrams, ...wordNGrams];
     
-    // Create a dimension size based on the provider (OpenAI uses different dimensions)
-    const dimensions = this.provider === 'openai' ? 
-      (this.model === 'text-embedding-3-large' ? 3072 : 1536) : 768;
+    // Match the native size the real model would return
+    const dimensions = this.getNativeDimensions() || 768;
     
     // Create embedding
     const embedding = new Array(dimensions).fill(0);
     
     // Distribute n-gram features across dimensions
     allNGrams.forEach(ngram => {
-      const hash = this.hashString(ngram);
+      // Unseeded hashes stay as they always were, so existing mock rankings do not move
+      const hash = hashString(this.seed === undefined ? ngram : `${this.seed}:${ngram}`);
       // Use multiple dimensions for each n-gram to create richer representations
       for (let i = 0; i < 8; i++) {
         const dimension = (hash + i * 97) % dimensions; // Distribute across dimensions
@@ -219,16 +509,19 @@ export class EmbeddingService {
       }
     });
     
+    // Reduced sizes keep the leading dimensions, the way Matryoshka models truncate
+    const output = this.outputDimensions ? embedding.slice(0, this.outputDimensions) : embedding;
+
     // Normalize the embedding
-    const norm = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
+    const norm = Math.sqrt(output.reduce((sum, val) => sum + val * val, 0));
     if (norm > 0) {
-      for (let i = 0; i < embedding.length; i++) {
-        embedding[i] = embedding[i] / norm;
+      for (let i = 0; i < output.length; i++) {
+        output[i] = output[i] / norm;
       }
     }
     
-    console.log(`🎭 Mock embedding generated, dimensions: ${embedding.length}`);
-    return embedding;
+    console.log(`🎭 Mock embedding generated, dimensions: ${output.length}`);
+    return output;
   }
 
   private generateNGrams(text: string, minN: number, maxN: number): string[] {
@@ -254,17 +547,6 @@ export class EmbeddingService {
     return ngrams;
   }
 
-  private hashString(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return Math.abs(hash);
-  }
-
-
   // Find most similar passages to a query
   static findMostSimilar(
     queryEmbedding: number[],
@@ -273,7 +555,7 @@ export class EmbeddingService {
   ): SimilarityResult[] {
     const similarities = passageEmbeddings.map((embedding, index) => ({
       index,
-      similarity: EmbeddingService.cosineSimilarity(queryEmbedding, embedding)
+      similarity: cosineSimilarity(queryEmbedding, embedding)
     }));
 
     return similarities
@@ -299,7 +581,7 @@ export class EmbeddingService {
 
   // Public methods for external access
   public wasRealAPIUsed(): boolean {
-    return this.usedRealAPI;
+    return this.usedRealAPI || this.secondaryUsedRealAPI;
   }
 
   public getProvider(): EmbeddingProvider {
@@ -310,57 +592,71 @@ export class EmbeddingService {
     return this.model;
   }
 
-  public getTotalTokensUsed(): number {
-    // For now, return a mock token count
-    // In the future, this should track actual token usage
-    return this.usedRealAPI ? 100 : 0;
+  public getTaskType(): EmbeddingTaskType {
+    return this.taskType;
   }
 
-  // Static method for cosine similarity calculation
-  public static cosineSimilarity(vec1: number[], vec2: number[]): number {
-    if (vec1.length !== vec2.length) {
-      throw new Error('Vectors must have the same length');
-    }
-
-    let dotProduct = 0;
-    let norm1 = 0;
-    let norm2 = 0;
-
-    for (let i = 0; i < vec1.length; i++) {
-      dotProduct += vec1[i] * vec2[i];
-      norm1 += vec1[i] * vec1[i];
-      norm2 += vec2[i] * vec2[i];
-    }
+  public getCacheStats(): EmbeddingCacheStats {
+    return { ...this.cacheStats };
+  }
 
-    norm1 = Math.sqrt(norm1);
-    norm2 = Math.sqrt(norm2);
+  // Tokens sent to each provider that was called; cache hits and mock vectors cost nothing
+  public getProviderUsage(): ProviderUsage[] {
+    const usage: ProviderUsage[] = this.tokensSent > 0
+      ? [{ provider: this.provider, model: this.model, tokens: this.tokensSent }]
+      : [];
+    return [...usage, ...this.secondaryUsage];
+  }
 
-    if (norm1 === 0 || norm2 === 0) {
-      return 0;
-    }
+  // Retries spent on transient provider failures, including any secondary provider
+  public getRetryCount(): number {
+    return this.retryCounter.retries + this.secondaryRetries;
+  }
 
-    return dotProduct / (norm1 * norm2);
+  public getTotalTokensUsed(): number {
+    return this.getProviderUsage().reduce((total, usage) => total + usage.tokens, 0);
   }
 }
 
 // Export utility functions
+// similarity holds the metric's raw score; for distance metrics lower is better and
+// results are ordered closest first
 export function findMostSimilar(
   queryEmbedding: number[],
   passageEmbeddings: number[][],
   passages: string[],
-  topK: number = 5
+  topK: number = 5,
+  provenance?: EmbeddingProvenance[],
+  metric: SimilarityMetric = 'cosine'
 ): SimilarityResult[] {
   const similarities = passageEmbeddings.map((embedding, index) => ({
     index,
-    similarity: EmbeddingService.cosineSimilarity(queryEmbedding, embedding)
+    similarity: compareVectors(metric, queryEmbedding, embedding)
   }));
+  const byScore = compareScores(metric);
 
   return similarities
-    .sort((a, b) => b.similarity - a.similarity)
+    .sort((a, b) => byScore(a.similarity, b.similarity))
     .slice(0, topK)
     .map(({ index, similarity }) => ({
       text: passages[index],
       similarity,
-      index
+      index,
+      ...(provenance ? { provenance: provenance[index] } : {})
     }));
-}
\ No newline at end of file
+}
+
+// Like findMostSimilar, but ranked by fusing cosine similarity with lexical scores
+export function findHybrid(
+  query: string,
+  queryEmbedding: number[],
+  passageEmbeddings: number[][],
+  passages: string[],
+  options: HybridOptions,
+  topK: number = 5,
+  provenance?: EmbeddingProvenance[]
+): SimilarityResult[] {
+  const denseScores = passageEmbeddings.map(embedding => cosineSimilarity(queryEmbedding, embedding));
+  const lexical = new LexicalSearchService(options.lexicalModel, { language: options.language }).score(query, passages);
+  return rankHybrid(passages, fuseScores(denseScores, lexical.normalized, options), topK, provenance);
+}
@@ -0,0 +1,53 @@
+import { prisma } from './prisma'
+import { MAX_PROJECT_NAME_LENGTH } from './projects'
+import { EvaluationQuery, parseEvaluationQueries } from './evaluation'
+
+// Saved evaluation sets: validation and ownership checks shared by the
+// /api/evaluation-sets routes and the evaluation route, which records a run per set.
+
+export const EVALUATION_HISTORY_LIMIT = 20
+
+export interface EvaluationSetInput {
+  name: string
+  queries: EvaluationQuery[]
+}
+
+// Validates a set create or update body; returns null when it is malformed.
+// partial allows omitted fields, for updates.
+export function parseEvaluationSetInput(body: unknown): EvaluationSetInput | null
+export function parseEvaluationSetInput(body: unknown, partial: true): Partial<EvaluationSetInput> | null
+export function parseEvaluationSetInput(body: unknown, partial = false): Partial<EvaluationSetInput> | null {
+  if (typeof body !== 'object' || body === null) return null
+  const { name, queries } = body as Record<string, unknown>
+  const input: Partial<EvaluationSetInput> = {}
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_PROJECT_NAME_LENGTH) return null
+    input.name = name.trim()
+  }
+  if (queries !== undefined || !partial) {
+    const parsed = parseEvaluationQueries(queries)
+    if (!parsed) return null
+    input.queries = parsed
+  }
+  return input
+}
+
+// The set, if it exists and belongs to the signed-in user
+export async function findOwnedEvaluationSet(email: string, setId: string) {
+  return prisma.evaluationSet.findFirst({
+    where: { id: setId, user: { email } }
+  })
+}
+
+// History entries leave out the per-query report, which can be large
+export const EVALUATION_RUN_SUMMARY_SELECT = {
+  id: true,
+  provider: true,
+  model: true,
+  k: true,
+  parameters: true,
+  mean: true,
+  usedRealAPI: true,
+  createdAt: true,
+}
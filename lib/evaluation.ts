@@ -0,0 +1,193 @@
+import type { RerankResult } from '../types';
+import { MAX_BATCH_PASSAGES, MAX_BATCH_QUERIES, MAX_BATCH_ROWS } from './batch';
+
+// Retrieval evaluation against graded relevance labels. A grade is an integer from 0 (not
+// relevant) to 3 (highly relevant); nDCG uses the grades, the other metrics count any
+// grade of 1 or more as relevant. Pure helpers shared by the evaluation routes and the page.
+
+export const MAX_RELEVANCE_GRADE = 3;
+export const DEFAULT_EVALUATION_K = 10;
+// Top embedding results sent to the reranker for the rerank ranking
+export const DEFAULT_RERANK_CANDIDATES = 10;
+
+export type EvaluatedRanking = 'embedding' | 'hybrid' | 'rerank';
+
+export const EVALUATED_RANKINGS: { id: EvaluatedRanking; label: string }[] = [
+  { id: 'embedding', label: 'Embedding' },
+  { id: 'hybrid', label: 'Hybrid' },
+  { id: 'rerank', label: 'Rerank' },
+];
+
+export interface EvaluationQuery {
+  query: string;
+  passages: string[];
+  relevance: number[]; // relevance[i] grades passages[i]
+}
+
+export interface RetrievalMetrics {
+  ndcg: number; // at K
+  mrr: number; // reciprocal rank of the first relevant passage, over the full ranking
+  map: number; // average precision over the full ranking
+  recall: number; // at K
+  precision: number; // at K
+}
+
+export const RETRIEVAL_METRICS: { id: keyof RetrievalMetrics; label: (k: number) => string }[] = [
+  { id: 'ndcg', label: k => `nDCG@${k}` },
+  { id: 'mrr', label: () => 'MRR' },
+  { id: 'map', label: () => 'MAP' },
+  { id: 'recall', label: k => `Recall@${k}` },
+  { id: 'precision', label: k => `P@${k}` },
+];
+
+export type RankingMetrics = Partial<Record<EvaluatedRanking, RetrievalMetrics>>;
+
+export interface QueryEvaluation {
+  query: string;
+  relevant: number; // passages graded 1 or more
+  metrics: RankingMetrics;
+}
+
+export interface EvaluationReport {
+  k: number;
+  queries: QueryEvaluation[];
+  mean: RankingMetrics; // averaged over the queries that have at least one relevant passage
+}
+
+export interface EvaluationOptions {
+  k: number;
+  rankings: EvaluatedRanking[];
+  rerankCandidates: number;
+}
+
+interface EvaluationRequest {
+  k?: unknown;
+  rankings?: unknown;
+  rerankCandidates?: unknown;
+}
+
+// Validates the evaluation fields of a request body; returns null when they are malformed
+export function parseEvaluationOptions({
+  k = DEFAULT_EVALUATION_K,
+  rankings = EVALUATED_RANKINGS.map(ranking => ranking.id),
+  rerankCandidates = DEFAULT_RERANK_CANDIDATES,
+}: EvaluationRequest): EvaluationOptions | null {
+  if (
+    typeof k !== 'number' || !Number.isInteger(k) || k < 1 || k > MAX_BATCH_PASSAGES ||
+    !Array.isArray(rankings) || rankings.length === 0 ||
+    !rankings.every(ranking => EVALUATED_RANKINGS.some(option => option.id === ranking)) ||
+    typeof rerankCandidates !== 'number' || !Number.isInteger(rerankCandidates) || rerankCandidates < 1 || rerankCandidates > 50
+  ) {
+    return null;
+  }
+  return { k, rankings: [...new Set(rankings as EvaluatedRanking[])], rerankCandidates };
+}
+
+// Reads a grade from a form or spreadsheet cell; blank cells are unlabelled and count as 0
+export function parseRelevanceGrade(value: unknown): number | null {
+  if (value === undefined || value === null || String(value).trim() === '') {
+    return 0;
+  }
+  const grade = Number(value);
+  return Number.isInteger(grade) && grade >= 0 && grade <= MAX_RELEVANCE_GRADE ? grade : null;
+}
+
+// Validates the queries of an evaluation request or set; returns null when they are malformed.
+// Limits match batch scoring, and at least one passage must be labelled relevant.
+export function parseEvaluationQueries(value: unknown): EvaluationQuery[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_BATCH_QUERIES) {
+    return null;
+  }
+
+  let rows = 0;
+  let relevant = 0;
+  for (const item of value) {
+    if (
+      typeof item !== 'object' || item === null ||
+      typeof item.query !== 'string' || !item.query.trim() ||
+      !Array.isArray(item.passages) || item.passages.length === 0 || item.passages.length > MAX_BATCH_PASSAGES ||
+      !item.passages.every((passage: unknown) => typeof passage === 'string' && passage.trim()) ||
+      !Array.isArray(item.relevance) || item.relevance.length !== item.passages.length ||
+      !item.relevance.every((grade: unknown) => Number.isInteger(grade) && (grade as number) >= 0 && (grade as number) <= MAX_RELEVANCE_GRADE)
+    ) {
+      return null;
+    }
+    rows += item.passages.length;
+    relevant += item.relevance.filter((grade: number) => grade > 0).length;
+  }
+
+  return rows > MAX_BATCH_ROWS || relevant === 0
+    ? null
+    : value.map(({ query, passages, relevance }) => ({ query, passages, relevance }));
+}
+
+function discountedGain(grades: number[], k: number): number {
+  return grades.slice(0, k).reduce((sum, grade, rank) => sum + (2 ** grade - 1) / Math.log2(rank + 2), 0);
+}
+
+// Scores one ranking, given as passage indexes best first
+export function evaluateRanking(ranking: number[], relevance: number[], k: number): RetrievalMetrics {
+  const grades = ranking.map(index => relevance[index] ?? 0);
+  const totalRelevant = relevance.filter(grade => grade > 0).length;
+  if (totalRelevant === 0) {
+    return { ndcg: 0, mrr: 0, map: 0, recall: 0, precision: 0 };
+  }
+
+  const ideal = discountedGain([...relevance].sort((a, b) => b - a), k);
+  const firstRelevant = grades.findIndex(grade => grade > 0);
+
+  let found = 0;
+  let precisionSum = 0;
+  grades.forEach((grade, rank) => {
+    if (grade > 0) {
+      found++;
+      precisionSum += found / (rank + 1);
+    }
+  });
+
+  const relevantInTopK = grades.slice(0, k).filter(grade => grade > 0).length;
+  return {
+    ndcg: discountedGain(grades, k) / ideal,
+    mrr: firstRelevant === -1 ? 0 : 1 / (firstRelevant + 1),
+    map: precisionSum / totalRelevant,
+    recall: relevantInTopK / totalRelevant,
+    precision: relevantInTopK / k,
+  };
+}
+
+// The rerank ranking: the reranked shortlist, then the rest of the embedding ranking.
+// Rerank results index into the shortlist, which is the head of the embedding ranking.
+export function rerankedOrder(embeddingRanking: number[], reranked: RerankResult[]): number[] {
+  const head = [...reranked].sort((a, b) => a.rank - b.rank).map(result => embeddingRanking[result.originalIndex]);
+  return [...head, ...embeddingRanking.slice(reranked.length)];
+}
+
+export function evaluateQuery(query: EvaluationQuery, rankings: Partial<Record<EvaluatedRanking, number[]>>, k: number): QueryEvaluation {
+  const metrics: RankingMetrics = {};
+  for (const { id } of EVALUATED_RANKINGS) {
+    const ranking = rankings[id];
+    if (ranking) {
+      metrics[id] = evaluateRanking(ranking, query.relevance, k);
+    }
+  }
+  return { query: query.query, relevant: query.relevance.filter(grade => grade > 0).length, metrics };
+}
+
+// Queries with no relevant passage cannot be scored and are left out of the means
+export function summarizeEvaluation(queries: QueryEvaluation[], k: number): EvaluationReport {
+  const scored = queries.filter(query => query.relevant > 0);
+  const mean: RankingMetrics = {};
+  for (const { id } of EVALUATED_RANKINGS) {
+    const values = scored.map(query => query.metrics[id]).filter((metrics): metrics is RetrievalMetrics => metrics !== undefined);
+    if (values.length) {
+      mean[id] = {
+        ndcg: values.reduce((sum, metrics) => sum + metrics.ndcg, 0) / values.length,
+        mrr: values.reduce((sum, metrics) => sum + metrics.mrr, 0) / values.length,
+        map: values.reduce((sum, metrics) => sum + metrics.map, 0) / values.length,
+        recall: values.reduce((sum, metrics) => sum + metrics.recall, 0) / values.length,
+        precision: values.reduce((sum, metrics) => sum + metrics.precision, 0) / values.length,
+      };
+    }
+  }
+  return { k, queries, mean };
+}
@@ -0,0 +1,82 @@
+import type { RerankResult, SimilarityResult } from '../types';
+
+// Flat export rows for embedding and rerank results, shared by the CSV, XLSX and JSON
+// downloads so every format carries the same columns.
+
+export interface ExportRow {
+  query: string;
+  passage: string;
+  originalIndex: number; // position in the submitted passages, 0-based
+  similarity: number; // raw query-passage score under the run's metric
+  embeddingScore: number; // embedding ranking score: fused for hybrid, MMR score for MMR; cosine on a 0-100 scale for rerank rows
+  rerankScore: number | null; // 0-100; null for embedding-only results
+  finalScore: number; // the score the row is ranked by; 0-100 for rerank rows
+  rank: number; // 1-based
+  provider: string;
+  model: string;
+  usedRealAPI: boolean;
+}
+
+export interface ExportSource {
+  provider: string;
+  model: string;
+  usedRealAPI: boolean;
+}
+
+export function embeddingExportRows(query: string, results: SimilarityResult[], source: ExportSource): ExportRow[] {
+  return results.map((result, rank) => {
+    const rankingScore = result.hybrid?.fusedScore ?? result.mmr?.mmrScore ?? result.similarity;
+    return {
+      query,
+      passage: result.text,
+      originalIndex: result.index,
+      similarity: result.similarity,
+      embeddingScore: rankingScore,
+      rerankScore: null,
+      finalScore: rankingScore,
+      rank: rank + 1,
+      ...source,
+    };
+  });
+}
+
+// Rerank requests carry only the top embedding results, so their originalIndex points
+// into that shortlist; it is mapped back to the submitted passage here.
+export function rerankExportRows(
+  query: string,
+  results: RerankResult[],
+  shortlist: SimilarityResult[],
+  source: ExportSource
+): ExportRow[] {
+  return results.map(result => {
+    const candidate = shortlist[result.originalIndex];
+    return {
+      query,
+      passage: result.text,
+      originalIndex: candidate?.index ?? result.originalIndex,
+      similarity: candidate?.similarity ?? result.embeddingScore,
+      embeddingScore: result.embeddingScore,
+      rerankScore: result.rerankScore,
+      finalScore: result.finalScore,
+      rank: result.rank,
+      ...source,
+    };
+  });
+}
+
+// Starts a browser download of the given content
+export function downloadFile(fileName: string, content: BlobPart, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Raw vectors for the JSON export; every submitted passage, not only the ranked ones
+export interface ExportVectors {
+  dimensions: number;
+  query: number[];
+  passages: { index: number; text: string; vector: number[] }[];
+}
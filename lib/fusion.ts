@@ -0,0 +1,154 @@
+import type { EmbeddingProvenance, SimilarityResult } from './embeddings';
+import { LexicalLanguage, LexicalModel, isLexicalLanguage, isLexicalModel } from './lexical';
+
+// Hybrid ranking: fuse dense (embedding) and lexical (BM25 / TF-IDF) scores so it is
+// visible whether a passage wins on meaning or on keywords.
+
+export type FusionStrategy = 'rrf' | 'min-max' | 'z-score' | 'convex';
+
+export const FUSION_STRATEGIES: { id: FusionStrategy; label: string; description: string }[] = [
+  { id: 'rrf', label: 'Reciprocal rank', description: 'Sums 1 / (k + rank) from each ranking; ignores score scales entirely' },
+  { id: 'min-max', label: 'Weighted (min-max)', description: 'Rescales each score list to 0-1 for this query, then takes a weighted sum' },
+  { id: 'z-score', label: 'Weighted (z-score)', description: 'Standardizes each score list for this query, then takes a weighted sum' },
+  { id: 'convex', label: 'Convex', description: 'Weighted sum of the raw scores on their fixed 0-1 scales, with no per-query rescaling' },
+];
+
+export interface HybridOptions {
+  strategy: FusionStrategy;
+  denseWeight: number; // 0-1; the lexical weight is 1 - denseWeight
+  rrfK: number;
+  lexicalModel: LexicalModel;
+  language: LexicalLanguage | 'auto';
+}
+
+export const DEFAULT_HYBRID_OPTIONS: HybridOptions = {
+  strategy: 'rrf',
+  denseWeight: 0.5,
+  rrfK: 60,
+  lexicalModel: 'bm25',
+  language: 'auto',
+};
+
+export interface HybridScores {
+  strategy: FusionStrategy;
+  denseScore: number; // cosine similarity, -1 to 1
+  lexicalScore: number; // normalized lexical score, 0 to 1
+  denseRank: number; // 1-based
+  lexicalRank: number;
+  fusedScore: number; // on the strategy's own scale
+  fusedRank: number;
+}
+
+interface HybridRequest {
+  strategy?: unknown;
+  denseWeight?: unknown;
+  rrfK?: unknown;
+  lexicalModel?: unknown;
+  language?: unknown;
+}
+
+function isFusionStrategy(value: unknown): value is FusionStrategy {
+  return FUSION_STRATEGIES.some(strategy => strategy.id === value);
+}
+
+// Validates the hybrid field of a request body; returns null when it is malformed
+export function parseHybridOptions(request: HybridRequest | true): HybridOptions | null {
+  const {
+    strategy = DEFAULT_HYBRID_OPTIONS.strategy,
+    denseWeight = DEFAULT_HYBRID_OPTIONS.denseWeight,
+    rrfK = DEFAULT_HYBRID_OPTIONS.rrfK,
+    lexicalModel = DEFAULT_HYBRID_OPTIONS.lexicalModel,
+    language = DEFAULT_HYBRID_OPTIONS.language,
+  } = request === true ? {} : request;
+
+  if (
+    !isFusionStrategy(strategy) ||
+    typeof denseWeight !== 'number' || !(denseWeight >= 0 && denseWeight <= 1) ||
+    typeof rrfK !== 'number' || !(rrfK > 0) ||
+    !isLexicalModel(lexicalModel) ||
+    (language !== 'auto' && !isLexicalLanguage(language))
+  ) {
+    return null;
+  }
+
+  return { strategy, denseWeight, rrfK, lexicalModel, language };
+}
+
+// 1-based rank of each score; ties keep passage order
+function ranks(scores: number[]): number[] {
+  const order = scores.map((score, index) => ({ score, index })).sort((a, b) => b.score - a.score);
+  const result = new Array<number>(scores.length);
+  order.forEach(({ index }, rank) => {
+    result[index] = rank + 1;
+  });
+  return result;
+}
+
+// A list with no spread carries no ranking signal, so it contributes 0 everywhere
+function minMax(scores: number[]): number[] {
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+  return scores.map(score => (range > 0 ? (score - min) / range : 0));
+}
+
+function zScore(scores: number[]): number[] {
+  const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  const std = Math.sqrt(scores.reduce((sum, score) => sum + (score - mean) ** 2, 0) / scores.length);
+  return scores.map(score => (std > 0 ? (score - mean) / std : 0));
+}
+
+// Fused scores for every passage, in passage order
+export function fuseScores(
+  denseScores: number[],
+  lexicalScores: number[],
+  { strategy, denseWeight, rrfK }: Pick<HybridOptions, 'strategy' | 'denseWeight' | 'rrfK'>
+): HybridScores[] {
+  const lexicalWeight = 1 - denseWeight;
+  const denseRanks = ranks(denseScores);
+  const lexicalRanks = ranks(lexicalScores);
+
+  let fused: number[];
+  if (strategy === 'rrf') {
+    fused = denseRanks.map((rank, index) => denseWeight / (rrfK + rank) + lexicalWeight / (rrfK + lexicalRanks[index]));
+  } else if (strategy === 'convex') {
+    // Cosine mapped onto 0-1 so both inputs share a fixed scale
+    fused = denseScores.map((score, index) => denseWeight * (score + 1) / 2 + lexicalWeight * lexicalScores[index]);
+  } else {
+    const normalize = strategy === 'min-max' ? minMax : zScore;
+    const dense = normalize(denseScores);
+    const lexical = normalize(lexicalScores);
+    fused = dense.map((score, index) => denseWeight * score + lexicalWeight * lexical[index]);
+  }
+
+  const fusedRanks = ranks(fused);
+  return fused.map((fusedScore, index) => ({
+    strategy,
+    denseScore: denseScores[index],
+    lexicalScore: lexicalScores[index],
+    denseRank: denseRanks[index],
+    lexicalRank: lexicalRanks[index],
+    fusedScore,
+    fusedRank: fusedRanks[index],
+  }));
+}
+
+// Top passages by fused rank. similarity stays the dense cosine so hybrid results
+// read on the same scale as plain embedding results.
+export function rankHybrid(
+  passages: string[],
+  scores: HybridScores[],
+  topK: number,
+  provenance?: EmbeddingProvenance[]
+): SimilarityResult[] {
+  return scores
+    .map((hybrid, index) => ({ hybrid, index }))
+    .sort((a, b) => a.hybrid.fusedRank - b.hybrid.fusedRank)
+    .slice(0, topK)
+    .map(({ hybrid, index }) => ({
+      text: passages[index],
+      similarity: hybrid.denseScore,
+      index,
+      ...(provenance ? { provenance: provenance[index] } : {}),
+      hybrid,
+    }));
+}
@@ -0,0 +1,74 @@
+import { LANGUAGE_RULES, LEXICAL_LANGUAGES, LexicalLanguage, fold } from './languages';
+
+// Turns text into index terms: fold case and accents, split into words, drop
+// stopwords and stem. Han, kana and Hangul have no spaces between words, so those
+// runs are indexed as overlapping character bigrams instead.
+
+const CJK_RUN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+/gu;
+const CJK_CHAR = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+const stopwordSets = new Map<LexicalLanguage, Set<string>>();
+
+function stopwordsFor(language: LexicalLanguage): Set<string> {
+  let stopwords = stopwordSets.get(language);
+  if (!stopwords) {
+    stopwords = new Set(LANGUAGE_RULES[language].stopwords.map(fold));
+    stopwordSets.set(language, stopwords);
+  }
+  return stopwords;
+}
+
+function bigrams(run: string): string[] {
+  const chars = Array.from(run);
+  if (chars.length === 1) {
+    return chars;
+  }
+  return chars.slice(1).map((char, index) => chars[index] + char);
+}
+
+export function tokenize(text: string): string[] {
+  const words = fold(text).match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.flatMap(word => {
+    if (!CJK_CHAR.test(word)) {
+      return [word];
+    }
+    // Latin or digits glued to CJK text ("iPhone用") stay whole tokens
+    const parts = word.split(CJK_RUN).filter(Boolean);
+    const runs = word.match(CJK_RUN) ?? [];
+    return [...parts, ...runs.flatMap(bigrams)];
+  });
+}
+
+// Picks the language whose stopwords cover the most tokens; English when nothing matches
+export function detectLanguage(texts: string[]): LexicalLanguage {
+  const tokens = texts.flatMap(tokenize);
+  let best: LexicalLanguage = 'en';
+  let bestHits = 0;
+  for (const { id } of LEXICAL_LANGUAGES) {
+    const stopwords = stopwordsFor(id);
+    const hits = tokens.filter(token => stopwords.has(token)).length;
+    if (hits > bestHits) {
+      best = id;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
+
+export interface AnalyzedTerm {
+  term: string; // stemmed index term
+  surface: string; // the folded word it came from, for display
+}
+
+// If every token is a stopword they are kept, so "to be or not to be" still has terms
+export function analyzeTerms(text: string, language: LexicalLanguage): AnalyzedTerm[] {
+  const tokens = tokenize(text);
+  const stopwords = stopwordsFor(language);
+  const kept = tokens.filter(token => !stopwords.has(token));
+  const { stem } = LANGUAGE_RULES[language];
+  return (kept.length > 0 ? kept : tokens).map(surface => ({ term: stem(surface), surface }));
+}
+
+export function analyzeLexical(text: string, language: LexicalLanguage): string[] {
+  return analyzeTerms(text, language).map(({ term }) => term);
+}
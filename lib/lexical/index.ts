@@ -0,0 +1,75 @@
+import { LEXICAL_PROVIDER } from '../embedding-providers/catalog';
+import type { SimilarityResult } from '../embeddings';
+import { analyzeLexical, detectLanguage } from './analyzer';
+import { LexicalLanguage } from './languages';
+import {
+  Bm25Parameters,
+  DEFAULT_BM25_PARAMETERS,
+  DEFAULT_BM25_PLUS_DELTA,
+  LexicalScores,
+  bm25Scores,
+  buildCorpusStatistics,
+  tfidfScores,
+} from './scoring';
+
+export * from './analyzer';
+export * from './languages';
+export * from './porter';
+export * from './scoring';
+
+export type LexicalModel = 'bm25' | 'bm25-plus' | 'tf-idf';
+
+export function isLexicalModel(model: unknown): model is LexicalModel {
+  return model === 'bm25' || model === 'bm25-plus' || model === 'tf-idf';
+}
+
+export interface LexicalSearchOptions {
+  language?: LexicalLanguage | 'auto'; // defaults to detecting it from the text
+  bm25?: Partial<Bm25Parameters>;
+}
+
+// Sparse retrieval baseline served as a "provider". Scores come from term
+// statistics over the submitted passages, so there is no API key, network call or
+// quota; similarity is the scorer's [0, 1] normalized score.
+export class LexicalSearchService {
+  private language: LexicalLanguage | null = null;
+
+  constructor(private model: LexicalModel = 'bm25', private options: LexicalSearchOptions = {}) {}
+
+  // Normalized and raw scores for every passage, in passage order
+  score(query: string, passages: string[]): LexicalScores {
+    const language = this.options.language && this.options.language !== 'auto'
+      ? this.options.language
+      : detectLanguage([query, ...passages]);
+    this.language = language;
+
+    const stats = buildCorpusStatistics(passages.map(passage => analyzeLexical(passage, language)));
+    const queryTerms = analyzeLexical(query, language);
+
+    if (this.model === 'tf-idf') {
+      return tfidfScores(queryTerms, stats);
+    }
+    const delta = this.model === 'bm25-plus' ? DEFAULT_BM25_PLUS_DELTA : 0;
+    return bm25Scores(queryTerms, stats, { ...DEFAULT_BM25_PARAMETERS, delta, ...this.options.bm25 });
+  }
+
+  search(query: string, passages: string[], topK: number = 5): SimilarityResult[] {
+    const { normalized } = this.score(query, passages);
+    const provenance = { source: 'provider' as const, provider: LEXICAL_PROVIDER, model: this.model };
+
+    return normalized
+      .map((similarity, index) => ({ index, similarity }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, topK)
+      .map(({ index, similarity }) => ({ text: passages[index], similarity, index, provenance }));
+  }
+
+  getModel(): LexicalModel {
+    return this.model;
+  }
+
+  // Language used by the last call, after auto-detection
+  getLanguage(): LexicalLanguage | null {
+    return this.language;
+  }
+}
@@ -0,0 +1,127 @@
+import { porterStem } from './porter';
+
+// Per-language stopwords and stemmers for the lexical scorers. Lists are written with
+// their accents; the analyzer folds them the same way it folds the text.
+
+export type LexicalLanguage = 'en' | 'es' | 'fr' | 'de' | 'it' | 'pt' | 'nl';
+
+export const LEXICAL_LANGUAGES: { id: LexicalLanguage; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'es', label: 'Spanish' },
+  { id: 'fr', label: 'French' },
+  { id: 'de', label: 'German' },
+  { id: 'it', label: 'Italian' },
+  { id: 'pt', label: 'Portuguese' },
+  { id: 'nl', label: 'Dutch' },
+];
+
+export function isLexicalLanguage(value: unknown): value is LexicalLanguage {
+  return LEXICAL_LANGUAGES.some(language => language.id === value);
+}
+
+export interface LanguageRules {
+  stopwords: string[];
+  stem(token: string): string;
+}
+
+// Removes the longest listed suffix that still leaves minStem characters. Light
+// stemmers like this conflate plurals and common derivations without a full
+// Snowball implementation per language.
+function suffixStemmer(suffixes: string[], minStem: number): (token: string) => string {
+  const longestFirst = [...suffixes].sort((a, b) => b.length - a.length);
+  return token => {
+    const suffix = longestFirst.find(
+      candidate => token.endsWith(candidate) && token.length - candidate.length >= minStem
+    );
+    return suffix ? token.slice(0, -suffix.length) : token;
+  };
+}
+
+const words = (list: string) => list.split(/\s+/).filter(Boolean);
+
+export const LANGUAGE_RULES: Record<LexicalLanguage, LanguageRules> = {
+  en: {
+    stopwords: words(`
+      a about above after again against all am an and any are as at be because been before being
+      below between both but by can could did do does doing down during each few for from further
+      had has have having he her here hers herself him himself his how i if in into is it its
+      itself just me more most my myself no nor not now of off on once only or other our ours
+      ourselves out over own same she should so some such than that the their theirs them
+      themselves then there these they this those through to too under until up very was we were
+      what when where which while who whom why will with would you your yours yourself yourselves
+    `),
+    stem: porterStem,
+  },
+  es: {
+    stopwords: words(`
+      de la que el en y a los del se las por un para con no una su al lo como más pero sus le ya o
+      este sí porque esta entre cuando muy sin sobre también me hasta hay donde quien desde todo nos
+      durante todos uno les ni contra otros ese eso ante ellos e esto mí antes algunos qué unos yo otro
+      otras otra él tanto esa estos mucho quienes nada muchos cual poco ella estar estas algunas algo
+      nosotros mi mis tú te ti tu tus ellas es son fue ser ha han era está están
+    `),
+    stem: suffixStemmer(words(`
+      amientos imientos amiento imiento aciones uciones adoras adores ancias logías idades ación ución
+      adora ador ancia logía idad mente ismos istas ables ibles ismo ista able ible osos osas oso osa
+      ivas ivos iva ivo ando iendo aron ieron aba ían ía ar er ir es as os a o e s
+    `).map(fold), 3),
+  },
+  fr: {
+    stopwords: words(`
+      au aux avec ce ces dans de des du elle en et eux il je la le les leur lui ma mais me même mes moi
+      mon ne nos notre nous on ou par pas pour qu que qui sa se ses son sur ta te tes toi ton tu un une
+      vos votre vous c d j l à m n s t y été est sont était être avoir a ont cette cet comme plus
+    `),
+    stem: suffixStemmer(words(`
+      issements issement atrices ations ateurs ements logies ments ation ateur atrice ement ences ances
+      ables istes ismes ives euses ment ence ance able iste isme ive euse eux ions ités ité ées ée es
+      er ez e s x
+    `).map(fold), 3),
+  },
+  de: {
+    stopwords: words(`
+      aber alle allem allen aller als also am an auch auf aus bei bin bis bist da damit dann das dass
+      dem den der des dich die dir doch du durch ein eine einem einen einer eines er es für hat hatte
+      ich ihr im in ist ja kann mich mir mit nach nicht noch nur ob oder sich sie sind so über um und
+      uns unter vom von vor war was wenn wie wir wird zu zum zur
+    `),
+    stem: suffixStemmer(words('ungen heiten keiten ischen lichen ern ung heit keit isch lich end em en er es e s n'), 4),
+  },
+  it: {
+    stopwords: words(`
+      a ad al alla alle agli ai anche che chi ci come con da dal dalla dei del della delle di e è ed
+      gli ha hanno i il in io la le lei lo loro lui ma mi ne nel nella noi non o per più quando questa
+      questo se si sono su sua suo sul sulla tra tu un una uno
+    `),
+    stem: suffixStemmer(words(`
+      amenti imenti azioni uzioni amento imento azione uzione mente abili ibili abile ibile ismi isti
+      ista ismo osi ose oso osa ando endo are ere ire i e a o
+    `), 3),
+  },
+  pt: {
+    stopwords: words(`
+      a ao aos as à com como da das de do dos e é ela elas ele eles em entre era essa esse esta este eu
+      foi há isso mais mas me mesmo meu minha muito na não nas nem no nos o os ou para pela pelo por
+      qual quando que se sem ser seu sua são também te tem um uma você
+    `),
+    stem: suffixStemmer(words(`
+      amentos imentos amento imento ações uções ação ução mente idades idade ismos istas ismo ista
+      áveis íveis ável ível osos osas oso osa ando endo indo ar er ir es as os a o e s
+    `).map(fold), 3),
+  },
+  nl: {
+    stopwords: words(`
+      aan al alles als ben bij dan dat de der deze die dit doch door dus een en er ga geen had heb
+      hebben heeft hem het hier hij hoe hun ik in is ja je kan kon maar me met mij na naar niet nog nu
+      of om omdat ons ook op over te tot u uit van veel voor want was wat we wel werd wie wij wil
+      worden zal ze zei zich zijn zo zou
+    `),
+    stem: suffixStemmer(words('heden heid ingen ing lijk baar end en e s'), 3),
+  },
+};
+
+// Lowercase and strip diacritics, so "Café" and "cafe" are the same term. The final
+// NFC pass recomposes Hangul syllables that NFKD split into jamo.
+export function fold(text: string): string {
+  return text.toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '').normalize('NFC');
+}
@@ -0,0 +1,100 @@
+// Porter (1980) stemmer for English, after Martin Porter's reference implementation.
+// Only plain a-z tokens are stemmed; anything else is returned unchanged.
+
+const consonant = '[^aeiou]';
+const vowel = '[aeiouy]';
+const consonantSeq = `${consonant}[^aeiouy]*`;
+const vowelSeq = `${vowel}[aeiou]*`;
+
+// Measure tests: m > 0, m = 1, m > 1, and "contains a vowel"
+const measureGt0 = new RegExp(`^(${consonantSeq})?${vowelSeq}${consonantSeq}`);
+const measureEq1 = new RegExp(`^(${consonantSeq})?${vowelSeq}${consonantSeq}(${vowelSeq})?$`);
+const measureGt1 = new RegExp(`^(${consonantSeq})?${vowelSeq}${consonantSeq}${vowelSeq}${consonantSeq}`);
+const hasVowel = new RegExp(`^(${consonantSeq})?${vowel}`);
+const endsCvc = new RegExp(`^${consonantSeq}${vowel}[^aeiouwxy]$`);
+
+const STEP2: Record<string, string> = {
+  ational: 'ate', tional: 'tion', enci: 'ence', anci: 'ance', izer: 'ize', bli: 'ble', alli: 'al',
+  entli: 'ent', eli: 'e', ousli: 'ous', ization: 'ize', ation: 'ate', ator: 'ate', alism: 'al',
+  iveness: 'ive', fulness: 'ful', ousness: 'ous', aliti: 'al', iviti: 'ive', biliti: 'ble', logi: 'log',
+};
+
+const STEP3: Record<string, string> = {
+  icate: 'ic', ative: '', alize: 'al', iciti: 'ic', ical: 'ic', ful: '', ness: '',
+};
+
+const STEP2_SUFFIX = new RegExp(`^(.+?)(${Object.keys(STEP2).join('|')})$`);
+const STEP3_SUFFIX = new RegExp(`^(.+?)(${Object.keys(STEP3).join('|')})$`);
+const STEP4_SUFFIX = /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/;
+
+export function porterStem(token: string): string {
+  if (token.length < 3 || !/^[a-z]+$/.test(token)) {
+    return token;
+  }
+
+  // A leading y acts as a consonant; upper case keeps it out of the vowel classes
+  const leadingY = token[0] === 'y';
+  let word = leadingY ? `Y${token.slice(1)}` : token;
+  let match: RegExpMatchArray | null;
+
+  // Step 1a: plurals
+  if ((match = word.match(/^(.+?)(ss|i)es$/))) {
+    word = match[1] + match[2];
+  } else if ((match = word.match(/^(.+?)([^s])s$/))) {
+    word = match[1] + match[2];
+  }
+
+  // Step 1b: -eed, -ed, -ing
+  if ((match = word.match(/^(.+?)eed$/))) {
+    if (measureGt0.test(match[1])) {
+      word = word.slice(0, -1);
+    }
+  } else if ((match = word.match(/^(.+?)(ed|ing)$/)) && hasVowel.test(match[1])) {
+    word = match[1];
+    if (/(at|bl|iz)$/.test(word)) {
+      word += 'e';
+    } else if (/([^aeiouylsz])\1$/.test(word)) {
+      word = word.slice(0, -1);
+    } else if (endsCvc.test(word)) {
+      word += 'e';
+    }
+  }
+
+  // Step 1c: y -> i after a vowel
+  if ((match = word.match(/^(.+?)y$/)) && hasVowel.test(match[1])) {
+    word = `${match[1]}i`;
+  }
+
+  // Steps 2 and 3: map double and single suffixes to their roots
+  if ((match = word.match(STEP2_SUFFIX)) && measureGt0.test(match[1])) {
+    word = match[1] + STEP2[match[2]];
+  }
+  if ((match = word.match(STEP3_SUFFIX)) && measureGt0.test(match[1])) {
+    word = match[1] + STEP3[match[2]];
+  }
+
+  // Step 4: drop derivational suffixes from long stems
+  if ((match = word.match(STEP4_SUFFIX))) {
+    if (measureGt1.test(match[1])) {
+      word = match[1];
+    }
+  } else if ((match = word.match(/^(.+?)(s|t)(ion)$/))) {
+    const stem = match[1] + match[2];
+    if (measureGt1.test(stem)) {
+      word = stem;
+    }
+  }
+
+  // Step 5: tidy a final -e and -ll
+  if ((match = word.match(/^(.+?)e$/))) {
+    const stem = match[1];
+    if (measureGt1.test(stem) || (measureEq1.test(stem) && !endsCvc.test(stem))) {
+      word = stem;
+    }
+  }
+  if (/ll$/.test(word) && measureGt1.test(word)) {
+    word = word.slice(0, -1);
+  }
+
+  return leadingY ? `y${word.slice(1)}` : word;
+}
@@ -0,0 +1,106 @@
+// Term-statistics scorers over an analyzed corpus. The passages being ranked are the
+// corpus, so document frequencies come from the request itself.
+
+export interface Bm25Parameters {
+  k1: number; // term-frequency saturation
+  b: number; // length normalization, 0 (none) to 1 (full)
+  delta: number; // BM25+ lower bound for any matching term; 0 gives plain BM25
+}
+
+export const DEFAULT_BM25_PARAMETERS: Bm25Parameters = { k1: 1.2, b: 0.75, delta: 0 };
+export const DEFAULT_BM25_PLUS_DELTA = 1;
+
+export interface CorpusStatistics {
+  termFrequencies: Map<string, number>[]; // per document
+  documentFrequency: Map<string, number>;
+  lengths: number[];
+  averageLength: number;
+}
+
+export function buildCorpusStatistics(documents: string[][]): CorpusStatistics {
+  const documentFrequency = new Map<string, number>();
+  const termFrequencies = documents.map(terms => {
+    const counts = new Map<string, number>();
+    for (const term of terms) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    for (const term of counts.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+    return counts;
+  });
+  const lengths = documents.map(terms => terms.length);
+  const averageLength = lengths.reduce((sum, length) => sum + length, 0) / Math.max(documents.length, 1);
+
+  return { termFrequencies, documentFrequency, lengths, averageLength };
+}
+
+// Lucene's BM25 idf: never negative, even for terms in most documents
+function bm25Idf(stats: CorpusStatistics, term: string): number {
+  const n = stats.termFrequencies.length;
+  const df = stats.documentFrequency.get(term) ?? 0;
+  return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+}
+
+export interface LexicalScores {
+  scores: number[]; // raw scorer output, one per document
+  normalized: number[]; // the same scores in [0, 1]
+}
+
+// BM25, or BM25+ when delta > 0. Normalized scores divide by the best score any
+// document could reach for this query (every term saturated), so they are
+// comparable across passages without pinning the top result at 1.
+export function bm25Scores(
+  queryTerms: string[],
+  stats: CorpusStatistics,
+  { k1, b, delta }: Bm25Parameters = DEFAULT_BM25_PARAMETERS
+): LexicalScores {
+  const terms = [...new Set(queryTerms)];
+  const idf = new Map(terms.map(term => [term, bm25Idf(stats, term)]));
+  const ceiling = terms.reduce((sum, term) => sum + idf.get(term)! * (k1 + 1 + delta), 0);
+
+  const scores = stats.termFrequencies.map((counts, index) => {
+    const lengthNorm = k1 * (1 - b + b * stats.lengths[index] / (stats.averageLength || 1));
+    return terms.reduce((score, term) => {
+      const tf = counts.get(term) ?? 0;
+      if (tf === 0) {
+        return score;
+      }
+      return score + idf.get(term)! * (tf * (k1 + 1) / (tf + lengthNorm) + delta);
+    }, 0);
+  });
+
+  return { scores, normalized: scores.map(score => (ceiling > 0 ? score / ceiling : 0)) };
+}
+
+// Cosine between sublinear TF-IDF vectors, already in [0, 1]
+export function tfidfScores(queryTerms: string[], stats: CorpusStatistics): LexicalScores {
+  const n = stats.termFrequencies.length;
+  const idf = (term: string) => Math.log((1 + n) / (1 + (stats.documentFrequency.get(term) ?? 0))) + 1;
+  const weigh = (counts: Map<string, number>) =>
+    new Map([...counts].map(([term, tf]) => [term, (1 + Math.log(tf)) * idf(term)]));
+  const norm = (vector: Map<string, number>) =>
+    Math.sqrt([...vector.values()].reduce((sum, weight) => sum + weight * weight, 0));
+
+  const queryCounts = new Map<string, number>();
+  for (const term of queryTerms) {
+    queryCounts.set(term, (queryCounts.get(term) ?? 0) + 1);
+  }
+  const queryVector = weigh(queryCounts);
+  const queryNorm = norm(queryVector);
+
+  const scores = stats.termFrequencies.map(counts => {
+    const documentVector = weigh(counts);
+    const documentNorm = norm(documentVector);
+    if (queryNorm === 0 || documentNorm === 0) {
+      return 0;
+    }
+    let dot = 0;
+    for (const [term, weight] of queryVector) {
+      dot += weight * (documentVector.get(term) ?? 0);
+    }
+    return dot / (queryNorm * documentNorm);
+  });
+
+  return { scores, normalized: scores };
+}
@@ -0,0 +1,81 @@
+import type { EmbeddingProvenance, SimilarityResult } from './embeddings';
+import { cosineSimilarity } from './vector-math';
+
+// Maximal Marginal Relevance (Carbonell & Goldstein, 1998): pick passages one at a
+// time, trading similarity to the query against similarity to passages already picked,
+// so near-duplicates stop crowding the top of the ranking.
+
+export const DEFAULT_MMR_LAMBDA = 0.7;
+
+export interface MmrScores {
+  lambda: number; // 1 ranks purely by relevance, 0 purely by novelty
+  relevance: number; // cosine similarity to the query
+  redundancy: number; // highest cosine similarity to a passage ranked above it
+  redundantWith: number | null; // index of that passage; null for the first pick
+  penalty: number; // (1 - lambda) * redundancy, subtracted from the weighted relevance
+  mmrScore: number;
+}
+
+interface MmrRequest {
+  lambda?: unknown;
+}
+
+// Validates the mmr field of a request body; returns null when it is malformed
+export function parseMmrLambda(request: MmrRequest | true): number | null {
+  const { lambda = DEFAULT_MMR_LAMBDA } = request === true ? {} : request;
+  return typeof lambda === 'number' && lambda >= 0 && lambda <= 1 ? lambda : null;
+}
+
+// Greedy MMR selection. Each candidate's redundancy is updated as passages are picked,
+// so every pairwise similarity is computed at most once.
+export function findDiverse(
+  queryEmbedding: number[],
+  passageEmbeddings: number[][],
+  passages: string[],
+  lambda: number = DEFAULT_MMR_LAMBDA,
+  topK: number = 5,
+  provenance?: EmbeddingProvenance[]
+): SimilarityResult[] {
+  const relevance = passageEmbeddings.map(embedding => cosineSimilarity(queryEmbedding, embedding));
+  const redundancy = passageEmbeddings.map(() => ({ similarity: 0, with: null as number | null }));
+  const remaining = new Set(passageEmbeddings.map((_, index) => index));
+  const results: SimilarityResult[] = [];
+
+  while (results.length < topK && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    for (const index of remaining) {
+      const score = lambda * relevance[index] - (1 - lambda) * redundancy[index].similarity;
+      if (score > bestScore) {
+        best = index;
+        bestScore = score;
+      }
+    }
+
+    remaining.delete(best);
+    const { similarity, with: redundantWith } = redundancy[best];
+    results.push({
+      text: passages[best],
+      similarity: relevance[best],
+      index: best,
+      ...(provenance ? { provenance: provenance[best] } : {}),
+      mmr: {
+        lambda,
+        relevance: relevance[best],
+        redundancy: similarity,
+        redundantWith,
+        penalty: (1 - lambda) * similarity,
+        mmrScore: bestScore,
+      },
+    });
+
+    for (const index of remaining) {
+      const overlap = cosineSimilarity(passageEmbeddings[index], passageEmbeddings[best]);
+      if (redundancy[index].with === null || overlap > redundancy[index].similarity) {
+        redundancy[index] = { similarity: overlap, with: best };
+      }
+    }
+  }
+
+  return results;
+}
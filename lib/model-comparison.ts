@@ -0,0 +1,140 @@
+import type { SimilarityResult } from '../types';
+import { LEXICAL_PROVIDER, OPENAI_COMPATIBLE_PROVIDER, getEmbeddingModelInfo } from './embedding-providers/catalog';
+
+// Side-by-side model comparison: every model ranks the same passages, and each pair of
+// rankings is scored for agreement. Pure helpers shared by the comparison routes and the page.
+
+export const MAX_COMPARED_MODELS = 4;
+export const DEFAULT_OVERLAP_K = 5;
+
+export interface ComparedModel {
+  provider: string;
+  model: string;
+}
+
+export interface ModelRanking extends ComparedModel {
+  usedRealAPI: boolean;
+  retries: number;
+  results: SimilarityResult[]; // every passage, best first
+}
+
+export interface ModelPairAgreement {
+  a: number; // indexes into the compared models
+  b: number;
+  spearman: number; // rank correlation over every passage, -1 to 1
+  kendall: number; // tau-a over every passage pair, -1 to 1
+  overlap: number; // share of the top K the two models have in common, 0 to 1
+}
+
+// A passage the models rank far apart, or that only some models put in their top K
+export interface PassageDisagreement {
+  index: number;
+  text: string;
+  ranks: number[]; // 1-based rank under each model, in model order
+  spread: number; // worst rank minus best rank
+  inTopK: boolean[]; // per model
+}
+
+export interface ModelComparisonResult {
+  k: number;
+  models: ModelRanking[];
+  pairs: ModelPairAgreement[];
+  disagreements: PassageDisagreement[]; // largest spread first
+}
+
+// Validates the models field of a comparison request; returns null when it is malformed.
+// Lexical scoring and self-hosted endpoints are left out: the first has no vectors and
+// the second needs a base URL per model.
+export function parseComparedModels(value: unknown): ComparedModel[] | null {
+  if (!Array.isArray(value) || value.length < 2 || value.length > MAX_COMPARED_MODELS) {
+    return null;
+  }
+
+  const seen = new Set<string>();
+  for (const item of value) {
+    if (
+      typeof item !== 'object' || item === null ||
+      typeof item.provider !== 'string' || typeof item.model !== 'string' ||
+      item.provider === LEXICAL_PROVIDER || item.provider === OPENAI_COMPATIBLE_PROVIDER ||
+      !getEmbeddingModelInfo(item.provider, item.model) ||
+      seen.has(`${item.provider}/${item.model}`)
+    ) {
+      return null;
+    }
+    seen.add(`${item.provider}/${item.model}`);
+  }
+
+  return value.map(({ provider, model }) => ({ provider, model }));
+}
+
+// Rank of each passage index, 1-based
+function rankOf(results: SimilarityResult[]): Map<number, number> {
+  return new Map(results.map((result, rank) => [result.index, rank + 1]));
+}
+
+// Rankings are permutations of the same passages, so there are no ties
+export function spearmanCorrelation(a: Map<number, number>, b: Map<number, number>): number {
+  const n = a.size;
+  if (n < 2) return 1;
+  let squared = 0;
+  a.forEach((rank, index) => {
+    squared += (rank - b.get(index)!) ** 2;
+  });
+  return 1 - (6 * squared) / (n * (n * n - 1));
+}
+
+export function kendallTau(a: Map<number, number>, b: Map<number, number>): number {
+  const indexes = [...a.keys()];
+  const n = indexes.length;
+  if (n < 2) return 1;
+  let concordant = 0;
+  let discordant = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const sign = Math.sign(a.get(indexes[i])! - a.get(indexes[j])!) * Math.sign(b.get(indexes[i])! - b.get(indexes[j])!);
+      if (sign > 0) concordant++;
+      else if (sign < 0) discordant++;
+    }
+  }
+  return (concordant - discordant) / (n * (n - 1) / 2);
+}
+
+export function overlapAtK(a: SimilarityResult[], b: SimilarityResult[], k: number): number {
+  const top = new Set(a.slice(0, k).map(result => result.index));
+  const size = Math.min(k, a.length, b.length);
+  return size === 0 ? 1 : b.slice(0, k).filter(result => top.has(result.index)).length / size;
+}
+
+export function compareModelRankings(models: ModelRanking[], k: number = DEFAULT_OVERLAP_K): ModelComparisonResult {
+  const ranks = models.map(model => rankOf(model.results));
+
+  const pairs: ModelPairAgreement[] = [];
+  for (let a = 0; a < models.length; a++) {
+    for (let b = a + 1; b < models.length; b++) {
+      pairs.push({
+        a,
+        b,
+        spearman: spearmanCorrelation(ranks[a], ranks[b]),
+        kendall: kendallTau(ranks[a], ranks[b]),
+        overlap: overlapAtK(models[a].results, models[b].results, k),
+      });
+    }
+  }
+
+  const disagreements = models[0].results
+    .map(({ index, text }): PassageDisagreement => {
+      const passageRanks = ranks.map(rank => rank.get(index)!);
+      return {
+        index,
+        text,
+        ranks: passageRanks,
+        spread: Math.max(...passageRanks) - Math.min(...passageRanks),
+        inTopK: passageRanks.map(rank => rank <= k),
+      };
+    })
+    // Only passages some model cares about: in at least one top K, but not in all of them
+    .filter(passage => passage.inTopK.some(Boolean) && !passage.inTopK.every(Boolean))
+    .sort((x, y) => y.spread - x.spread);
+
+  return { k, models, pairs, disagreements };
+}
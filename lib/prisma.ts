@@ -1,4 +1,4 @@
-import { PrismaClient } from '@prisma/client'
+import { Prisma, PrismaClient } from '@prisma/client'
 
 const globalForPrisma = globalThis as unknown as {
   prisma: PrismaClient | undefined
@@ -7,3 +7,9 @@ const globalForPrisma = globalThis as unknown as {
 export const prisma = globalForPrisma.prisma ?? new PrismaClient()
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma
+
+// Json column writes. The stored shapes are plain JSON, but interfaces carry no index signature,
+// so Prisma's InputJsonValue does not accept them as they are.
+export function toJsonInput(value: object): Prisma.InputJsonValue {
+  return value as Prisma.InputJsonValue
+}
@@ -0,0 +1,262 @@
+import { cosineMatrix, cosineSimilarity, dotProduct } from './vector-math';
+
+// Projects embeddings down to 2 or 3 dimensions for plotting. PCA keeps global
+// structure and is exact; t-SNE keeps local neighbourhoods, so clusters separate
+// more clearly but distances between clusters mean little. Both are deterministic:
+// t-SNE starts from the PCA layout rather than a random one.
+
+export type ProjectionMethod = 'pca' | 'tsne';
+
+export const PROJECTION_METHODS: { id: ProjectionMethod; label: string; description: string }[] = [
+  { id: 'pca', label: 'PCA', description: 'Linear projection onto the directions of greatest variance' },
+  { id: 'tsne', label: 't-SNE', description: 'Non-linear layout that keeps each passage near its closest neighbours' },
+];
+
+export interface ProjectionOptions {
+  method: ProjectionMethod;
+  dimensions: 2 | 3;
+  perplexity: number; // t-SNE: roughly the number of neighbours each point attends to
+  iterations: number; // t-SNE gradient steps
+}
+
+export const DEFAULT_PROJECTION_OPTIONS: ProjectionOptions = {
+  method: 'pca',
+  dimensions: 2,
+  perplexity: 30,
+  iterations: 500,
+};
+
+export interface ProjectionResult {
+  method: ProjectionMethod;
+  dimensions: 2 | 3;
+  points: number[][]; // one per input vector, in input order
+  explainedVariance?: number[]; // PCA: share of total variance per axis
+}
+
+// The query is projected alongside the passages so it lands in the same space
+export interface QueryProjection extends ProjectionResult {
+  querySimilarity: number[]; // cosine of each passage to the query, for colouring beyond the top-K
+}
+
+interface ProjectionRequest {
+  method?: unknown;
+  dimensions?: unknown;
+  perplexity?: unknown;
+  iterations?: unknown;
+}
+
+// Validates the projection field of a request body; returns null when it is malformed
+export function parseProjectionOptions(request: ProjectionRequest | true): ProjectionOptions | null {
+  const {
+    method = DEFAULT_PROJECTION_OPTIONS.method,
+    dimensions = DEFAULT_PROJECTION_OPTIONS.dimensions,
+    perplexity = DEFAULT_PROJECTION_OPTIONS.perplexity,
+    iterations = DEFAULT_PROJECTION_OPTIONS.iterations,
+  } = request === true ? {} : request;
+
+  if (
+    !PROJECTION_METHODS.some(option => option.id === method) ||
+    (dimensions !== 2 && dimensions !== 3) ||
+    typeof perplexity !== 'number' || perplexity < 2 || perplexity > 100 ||
+    !Number.isInteger(iterations) || (iterations as number) < 50 || (iterations as number) > 2000
+  ) {
+    return null;
+  }
+
+  return { method: method as ProjectionMethod, dimensions, perplexity, iterations: iterations as number };
+}
+
+// Principal components by power iteration on the centered data, one at a time with
+// deflation. Never forms the d×d covariance matrix, which is large for 3072-d models.
+export function pca(vectors: number[][], components: number): { points: number[][]; explainedVariance: number[] } {
+  const n = vectors.length;
+  const d = vectors[0].length;
+  const mean = new Array<number>(d).fill(0);
+  for (const vector of vectors) {
+    vector.forEach((value, j) => { mean[j] += value / n; });
+  }
+  const centered = vectors.map(vector => vector.map((value, j) => value - mean[j]));
+  const totalVariance = centered.reduce((sum, row) => sum + dotProduct(row, row), 0);
+
+  const axes: number[][] = [];
+  const points = centered.map(() => new Array<number>(components).fill(0));
+  const explainedVariance: number[] = [];
+
+  const orthogonalize = (v: number[]) => {
+    for (const axis of axes) {
+      const overlap = dotProduct(v, axis);
+      v.forEach((_, j) => { v[j] -= overlap * axis[j]; });
+    }
+    const length = Math.sqrt(dotProduct(v, v));
+    return length < 1e-12 ? null : v.map(value => value / length);
+  };
+
+  for (let c = 0; c < components; c++) {
+    // Start from the row that the axes found so far explain least
+    let v: number[] | null = null;
+    let bestResidual = 0;
+    for (const row of centered) {
+      const candidate = orthogonalize([...row]);
+      const residual = candidate ? Math.abs(dotProduct(candidate, row)) : 0;
+      if (candidate && residual > bestResidual) {
+        v = candidate;
+        bestResidual = residual;
+      }
+    }
+    if (!v) {
+      explainedVariance.push(0); // fewer independent directions than requested axes
+      continue;
+    }
+
+    for (let iteration = 0; iteration < 100; iteration++) {
+      const scores = centered.map(row => dotProduct(row, v!));
+      const next = new Array<number>(d).fill(0);
+      centered.forEach((row, i) => row.forEach((value, j) => { next[j] += scores[i] * value; }));
+      const normalized = orthogonalize(next);
+      if (!normalized) break;
+      const converged = Math.abs(dotProduct(normalized, v)) > 1 - 1e-10;
+      v = normalized;
+      if (converged) break;
+    }
+
+    const scores = centered.map(row => dotProduct(row, v!));
+    // Fix the sign so the same data always plots the same way round
+    const anchor = scores.reduce((best, score) => (Math.abs(score) > Math.abs(best) ? score : best), 0);
+    const sign = anchor < 0 ? -1 : 1;
+    scores.forEach((score, i) => { points[i][c] = sign * score; });
+    explainedVariance.push(totalVariance > 0 ? scores.reduce((sum, score) => sum + score * score, 0) / totalVariance : 0);
+    axes.push(v);
+  }
+
+  return { points, explainedVariance };
+}
+
+// Conditional probabilities p(j|i) with each row's Gaussian bandwidth found by binary
+// search so its entropy matches log(perplexity)
+function affinities(squaredDistances: number[][], perplexity: number): number[][] {
+  const n = squaredDistances.length;
+  const targetEntropy = Math.log(perplexity);
+
+  return squaredDistances.map((row, i) => {
+    let beta = 1;
+    let low = 0;
+    let high = Infinity;
+    let probabilities = new Array<number>(n).fill(0);
+    for (let step = 0; step < 50; step++) {
+      let sum = 0;
+      probabilities = row.map((distance, j) => {
+        const p = j === i ? 0 : Math.exp(-distance * beta);
+        sum += p;
+        return p;
+      });
+      sum = Math.max(sum, 1e-300);
+      let entropy = 0;
+      probabilities = probabilities.map((p, j) => {
+        entropy += beta * row[j] * p / sum;
+        return p / sum;
+      });
+      entropy += Math.log(sum);
+
+      if (Math.abs(entropy - targetEntropy) < 1e-5) break;
+      if (entropy > targetEntropy) {
+        low = beta;
+        beta = high === Infinity ? beta * 2 : (beta + high) / 2;
+      } else {
+        high = beta;
+        beta = (beta + low) / 2;
+      }
+    }
+    return probabilities;
+  });
+}
+
+// Exact t-SNE (van der Maaten & Hinton, 2008) with early exaggeration, momentum and
+// per-coordinate gains. O(n²) per step, which is fine for the few hundred passages
+// a run allows. Distances are cosine-based: for unit vectors, |a - b|² = 2(1 - cos).
+export function tsne(vectors: number[][], components: number, perplexity: number, iterations: number): number[][] {
+  const n = vectors.length;
+  if (n < 4) {
+    return pca(vectors, components).points;
+  }
+
+  const squaredDistances = cosineMatrix(vectors).map(row => row.map(similarity => Math.max(0, 2 * (1 - similarity))));
+  const conditional = affinities(squaredDistances, Math.min(perplexity, (n - 1) / 3));
+  const p = conditional.map((row, i) => row.map((value, j) => Math.max((value + conditional[j][i]) / (2 * n), 1e-12)));
+
+  // Start from PCA, scaled down so the first steps are not dominated by the initial spread
+  const initial = pca(vectors, components).points;
+  const spread = Math.sqrt(initial.reduce((sum, point) => sum + point[0] * point[0], 0) / n) || 1;
+  const y = initial.map(point => point.map(value => (value / spread) * 1e-4));
+  const velocity = y.map(point => point.map(() => 0));
+  const gains = y.map(point => point.map(() => 1));
+  const learningRate = Math.max(n / 48, 50);
+  const exaggerationSteps = Math.min(250, Math.floor(iterations / 2));
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const exaggeration = iteration < exaggerationSteps ? 12 : 1;
+    const momentum = iteration < exaggerationSteps ? 0.5 : 0.8;
+
+    // Student-t kernel between every pair of low-dimensional points
+    const kernel = y.map(() => new Array<number>(n).fill(0));
+    let kernelSum = 0;
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        let squared = 0;
+        for (let c = 0; c < components; c++) {
+          squared += (y[i][c] - y[j][c]) ** 2;
+        }
+        kernel[i][j] = kernel[j][i] = 1 / (1 + squared);
+        kernelSum += 2 * kernel[i][j];
+      }
+    }
+
+    for (let i = 0; i < n; i++) {
+      const gradient = new Array<number>(components).fill(0);
+      for (let j = 0; j < n; j++) {
+        if (i === j) continue;
+        const force = 4 * (exaggeration * p[i][j] - kernel[i][j] / kernelSum) * kernel[i][j];
+        for (let c = 0; c < components; c++) {
+          gradient[c] += force * (y[i][c] - y[j][c]);
+        }
+      }
+      for (let c = 0; c < components; c++) {
+        // Grow the step while the gradient keeps its direction, shrink it when it flips
+        gains[i][c] = Math.sign(gradient[c]) !== Math.sign(velocity[i][c]) ? gains[i][c] + 0.2 : Math.max(gains[i][c] * 0.8, 0.01);
+        velocity[i][c] = momentum * velocity[i][c] - learningRate * gains[i][c] * gradient[c];
+      }
+    }
+
+    for (let c = 0; c < components; c++) {
+      let mean = 0;
+      for (let i = 0; i < n; i++) {
+        y[i][c] += velocity[i][c];
+        mean += y[i][c] / n;
+      }
+      for (let i = 0; i < n; i++) {
+        y[i][c] -= mean;
+      }
+    }
+  }
+
+  return y;
+}
+
+export function projectEmbeddings(vectors: number[][], options: ProjectionOptions = DEFAULT_PROJECTION_OPTIONS): ProjectionResult {
+  const { method, dimensions } = options;
+  if (method === 'pca') {
+    return { method, dimensions, ...pca(vectors, dimensions) };
+  }
+  return { method, dimensions, points: tsne(vectors, dimensions, options.perplexity, options.iterations) };
+}
+
+// points[0] is the query; points[i + 1] is passage i
+export function projectQueryAndPassages(
+  queryEmbedding: number[],
+  passageEmbeddings: number[][],
+  options: ProjectionOptions = DEFAULT_PROJECTION_OPTIONS
+): QueryProjection {
+  return {
+    ...projectEmbeddings([queryEmbedding, ...passageEmbeddings], options),
+    querySimilarity: passageEmbeddings.map(embedding => cosineSimilarity(queryEmbedding, embedding)),
+  };
+}
@@ -0,0 +1,181 @@
+import { createHash } from 'crypto'
+import { prisma } from './prisma'
+
+// Saved projects: validation and ownership checks shared by the /api/projects routes.
+// Passage sets and queries are deduplicated by content hash within a project, so
+// running the same article every morning adds runs, not copies of the article.
+
+export const MAX_PROJECT_NAME_LENGTH = 100
+export const RECENT_RUNS_LIMIT = 20
+const MAX_SAVED_PASSAGES = 500
+
+// Request fields that must never be persisted with a run
+const SECRET_PARAMETERS = ['apiKey', 'fallbackApiKey', 'rerankApiKey']
+
+export interface ProjectInput {
+  name: string
+  description: string | null
+}
+
+export interface PassageSetInput {
+  name?: string
+  passages: string[]
+}
+
+export interface RunInput {
+  query: string
+  passages: string[]
+  provider: string
+  model: string
+  parameters: Record<string, unknown>
+  results: SavedResult[]
+  usedRealAPI: boolean
+}
+
+export type SavedResult = { index: number; text: string; similarity: number } & Record<string, unknown>
+
+// Optional SimilarityResult fields stored with a run
+const RESULT_DETAIL_FIELDS = ['provenance', 'tokens', 'truncated', 'hybrid', 'mmr']
+
+export function contentHash(content: string | string[]): string {
+  return createHash('sha256').update(JSON.stringify(content)).digest('hex')
+}
+
+// Validates a project create or update body; returns null when it is malformed.
+// partial allows omitted fields, for updates; a new project without a description gets null.
+export function parseProjectInput(body: unknown): ProjectInput | null
+export function parseProjectInput(body: unknown, partial: true): Partial<ProjectInput> | null
+export function parseProjectInput(body: unknown, partial = false): Partial<ProjectInput> | null {
+  if (typeof body !== 'object' || body === null) return null
+  const { name, description } = body as Record<string, unknown>
+  const input: Partial<ProjectInput> = {}
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_PROJECT_NAME_LENGTH) return null
+    input.name = name.trim()
+  }
+  if (description !== undefined || !partial) {
+    if (description != null && typeof description !== 'string') return null
+    input.description = description?.trim() || null
+  }
+  return input
+}
+
+// Request options safe to store alongside saved results
+export function withoutSecrets(parameters: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(parameters).filter(([key]) => !SECRET_PARAMETERS.includes(key)))
+}
+
+function isPassageList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 && value.length <= MAX_SAVED_PASSAGES &&
+    value.every(passage => typeof passage === 'string')
+}
+
+// Validates a passage set body; returns null when it is malformed
+export function parsePassageSetInput(body: unknown): PassageSetInput | null {
+  if (typeof body !== 'object' || body === null) return null
+  const { name, passages } = body as Record<string, unknown>
+
+  if (!isPassageList(passages)) return null
+  if (name !== undefined && (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_PROJECT_NAME_LENGTH)) {
+    return null
+  }
+  return { name: name?.trim(), passages }
+}
+
+// Validates a run body; returns null when it is malformed
+export function parseRunInput(body: unknown): RunInput | null {
+  if (typeof body !== 'object' || body === null) return null
+  const { query, passages, provider, model, parameters = {}, results, usedRealAPI } = body as Record<string, unknown>
+
+  if (
+    typeof query !== 'string' || !query.trim() ||
+    !isPassageList(passages) ||
+    typeof provider !== 'string' || typeof model !== 'string' ||
+    typeof parameters !== 'object' || parameters === null || Array.isArray(parameters) ||
+    typeof usedRealAPI !== 'boolean'
+  ) {
+    return null
+  }
+
+  const savedResults = parseRunResults(results, passages)
+  if (!savedResults) return null
+
+  return { query, passages, provider, model, parameters: withoutSecrets(parameters as Record<string, unknown>), results: savedResults, usedRealAPI }
+}
+
+// Saved results must point into the saved passages: each index at most once, with that passage's
+// text and a finite score. Only the fields a similarity result has are kept.
+export function parseRunResults(results: unknown, passages: string[]): SavedResult[] | null {
+  if (!Array.isArray(results) || results.length > passages.length) return null
+
+  const seen = new Set<number>()
+  const saved: SavedResult[] = []
+  for (const result of results) {
+    if (typeof result !== 'object' || result === null) return null
+    const { index, text, similarity, ...details } = result as Record<string, unknown>
+
+    if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= passages.length || seen.has(index)) {
+      return null
+    }
+    if (text !== passages[index] || typeof similarity !== 'number' || !Number.isFinite(similarity)) return null
+
+    seen.add(index)
+    const kept = RESULT_DETAIL_FIELDS.filter(field => details[field] !== undefined)
+    saved.push({ index, text, similarity, ...Object.fromEntries(kept.map(field => [field, details[field]])) })
+  }
+  return saved
+}
+
+// The project, if it exists and belongs to the signed-in user
+export async function findOwnedProject(email: string, projectId: string) {
+  return prisma.project.findFirst({
+    where: { id: projectId, user: { email } }
+  })
+}
+
+// Two requests saving the same content can both miss the row and race to create it. The loser
+// hits the unique constraint (Prisma P2002); retrying then finds the winner's row.
+async function upsertByContent<T>(upsert: () => T): Promise<Awaited<T>> {
+  try {
+    return await upsert()
+  } catch (error) {
+    if ((error as { code?: unknown })?.code !== 'P2002') throw error
+    return await upsert()
+  }
+}
+
+export async function savePassageSet(projectId: string, passages: string[], name?: string) {
+  const hash = contentHash(passages)
+  return upsertByContent(() => prisma.passageSet.upsert({
+    where: { projectId_contentHash: { projectId, contentHash: hash } },
+    update: name ? { name } : {},
+    create: {
+      projectId,
+      passages,
+      contentHash: hash,
+      // Named after the first passage unless the caller names it
+      name: name ?? `${passages[0].slice(0, 60)}${passages[0].length > 60 ? '…' : ''} (${passages.length})`
+    }
+  }))
+}
+
+export async function saveQuery(projectId: string, text: string) {
+  const hash = contentHash(text)
+  return upsertByContent(() => prisma.query.upsert({
+    where: { projectId_contentHash: { projectId, contentHash: hash } },
+    update: {},
+    create: { projectId, text, contentHash: hash }
+  }))
+}
+
+// Run list entries leave out results and passages, which can be large
+export const RUN_SUMMARY_SELECT = {
+  id: true,
+  provider: true,
+  model: true,
+  usedRealAPI: true,
+  createdAt: true,
+  query: { select: { id: true, text: true } },
+  passageSet: { select: { id: true, name: true } },
+} as const
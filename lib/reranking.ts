@@ -1,5 +1,10 @@
 import OpenAI from 'openai';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { callProvider, RetryCounter, toEmbeddingProviderError } from './embedding-providers';
+import type { FallbackPolicy } from './embeddings';
+import { analyzeLexical, detectLanguage } from './lexical';
+import { seededUnit } from './text-analysis';
+import { cosineSimilarity } from './vector-math';
 
 export type RerankProvider = 'openai' | 'google-vertex' | 'mock';
 export type RerankModel = 'text-search-babbage-doc-001' | 'cross-encoder-ms-marco-MiniLM-L-12-v2' | 'cross-encoder-ms-marco-MiniLM-L-6-v2' | 'reranker-001';
@@ -29,6 +34,55 @@ export interface RerankResponse {
   usedRealAPI: boolean;
 }
 
+export interface RerankingServiceOptions {
+  seed?: number; // varies the mock scores; the same seed always gives the same ranking
+  // Only { mode: 'mock' } turns a failed rerank call into mock scores. A secondary fallback names
+  // an embedding provider, so for reranking it fails like the default policy.
+  fallback?: FallbackPolicy;
+}
+
+function bigrams(terms: string[]): string[] {
+  return terms.slice(1).map((term, index) => `${terms[index]} ${term}`);
+}
+
+// Mock cross-encoder driven by lexical overlap: IDF-weighted coverage of the query terms,
+// matching query bigrams and how much of the passage is about the query, on a 0-100 scale. A small seeded jitter breaks ties
+// without making repeated runs differ. Terms come from the lexical analyzer, in the language the texts are written in.
+export function lexicalCrossEncoderScores(query: string, passages: string[], seed: number = 0): number[] {
+  const language = detectLanguage([query, ...passages]);
+  const analyzedQuery = analyzeLexical(query, language);
+  const queryTerms = [...new Set(analyzedQuery)];
+  const queryBigrams = new Set(bigrams(analyzedQuery));
+  const passageTerms = passages.map(passage => analyzeLexical(passage, language));
+  const passageSets = passageTerms.map(terms => new Set(terms));
+
+  const idf = new Map(queryTerms.map(term => {
+    const documentFrequency = passageSets.filter(terms => terms.has(term)).length;
+    return [term, Math.log(1 + passages.length / (1 + documentFrequency))];
+  }));
+  const totalWeight = queryTerms.reduce((sum, term) => sum + idf.get(term)!, 0);
+
+  return passages.map((passage, index) => {
+    const terms = passageSets[index];
+    const coverage = totalWeight > 0
+      ? queryTerms.reduce((sum, term) => sum + (terms.has(term) ? idf.get(term)! : 0), 0) / totalWeight
+      : 0;
+
+    const passageBigrams = new Set(bigrams(passageTerms[index]));
+    const phraseMatch = queryBigrams.size > 0
+      ? [...queryBigrams].filter(bigram => passageBigrams.has(bigram)).length / queryBigrams.size
+      : coverage;
+
+    const passageLength = passageTerms[index].length;
+    const focus = passageLength > 0
+      ? passageTerms[index].filter(term => idf.has(term)).length / passageLength
+      : 0;
+
+    const jitter = (seededUnit(seed, query, passage) - 0.5) * 2; // ±1 point
+    return Math.max(0, Math.min(100, (coverage * 0.7 + phraseMatch * 0.2 + focus * 0.1) * 100 + jitter));
+  });
+}
+
 export class RerankingService {
   private openaiClient: OpenAI | null = null;
   private googleClient: GoogleGenerativeAI | null = null;
@@ -36,11 +90,16 @@ export class RerankingService {
   private model: RerankModel;
   private apiKey: string | undefined;
   private usedRealAPI: boolean = false;
+  private retryCounter: RetryCounter = { retries: 0 };
+  private seed: number;
+  private fallback: FallbackPolicy;
 
-  constructor(provider: RerankProvider, model: RerankModel, apiKey?: string) {
+  constructor(provider: RerankProvider, model: RerankModel, apiKey?: string, options: RerankingServiceOptions = {}) {
     this.provider = provider;
     this.model = model;
     this.apiKey = apiKey || this.getEnvironmentApiKey(provider);
+    this.seed = options.seed ?? 0;
+    this.fallback = options.fallback ?? { mode: 'fail' };
     
     console.log('🔧 RerankingService constructor called');
     console.log('🔧 Provider:', provider);
@@ -92,6 +151,7 @@ export class RerankingService {
     if (this.provider === 'openai') {
       this.openaiClient = new OpenAI({
         apiKey: this.apiKey,
+        maxRetries: 0, // callProvider owns retries
       });
       console.log('🔧 OpenAI client initialized for reranking');
     } else if (this.provider === 'google-vertex') {
@@ -100,12 +160,16 @@ export class RerankingService {
     }
   }
 
-  async rerankPassages(query: string, passages: string[], embeddingScores: number[]): Promise<RerankResult[]> {
+  // cosineScores are the passages' embedding similarities; results carry them on the 0-100 rerank scale
+  async rerankPassages(query: string, passages: string[], cosineScores: number[]): Promise<RerankResult[]> {
     console.log('🚀 Reranking passages:', passages.length);
+
+    // Convert embedding scores to 0-100 scale
+    const embeddingScores = cosineScores.map(score => Math.max(0, Math.min(100, (score + 1) * 50)));
     
     if (!this.apiKey || (!this.openaiClient && !this.googleClient)) {
       console.log('🔄 No API key or client, using mock reranking');
-      return this.generateMockReranking(passages, embeddingScores);
+      return this.generateMockReranking(query, passages, embeddingScores);
     }
 
     try {
@@ -122,112 +186,85 @@ export class RerankingService {
       this.usedRealAPI = true;
       return this.combineScores(passages, embeddingScores, rerankScores);
     } catch (error) {
-      console.error(`❌ ${this.provider.toUpperCase()} rerank API call failed:`, error);
+      const providerError = toEmbeddingProviderError(error, this.provider);
+      providerError.retries = this.retryCounter.retries;
+      console.error(`❌ ${this.provider.toUpperCase()} rerank API call failed (${providerError.code}):`, error);
+
+      if (this.fallback.mode !== 'mock') {
+        throw providerError;
+      }
       console.log('🔄 Falling back to mock reranking');
-      return this.generateMockReranking(passages, embeddingScores);
+      return this.generateMockReranking(query, passages, embeddingScores);
     }
   }
 
+  // OpenAI has no rerank endpoint, so passages are scored by embedding similarity to the query
   private async openaiRerank(query: string, passages: string[]): Promise<number[]> {
     console.log('🌐 Making OpenAI rerank API call...');
     const startTime = Date.now();
 
-    try {
-      // Use OpenAI's text-search-babbage-doc-001 model for reranking
-      // This is a dedicated reranking model that returns relevance scores
-      const response = await this.openaiClient!.embeddings.create({
-        model: 'text-search-babbage-doc-001',
-        input: passages.map(passage => `${query} ${passage}`), // Combine query and passage for reranking
-      });
+    const response = await this.call(signal => this.openaiClient!.embeddings.create({
+      model: 'text-embedding-3-small',
+      input: [query, ...passages],
+    }, { signal }));
 
-      // Convert the embedding similarities to 0-100 scale
-      const queryEmbedding = await this.openaiClient!.embeddings.create({
-        model: 'text-search-babbage-doc-001',
-        input: query,
-      });
+    const [queryVec, ...passageVecs] = response.data.map(item => item.embedding);
+    // Convert from [-1, 1] to [0, 100] scale
+    const scores = passageVecs.map(passageVec => Math.max(0, Math.min(100, (cosineSimilarity(queryVec, passageVec) + 1) * 50)));
 
-      const queryVec = queryEmbedding.data[0].embedding;
-      const scores = response.data.map((docEmbedding) => {
-        const similarity = this.cosineSimilarity(queryVec, docEmbedding.embedding);
-        // Convert from [-1, 1] to [0, 100] scale
-        return Math.max(0, Math.min(100, (similarity + 1) * 50));
-      });
-
-      const duration = Date.now() - startTime;
-      console.log(`✅ OpenAI rerank API call successful (${duration}ms)`);
-      console.log(`📊 Rerank scores (0-100):`, scores.map(s => s.toFixed(1)));
-      
-      return scores;
-    } catch {
-      console.log('⚠️ OpenAI rerank failed, falling back to embedding similarity');
-      // Fallback to embedding similarity with 0-100 scale conversion
-      const queryEmbedding = await this.openaiClient!.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: query,
-      });
-
-      const passageEmbeddings = await this.openaiClient!.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: passages,
-      });
+    const duration = Date.now() - startTime;
+    console.log(`✅ OpenAI rerank API call successful (${duration}ms)`);
+    console.log(`📊 Rerank scores (0-100):`, scores.map(s => s.toFixed(1)));
 
-      const queryVec = queryEmbedding.data[0].embedding;
-      return passageEmbeddings.data.map(passage => {
-        const similarity = this.cosineSimilarity(queryVec, passage.embedding);
-        return Math.max(0, Math.min(100, (similarity + 1) * 50));
-      });
-    }
+    return scores;
   }
 
   private async googleVertexRerank(query: string, passages: string[]): Promise<number[]> {
     console.log('🌐 Making Google Vertex AI rerank API call...');
     const startTime = Date.now();
 
-    try {
-      // Use Google's text-embedding-004 model for better reranking
-      const model = this.googleClient!.getGenerativeModel({ model: 'text-embedding-004' });
-      
-      // Generate embeddings for query and passages
-      const queryEmbedding = await model.embedContent(query);
-      const passageEmbeddings = await Promise.all(
-        passages.map(passage => model.embedContent(passage))
-      );
-
-      // Calculate similarities and convert to 0-100 scale
-      const results = passageEmbeddings.map(passageEmbedding => {
-        const similarity = this.cosineSimilarity(queryEmbedding.embedding.values, passageEmbedding.embedding.values);
-        // Convert from [-1, 1] to [0, 100] scale
-        return Math.max(0, Math.min(100, (similarity + 1) * 50));
-      });
+    // Use Google's text-embedding-004 model for better reranking
+    const model = this.googleClient!.getGenerativeModel({ model: 'text-embedding-004' });
+    
+    // Generate embeddings for query and passages
+    const queryEmbedding = await this.call(signal => model.embedContent(query, { signal }));
+    const passageEmbeddings = await Promise.all(
+      passages.map(passage => this.call(signal => model.embedContent(passage, { signal })))
+    );
+
+    // Calculate similarities and convert to 0-100 scale
+    const results = passageEmbeddings.map(passageEmbedding => {
+      const similarity = cosineSimilarity(queryEmbedding.embedding.values, passageEmbedding.embedding.values);
+      // Convert from [-1, 1] to [0, 100] scale
+      return Math.max(0, Math.min(100, (similarity + 1) * 50));
+    });
 
-      const duration = Date.now() - startTime;
-      console.log(`✅ Google Vertex AI rerank API call successful (${duration}ms)`);
-      console.log(`📊 Rerank scores (0-100):`, results.map(s => s.toFixed(1)));
-      
-      return results;
-    } catch {
-      console.log('⚠️ Google Vertex AI rerank failed, using mock scores');
-      // Fallback to mock scores on 0-100 scale
-      return passages.map(() => Math.random() * 30 + 50); // Random scores between 50-80
-    }
+    const duration = Date.now() - startTime;
+    console.log(`✅ Google Vertex AI rerank API call successful (${duration}ms)`);
+    console.log(`📊 Rerank scores (0-100):`, results.map(s => s.toFixed(1)));
+    
+    return results;
   }
 
-  private generateMockReranking(passages: string[], embeddingScores: number[]): RerankResult[] {
-    console.log('🎭 Generating mock reranking...');
-    
-    // Convert embedding scores to 0-100 scale
-    const embeddingScores100 = embeddingScores.map(score => Math.max(0, Math.min(100, (score + 1) * 50)));
-    
-    // Generate mock rerank scores with some variation from embedding scores
-    const rerankScores = embeddingScores100.map(score => {
-      const variation = (Math.random() - 0.5) * 20; // ±10 points variation
-      return Math.max(0, Math.min(100, score + variation));
+  // Every outbound call goes through the shared retry policy and the provider's circuit breaker
+  private call<T>(request: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    return callProvider(request, {
+      provider: this.provider,
+      circuitKey: `rerank:${this.provider}`,
+      counter: this.retryCounter,
     });
+  }
+
+  private generateMockReranking(query: string, passages: string[], embeddingScores: number[]): RerankResult[] {
+    console.log('🎭 Generating mock reranking (seed ' + this.seed + ')...');
+    
+    // Score each passage against the query with the lexical mock cross-encoder
+    const rerankScores = lexicalCrossEncoderScores(query, passages, this.seed);
 
-    console.log(`📊 Mock embedding scores (0-100):`, embeddingScores100.map(s => s.toFixed(1)));
+    console.log(`📊 Mock embedding scores (0-100):`, embeddingScores.map(s => s.toFixed(1)));
     console.log(`📊 Mock rerank scores (0-100):`, rerankScores.map(s => s.toFixed(1)));
 
-    return this.combineScores(passages, embeddingScores100, rerankScores);
+    return this.combineScores(passages, embeddingScores, rerankScores);
   }
 
   private combineScores(passages: string[], embeddingScores: number[], rerankScores: number[]): RerankResult[] {
@@ -261,31 +298,6 @@ export class RerankingService {
     return results;
   }
 
-  private cosineSimilarity(vec1: number[], vec2: number[]): number {
-    if (vec1.length !== vec2.length) {
-      throw new Error('Vectors must have the same length');
-    }
-
-    let dotProduct = 0;
-    let norm1 = 0;
-    let norm2 = 0;
-
-    for (let i = 0; i < vec1.length; i++) {
-      dotProduct += vec1[i] * vec2[i];
-      norm1 += vec1[i] * vec1[i];
-      norm2 += vec2[i] * vec2[i];
-    }
-
-    norm1 = Math.sqrt(norm1);
-    norm2 = Math.sqrt(norm2);
-
-    if (norm1 === 0 || norm2 === 0) {
-      return 0;
-    }
-
-    return dotProduct / (norm1 * norm2);
-  }
-
   // Public methods for external access
   public wasRealAPIUsed(): boolean {
     return this.usedRealAPI;
@@ -298,4 +310,12 @@ export class RerankingService {
   public getModel(): RerankModel {
     return this.model;
   }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  public getRetryCount(): number {
+    return this.retryCounter.retries;
+  }
 }
@@ -0,0 +1,152 @@
+import type { SimilarityResult } from '../types'
+import { contentHash, parseRunResults } from './projects'
+
+// Diffs two saved runs. Passages are aligned by content hash rather than position, so
+// an edited, inserted or reordered passage does not shift every other row of the diff.
+
+export const DEFAULT_DIFF_TOP_K = 5
+
+export type RunDiffStatus = 'moved' | 'unchanged' | 'entered' | 'left'
+
+export interface RunDiffEntry {
+  hash: string
+  text: string
+  status: RunDiffStatus // entered and left are relative to the top K
+  baseRank: number | null // 1-based; null when the passage is not in the base run's results
+  compareRank: number | null
+  rankDelta: number | null // baseRank - compareRank: positive moved up; null unless ranked in both
+  baseScore: number | null
+  compareScore: number | null
+  scoreDelta: number | null // compareScore - baseScore
+  inBaseSet: boolean // false for a passage that was added or edited since the base run
+  inCompareSet: boolean // false for a passage that was removed or edited
+}
+
+export interface RunDiffSide {
+  id: string
+  query: string
+  provider: string
+  model: string
+  usedRealAPI: boolean
+  createdAt: string
+  passageCount: number
+}
+
+export interface RunDiff {
+  topK: number
+  base: RunDiffSide
+  compare: RunDiffSide
+  // What differs between the two runs, to explain the movements
+  changes: {
+    query: boolean
+    provider: boolean
+    model: boolean
+    parameters: string[] // request settings whose values differ
+    passagesAdded: number
+    passagesRemoved: number
+  }
+  entries: RunDiffEntry[] // compare run's ranking order, then passages that left it
+  summary: Record<RunDiffStatus, number>
+}
+
+// The stored shape of a run with its query and passages, as loaded by the diff route
+export interface DiffableRun {
+  id: string
+  provider: string
+  model: string
+  usedRealAPI: boolean
+  createdAt: Date | string
+  parameters: Record<string, unknown>
+  results: SimilarityResult[]
+  query: { text: string }
+  passageSet: { passages: string[] }
+}
+
+// A run as the database returns it, with parameters and results as untyped JSON
+export type StoredRun = Omit<DiffableRun, 'parameters' | 'results'> & { parameters: unknown; results: unknown }
+
+// Checks a stored run's JSON before diffing it; null when its results do not fit its passages
+export function toDiffableRun(run: StoredRun): DiffableRun | null {
+  const results = parseRunResults(run.results, run.passageSet.passages)
+  if (!results) return null
+
+  const { parameters } = run
+  const isObject = typeof parameters === 'object' && parameters !== null && !Array.isArray(parameters)
+  return { ...run, parameters: isObject ? parameters as Record<string, unknown> : {}, results }
+}
+
+function side(run: DiffableRun): RunDiffSide {
+  return {
+    id: run.id,
+    query: run.query.text,
+    provider: run.provider,
+    model: run.model,
+    usedRealAPI: run.usedRealAPI,
+    createdAt: new Date(run.createdAt).toISOString(),
+    passageCount: run.passageSet.passages.length,
+  }
+}
+
+function changedParameters(base: Record<string, unknown>, compare: Record<string, unknown>): string[] {
+  const keys = new Set([...Object.keys(base), ...Object.keys(compare)])
+  return [...keys].filter(key => JSON.stringify(base[key]) !== JSON.stringify(compare[key])).sort()
+}
+
+export function diffRuns(base: DiffableRun, compare: DiffableRun, topK = DEFAULT_DIFF_TOP_K): RunDiff {
+  const rankings = [base, compare].map(run => {
+    const ranked = new Map<string, { rank: number; score: number; text: string }>()
+    run.results.forEach((result, rank) => {
+      ranked.set(contentHash(result.text), { rank: rank + 1, score: result.similarity, text: result.text })
+    })
+    return ranked
+  })
+  const [baseSet, compareSet] = [base, compare].map(run => new Set(run.passageSet.passages.map(passage => contentHash(passage))))
+  const [baseRanking, compareRanking] = rankings
+
+  const hashes = [...compareRanking.keys(), ...[...baseRanking.keys()].filter(hash => !compareRanking.has(hash))]
+  const entries = hashes.map((hash): RunDiffEntry => {
+    const before = baseRanking.get(hash)
+    const after = compareRanking.get(hash)
+    const inBaseTop = before !== undefined && before.rank <= topK
+    const inCompareTop = after !== undefined && after.rank <= topK
+    const rankDelta = before && after ? before.rank - after.rank : null
+
+    let status: RunDiffStatus
+    if (inCompareTop && !inBaseTop) status = 'entered'
+    else if (inBaseTop && !inCompareTop) status = 'left'
+    else status = rankDelta === 0 ? 'unchanged' : 'moved'
+
+    return {
+      hash,
+      text: (after ?? before)!.text,
+      status,
+      baseRank: before?.rank ?? null,
+      compareRank: after?.rank ?? null,
+      rankDelta,
+      baseScore: before?.score ?? null,
+      compareScore: after?.score ?? null,
+      scoreDelta: before && after ? after.score - before.score : null,
+      inBaseSet: baseSet.has(hash),
+      inCompareSet: compareSet.has(hash),
+    }
+  })
+
+  const summary: Record<RunDiffStatus, number> = { moved: 0, unchanged: 0, entered: 0, left: 0 }
+  entries.forEach(entry => summary[entry.status]++)
+
+  return {
+    topK,
+    base: side(base),
+    compare: side(compare),
+    changes: {
+      query: base.query.text !== compare.query.text,
+      provider: base.provider !== compare.provider,
+      model: base.model !== compare.model,
+      parameters: changedParameters(base.parameters, compare.parameters),
+      passagesAdded: [...compareSet].filter(hash => !baseSet.has(hash)).length,
+      passagesRemoved: [...baseSet].filter(hash => !compareSet.has(hash)).length,
+    },
+    entries,
+    summary,
+  }
+}
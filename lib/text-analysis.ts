@@ -0,0 +1,24 @@
+// Deterministic text helpers shared by the mock providers: string hashing and seeded noise.
+// Tokenizing, stopwords and stemming live in the lexical analyzer (lib/lexical/analyzer.ts).
+
+// 32-bit string hash (Java's String.hashCode), folded to a non-negative integer
+export function hashString(str: string): number {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    const char = str.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+  return Math.abs(hash);
+}
+
+// Stable pseudo-random number in [0, 1) for the given parts. The same seed and parts
+// always give the same value, so mock scores are reproducible across runs.
+export function seededUnit(seed: number, ...parts: string[]): number {
+  // Mix the hash through a xorshift step so neighbouring strings do not give neighbouring values
+  let x = hashString(`${seed}\u0000${parts.join('\u0000')}`) || 1;
+  x ^= x << 13;
+  x ^= x >>> 17;
+  x ^= x << 5;
+  return (x >>> 0) / 4294967296;
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth/next'
+import { authOptions } from './auth'
+import { prisma } from './prisma'
+import { rateLimit } from './rate-limit'
+import { ProviderCredentials, getUserProviderCredentials } from './api-keys'
+import { EmbeddingService } from './embeddings'
+import { estimateEmbeddingCost } from './embedding-providers'
+import { EmbeddingOptions, badRequest } from './embedding-route'
+
+// The signed-in side of the embedding routes: sign-in and rate limiting, the user's saved
+// credentials and usage recording. Like embedding-route.ts, helpers that can fail return the
+// response to send instead.
+
+export const REQUESTS_PER_MINUTE = 60
+
+export interface AuthorizedRequest {
+  user: { id: string; email: string }
+  remaining: number // requests left in the current window
+  headers: Record<string, string> // X-RateLimit-* headers for the route's response
+}
+
+// The signed-in user, after taking one slot of their rate limit
+export async function authorizeRequest(): Promise<AuthorizedRequest | NextResponse> {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.email) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 })
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { email: session.user.email }
+  })
+
+  if (!user) {
+    return NextResponse.json({ error: 'User not found' }, { status: 404 })
+  }
+
+  const { success, remaining, resetTime } = await rateLimit(user.id, REQUESTS_PER_MINUTE)
+  const headers = {
+    'X-RateLimit-Limit': REQUESTS_PER_MINUTE.toString(),
+    'X-RateLimit-Remaining': remaining.toString(),
+    'X-RateLimit-Reset': resetTime.toString()
+  }
+
+  if (!success) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded', resetTime, remaining },
+      { status: 429, headers }
+    )
+  }
+
+  return { user: { id: user.id, email: session.user.email }, remaining, headers }
+}
+
+// The user's saved credentials for each provider, with the secondary fallback's filled into
+// options.fallback; a provider without a saved key is a 400
+export async function getUserCredentials(
+  email: string,
+  options: EmbeddingOptions,
+  providers: string[] = [options.provider]
+): Promise<ProviderCredentials[] | NextResponse> {
+  const { fallback } = options
+  if (fallback.mode === 'secondary') {
+    const secondaryCredentials = await getUserProviderCredentials(email, fallback.provider)
+    fallback.apiKey = secondaryCredentials?.apiKey ?? undefined
+    fallback.baseURL = secondaryCredentials?.baseURL
+  }
+
+  const credentials = await Promise.all(providers.map(provider => getUserProviderCredentials(email, provider)))
+  const missing = providers.find((_, index) => !credentials[index])
+
+  if (missing) {
+    return badRequest(`No ${missing} API key found. Please add your API key in settings.`)
+  }
+
+  return credentials as ProviderCredentials[]
+}
+
+// Counts the request and logs one apiUsage row per provider the services actually called, so cache
+// hits and mock vectors cost nothing. Returns the estimated cost in USD.
+export async function recordUsage(userId: string, services: EmbeddingService[]): Promise<number> {
+  const providerUsage = services.flatMap(service => service.getProviderUsage())
+
+  await Promise.all([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        totalRequests: { increment: 1 },
+        monthlyRequests: { increment: 1 },
+        lastRequestAt: new Date()
+      }
+    }),
+    ...providerUsage.map(usage => prisma.apiUsage.create({
+      data: {
+        userId,
+        provider: usage.provider,
+        model: usage.model,
+        tokens: usage.tokens,
+        cost: estimateEmbeddingCost(usage.provider, usage.model, usage.tokens)
+      }
+    }))
+  ])
+
+  return providerUsage.reduce(
+    (total, usage) => total + estimateEmbeddingCost(usage.provider, usage.model, usage.tokens),
+    0
+  )
+}
@@ -0,0 +1,136 @@
+// Vector comparison shared by the similarity, rerank and hybrid paths. Pure functions
+// with no server dependencies, so the UI can use the metric metadata too.
+
+export type SimilarityMetric = 'cosine' | 'dot' | 'euclidean' | 'manhattan' | 'angular' | 'jaccard';
+
+export interface SimilarityMetricInfo {
+  id: SimilarityMetric;
+  label: string;
+  description: string;
+  kind: 'similarity' | 'distance'; // distances rank ascending: closest first
+  range: [number, number] | null; // null when the scale depends on the vectors
+}
+
+export const SIMILARITY_METRICS: SimilarityMetricInfo[] = [
+  { id: 'cosine', label: 'Cosine', description: 'Angle between vectors, ignoring length', kind: 'similarity', range: [-1, 1] },
+  { id: 'dot', label: 'Dot product', description: 'Equals cosine for unit-length vectors; rewards longer vectors otherwise', kind: 'similarity', range: null },
+  { id: 'euclidean', label: 'Euclidean', description: 'Straight-line distance between vector tips', kind: 'distance', range: null },
+  { id: 'manhattan', label: 'Manhattan', description: 'Sum of absolute differences per dimension', kind: 'distance', range: null },
+  { id: 'angular', label: 'Angular', description: 'Angle between vectors as a fraction of 180°', kind: 'distance', range: [0, 1] },
+  { id: 'jaccard', label: 'Jaccard (binarized)', description: 'Overlap of positive dimensions after thresholding at 0', kind: 'similarity', range: [0, 1] },
+];
+
+export function isSimilarityMetric(value: unknown): value is SimilarityMetric {
+  return SIMILARITY_METRICS.some(metric => metric.id === value);
+}
+
+export function getSimilarityMetricInfo(metric: SimilarityMetric): SimilarityMetricInfo {
+  return SIMILARITY_METRICS.find(info => info.id === metric)!;
+}
+
+function assertSameLength(vec1: number[], vec2: number[]): void {
+  if (vec1.length !== vec2.length) {
+    throw new Error('Vectors must have the same length');
+  }
+}
+
+export function dotProduct(vec1: number[], vec2: number[]): number {
+  assertSameLength(vec1, vec2);
+  let sum = 0;
+  for (let i = 0; i < vec1.length; i++) {
+    sum += vec1[i] * vec2[i];
+  }
+  return sum;
+}
+
+export function magnitude(vec: number[]): number {
+  return Math.sqrt(dotProduct(vec, vec));
+}
+
+// 0 when either vector is all zeros
+export function cosineSimilarity(vec1: number[], vec2: number[]): number {
+  const norms = magnitude(vec1) * magnitude(vec2);
+  return norms === 0 ? 0 : dotProduct(vec1, vec2) / norms;
+}
+
+export function euclideanDistance(vec1: number[], vec2: number[]): number {
+  assertSameLength(vec1, vec2);
+  let sum = 0;
+  for (let i = 0; i < vec1.length; i++) {
+    sum += (vec1[i] - vec2[i]) ** 2;
+  }
+  return Math.sqrt(sum);
+}
+
+export function manhattanDistance(vec1: number[], vec2: number[]): number {
+  assertSameLength(vec1, vec2);
+  let sum = 0;
+  for (let i = 0; i < vec1.length; i++) {
+    sum += Math.abs(vec1[i] - vec2[i]);
+  }
+  return sum;
+}
+
+// Angle in [0, 1]: 0 for the same direction, 1 for opposite directions
+export function angularDistance(vec1: number[], vec2: number[]): number {
+  // Rounding can push cosine just past ±1, where acos is NaN
+  const cosine = Math.max(-1, Math.min(1, cosineSimilarity(vec1, vec2)));
+  return Math.acos(cosine) / Math.PI;
+}
+
+// Jaccard over the sets of positive dimensions. Two all-non-positive vectors have
+// nothing in common to compare and score 0.
+export function binarizedJaccard(vec1: number[], vec2: number[]): number {
+  assertSameLength(vec1, vec2);
+  let intersection = 0;
+  let union = 0;
+  for (let i = 0; i < vec1.length; i++) {
+    const a = vec1[i] > 0;
+    const b = vec2[i] > 0;
+    if (a && b) intersection++;
+    if (a || b) union++;
+  }
+  return union === 0 ? 0 : intersection / union;
+}
+
+const METRIC_FUNCTIONS: Record<SimilarityMetric, (vec1: number[], vec2: number[]) => number> = {
+  cosine: cosineSimilarity,
+  dot: dotProduct,
+  euclidean: euclideanDistance,
+  manhattan: manhattanDistance,
+  angular: angularDistance,
+  jaccard: binarizedJaccard,
+};
+
+export function compareVectors(metric: SimilarityMetric, vec1: number[], vec2: number[]): number {
+  return METRIC_FUNCTIONS[metric](vec1, vec2);
+}
+
+// Sort comparator that puts the best score first for the metric
+export function compareScores(metric: SimilarityMetric): (a: number, b: number) => number {
+  return getSimilarityMetricInfo(metric).kind === 'distance' ? (a, b) => a - b : (a, b) => b - a;
+}
+
+// Position of a score on a 0-1 "how close" scale for display. Bounded metrics use
+// their fixed range; unbounded ones are placed relative to the other scores shown.
+export function scoreToUnit(metric: SimilarityMetric, score: number, scores: number[] = [score]): number {
+  const { kind, range } = getSimilarityMetricInfo(metric);
+  const [low, high] = range ?? [Math.min(...scores), Math.max(...scores)];
+  if (high === low) {
+    return 1;
+  }
+  const unit = kind === 'distance' ? (high - score) / (high - low) : (score - low) / (high - low);
+  return Math.max(0, Math.min(1, unit));
+}
+
+// Symmetric cosine matrix over all vectors; each pair is computed once
+export function cosineMatrix(vectors: number[][]): number[][] {
+  const matrix = vectors.map(() => new Array<number>(vectors.length).fill(0));
+  for (let i = 0; i < vectors.length; i++) {
+    matrix[i][i] = magnitude(vectors[i]) === 0 ? 0 : 1;
+    for (let j = i + 1; j < vectors.length; j++) {
+      matrix[i][j] = matrix[j][i] = cosineSimilarity(vectors[i], vectors[j]);
+    }
+  }
+  return matrix;
+}
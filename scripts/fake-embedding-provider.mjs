@@ -0,0 +1,93 @@
+// Local stand-in for an embedding provider that injects failures, for exercising
+// the retry, timeout and circuit-breaker policy without spending API quota.
+//
+//   FAIL_FIRST=2 FAIL_STATUS=503 RETRY_AFTER=1 node scripts/fake-embedding-provider.mjs
+//
+// Point the app at it with OPENAI_COMPATIBLE_BASE_URL=http://localhost:4010/v1,
+// VOYAGE_BASE_URL=http://localhost:4010 or COHERE_BASE_URL=http://localhost:4010.
+//
+// PORT         port to listen on (4010)
+// DIMENSIONS   vector length returned (8)
+// FAIL_FIRST   fail this many requests before succeeding (0)
+// FAIL_RATE    probability of failing any later request, 0-1 (0)
+// FAIL_STATUS  status code for injected failures (503)
+// RETRY_AFTER  Retry-After header in seconds sent with failures (unset)
+// DELAY_MS     delay before every response, to trigger timeouts (0)
+
+import { createServer } from 'node:http';
+
+const port = Number(process.env.PORT ?? 4010);
+const dimensions = Number(process.env.DIMENSIONS ?? 8);
+const failFirst = Number(process.env.FAIL_FIRST ?? 0);
+const failRate = Number(process.env.FAIL_RATE ?? 0);
+const failStatus = Number(process.env.FAIL_STATUS ?? 503);
+const retryAfter = process.env.RETRY_AFTER;
+const delayMs = Number(process.env.DELAY_MS ?? 0);
+
+let requestCount = 0;
+
+function vectorFor(text) {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) - hash + text.charCodeAt(i)) | 0;
+  }
+  return Array.from({ length: dimensions }, (_, i) => Math.sin(hash + i));
+}
+
+function send(response, status, body, headers = {}) {
+  response.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  response.end(JSON.stringify(body));
+}
+
+async function readJson(request) {
+  let raw = '';
+  for await (const chunk of request) {
+    raw += chunk;
+  }
+  return JSON.parse(raw || '{}');
+}
+
+const server = createServer(async (request, response) => {
+  const number = ++requestCount;
+  const body = await readJson(request).catch(() => null);
+
+  if (delayMs) {
+    await new Promise(resolve => setTimeout(resolve, delayMs));
+  }
+
+  if (number <= failFirst || Math.random() < failRate) {
+    console.log(`#${number} ${request.method} ${request.url} -> injected ${failStatus}`);
+    send(response, failStatus, { error: { message: `Injected failure ${number}` } },
+      retryAfter ? { 'Retry-After': retryAfter } : {});
+    return;
+  }
+
+  if (!body) {
+    send(response, 400, { error: { message: 'Invalid JSON' } });
+    return;
+  }
+
+  console.log(`#${number} ${request.method} ${request.url} -> 200`);
+
+  if (request.url === '/v2/embed') {
+    send(response, 200, { embeddings: { float: body.texts.map(vectorFor) } });
+    return;
+  }
+
+  if (request.url?.endsWith('/embeddings')) {
+    const input = Array.isArray(body.input) ? body.input : [body.input];
+    send(response, 200, {
+      object: 'list',
+      model: body.model,
+      data: input.map((text, index) => ({ object: 'embedding', index, embedding: vectorFor(text) })),
+      usage: { prompt_tokens: 0, total_tokens: 0 },
+    });
+    return;
+  }
+
+  send(response, 404, { error: { message: `No route for ${request.url}` } });
+});
+
+server.listen(port, () => {
+  console.log(`Fake embedding provider listening on http://localhost:${port}`);
+});
@@ -1,7 +1,39 @@
+export interface EmbeddingProvenance {
+  source: 'provider' | 'secondary' | 'mock';
+  provider: string;
+  model: string;
+  fallbackReason?: string;
+  cached?: boolean;
+}
+
 export interface SimilarityResult {
   text: string;
   similarity: number;
   index: number;
+  provenance?: EmbeddingProvenance;
+  tokens?: number;
+  truncated?: boolean;
+  hybrid?: HybridScores;
+  mmr?: MmrScores;
+}
+
+export interface MmrScores {
+  lambda: number;
+  relevance: number;
+  redundancy: number;
+  redundantWith: number | null;
+  penalty: number;
+  mmrScore: number;
+}
+
+export interface HybridScores {
+  strategy: 'rrf' | 'min-max' | 'z-score' | 'convex';
+  denseScore: number;
+  lexicalScore: number;
+  denseRank: number;
+  lexicalRank: number;
+  fusedScore: number;
+  fusedRank: number;
 }
 
 export interface SimilarityResponse {
@@ -39,3 +71,28 @@ export interface RerankResponse {
   rerankProvider: string;
   usedRealAPI: boolean;
 }
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  updatedAt: string;
+  _count: { runs: number; passageSets: number; queries: number };
+}
+
+export interface RunSummary {
+  id: string;
+  provider: string;
+  model: string;
+  usedRealAPI: boolean;
+  createdAt: string;
+  query: { id: string; text: string };
+  passageSet: { id: string; name: string };
+}
+
+// A saved run as returned by GET /api/projects/[id]/runs/[runId]
+export interface SavedRun extends RunSummary {
+  parameters: Record<string, unknown>; // the similarity request body, minus query, passages and keys
+  results: SimilarityResult[];
+  passageSet: { id: string; name: string; passages: string[] };
+}